@@ -1,45 +1,200 @@
 
 import { useState, useRef, useEffect } from 'react';
+import { FolderOpen, Globe } from 'lucide-react';
 import SetupForm from './components/SetupForm';
 import ResultsGrid from './components/ResultsGrid';
-import { AppState, StickerPlanItem, StickerCount, GeneratedSticker } from './types';
-import { generateStickerPlan, generateSingleStickerImage, generateStickerGrid } from './services/geminiService';
-import { processStickerImage, sliceImageGrid } from './utils/imageProcessing';
-import { STICKER_STYLES } from './constants';
+import ProjectList from './components/ProjectList';
+import { AppState, StickerPlanItem, StickerCount, StickerMode, GeneratedSticker, RenderedSticker, StickerPrompt, VersionSource, ProviderId, Locale, CustomStyle, GridSize, CandidateCount, ReferenceImage, CharacterSheet, CaptionTone, CaptionLanguage, CaptionMap, StoreMetadata } from './types';
+import {
+  generateStickerPlan,
+  suggestCaptions,
+  translateCaptions,
+  generateStoreMetadata,
+  generateCharacterSheet,
+  generateSingleStickerImage,
+  generateStickerGrid,
+  generateAnimationSheet,
+  getActiveProvider,
+  getActiveProviderId,
+  setActiveProvider
+} from './services/stickerService';
+import { createProjectId, loadProject, saveProject, toSavedProject } from './services/projectStore';
+import { findStyle, listCustomStyles } from './services/styleStore';
+import { getSchedulerConfig } from './services/requestScheduler';
+import { asProcessingStep, describeFailure, toGenerationError } from './services/generationErrors';
+import { LOCALES, getLocale, setLocale, t } from './i18n';
+import {
+  processStickerImage,
+  sliceImageGrid,
+  sliceImageSheet,
+  processAnimatedSticker,
+  randomCaptionLayout
+} from './utils/imageProcessing';
+import { findMissingCaptions, getFreshCaption, getLanguageName, withCaptionText } from './utils/captionLanguages';
+import { addCandidates, addVersion, applyToActiveVersion, createVersion, pinVersion } from './utils/stickerVersions';
+import { EMPTY_PLAN_HISTORY, recordPlanChange, redoPlan, undoPlan } from './utils/planHistory';
+import { fitStoreLimits } from './utils/storeMetadata';
+import { STICKER_STYLES, ANIMATION_SPEC, DEFAULT_REMOVAL_SETTINGS, DEFAULT_GRID_SIZE, DEFAULT_CANDIDATE_COUNT, CANDIDATE_GRID_LAYOUTS, DEFAULT_LANGUAGES } from './constants';
 
 const APP_VERSION = "v2.1.1";
 
 const initialState: AppState = {
   step: 'setup',
-  referenceImage: null,
+  projectId: null,
+  referenceImages: [],
+  characterSheet: null,
   selectedStyleId: STICKER_STYLES[0].id,
   count: 8,
+  mode: 'static',
+  gridSize: DEFAULT_GRID_SIZE,
+  candidateCount: DEFAULT_CANDIDATE_COUNT,
   usageContext: '',
+  languages: DEFAULT_LANGUAGES,
   stickerPlan: [],
+  planHistory: EMPTY_PLAN_HISTORY,
+  storeMetadata: null,
   results: [],
   isThinking: false, // Used for Text Planning
-  progress: 0,
+  isGenerating: false,
+  progress: 0, // Grid/animation calls finished in the current run
+  totalBatches: 0,
 };
 
-// Helper for delay
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Autosave is debounced so a burst of plan edits is one IndexedDB write
+const AUTOSAVE_DELAY_MS = 800;
+
+/**
+ * Static mode: remove the background and burn in the caption.
+ * The caption angle and removal settings are stored so the sticker can be re-rendered identically.
+ */
+const renderStaticSticker = async (rawBase64: string, text: string, signal?: AbortSignal): Promise<RenderedSticker> => {
+  const caption = randomCaptionLayout();
+  const removal = DEFAULT_REMOVAL_SETTINGS;
+  const processedUrl = await asProcessingStep(() => processStickerImage(rawBase64, text, { caption, removal, signal }));
+  return { imageUrl: rawBase64, processedUrl, caption, removal, maskUrl: undefined };
+};
+
+// Every plan or language change goes through here so it can be undone
+const withPlan = (
+  prev: AppState,
+  plan: StickerPlanItem[],
+  mergeKey?: string,
+  languages: CaptionLanguage[] = prev.languages
+): Pick<AppState, 'stickerPlan' | 'languages' | 'planHistory'> => ({
+  stickerPlan: plan,
+  languages,
+  planHistory: recordPlanChange(prev.planHistory, { plan: prev.stickerPlan, languages: prev.languages }, mergeKey)
+});
+
+// Candidate runs reuse the grid call: every cell gets the same caption, each asked for a different take
+const toCandidatePrompts = (item: StickerPlanItem, count: number): StickerPrompt[] =>
+  Array.from({ length: count }, (_, i) => ({
+    text: item.text,
+    direction: `${item.direction.trim() || item.text}; take ${i + 1} of ${count}, clearly different pose, angle or expression from the other takes`
+  }));
+
+/**
+ * Animated mode: one model call per sticker returns a frame sheet,
+ * which is sliced, processed frame by frame and assembled into an APNG.
+ */
+const renderAnimatedSticker = async (
+  item: StickerPlanItem,
+  stylePrompt: string,
+  referenceImages: ReferenceImage[],
+  styleReference: string | null,
+  characterSheet: string | null,
+  signal?: AbortSignal
+): Promise<RenderedSticker> => {
+  const sheetBase64 = await generateAnimationSheet(
+    item,
+    stylePrompt,
+    referenceImages,
+    ANIMATION_SPEC.frameCount,
+    ANIMATION_SPEC.sheetColumns,
+    styleReference,
+    characterSheet,
+    signal
+  );
+  const caption = randomCaptionLayout();
+  const removal = DEFAULT_REMOVAL_SETTINGS;
+  const { frames, apngUrl } = await asProcessingStep(async () => {
+    const rawFrames = await sliceImageSheet(
+      sheetBase64,
+      ANIMATION_SPEC.sheetColumns,
+      ANIMATION_SPEC.sheetRows,
+      ANIMATION_SPEC.frameCount
+    );
+    return processAnimatedSticker(rawFrames, item.text, ANIMATION_SPEC, { caption, removal, signal });
+  });
+  return { imageUrl: sheetBase64, processedUrl: apngUrl, frames, caption, removal, maskUrl: undefined };
+};
 
 function App() {
   const [state, setState] = useState<AppState>(initialState);
+  const [providerId, setProviderId] = useState<ProviderId>(getActiveProviderId());
+  const [locale, setLocaleState] = useState<Locale>(getLocale());
+  const [showProjects, setShowProjects] = useState(false);
+  const [customStyles, setCustomStyles] = useState<CustomStyle[]>([]);
   
   // Ref to handle cancellation of Image Generation
   const abortControllerRef = useRef<AbortController | null>(null);
+  const requestControllersRef = useRef(new Set<AbortController>()); // Single regenerations and other one-off calls in flight
   const isMounted = useRef(true);
+  const projectCreatedAtRef = useRef<number | undefined>(undefined);
 
   useEffect(() => {
     return () => { isMounted.current = false; };
   }, []);
 
+  useEffect(() => {
+    listCustomStyles()
+      .then(setCustomStyles)
+      .catch(err => console.error("Failed to load custom styles", err));
+  }, []);
+
+  // Autosave the current project to IndexedDB
+  useEffect(() => {
+    const project = toSavedProject(state, projectCreatedAtRef.current);
+    if (!project) return;
+    projectCreatedAtRef.current = project.createdAt;
+
+    const timer = setTimeout(() => {
+      saveProject(project).catch(err => console.error("Autosave failed", err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [
+    state.projectId,
+    state.step,
+    state.referenceImages,
+    state.characterSheet,
+    state.selectedStyleId,
+    state.count,
+    state.mode,
+    state.gridSize,
+    state.candidateCount,
+    state.usageContext,
+    state.languages,
+    state.stickerPlan,
+    state.results,
+    state.storeMetadata
+  ]);
+
+  // One-off calls (plan, previews, translations, single redraws) register here so abortAll() stops them too
+  const startRequest = () => {
+    const controller = new AbortController();
+    requestControllersRef.current.add(controller);
+    return controller;
+  };
+
+  const finishRequest = (controller: AbortController) => {
+    requestControllersRef.current.delete(controller);
+  };
+
   // --- Actions ---
 
   // 1. Generate Text Plan
   const handleGeneratePlan = async (
-    file: string | null,
+    references: ReferenceImage[],
     styleId: string,
     count: StickerCount,
     context: string
@@ -47,131 +202,381 @@ function App() {
     setState(prev => ({ 
       ...prev, 
       isThinking: true,
-      referenceImage: file,
+      referenceImages: references,
       selectedStyleId: styleId,
       count,
       usageContext: context
     }));
     
+    const controller = startRequest();
     try {
-      const plan = await generateStickerPlan(count, context);
+      const plan = await generateStickerPlan(count, context, controller.signal);
       setState(prev => ({
         ...prev,
-        stickerPlan: plan,
+        // The project is created the first time a plan exists
+        projectId: prev.projectId ?? createProjectId(),
+        ...withPlan(prev, plan),
         isThinking: false
       }));
     } catch (error) {
+      // Reset or another project opened: that state already replaced this one
+      if (controller.signal.aborted) return;
       console.error(error);
-      const msg = (error as Error).message;
-      alert(`產生計畫失敗: ${msg}`);
+      const genError = toGenerationError(error);
+      alert(describeFailure(t('app.action.plan'), genError));
       setState(prev => ({ ...prev, isThinking: false }));
+    } finally {
+      finishRequest(controller);
     }
   };
 
+  // 1a. Import a plan written elsewhere (CSV/JSON); no model call
+  const handleImportPlan = (
+    plan: StickerPlanItem[],
+    languages: CaptionLanguage[],
+    references: ReferenceImage[],
+    styleId: string,
+    count: StickerCount,
+    context: string
+  ) => {
+    setState(prev => ({
+      ...prev,
+      projectId: prev.projectId ?? createProjectId(),
+      referenceImages: references,
+      selectedStyleId: styleId,
+      count,
+      usageContext: context,
+      ...withPlan(prev, plan, undefined, [...prev.languages, ...languages.filter(lang => !prev.languages.includes(lang))])
+    }));
+  };
+
   // 2. Update Plan Text Manually
   const handleUpdatePlan = (newPlan: StickerPlanItem[]) => {
-    setState(prev => ({ ...prev, stickerPlan: newPlan }));
+    setState(prev => ({ ...prev, ...withPlan(prev, newPlan) }));
+  };
+
+  // One line, patched onto the latest plan: a suggestion that arrives late doesn't undo edits made meanwhile.
+  // mergeKey groups keystrokes in one field into one undo step.
+  const handlePatchPlanItem = (id: number, patch: Partial<StickerPlanItem>, mergeKey?: string) => {
+    setState(prev => ({
+      ...prev,
+      ...withPlan(prev, prev.stickerPlan.map(item => item.id === id ? { ...item, ...patch } : item), mergeKey)
+    }));
+  };
+
+  const handleUndoPlan = () => {
+    setState(prev => {
+      const undone = undoPlan(prev.planHistory, { plan: prev.stickerPlan, languages: prev.languages });
+      return undone ? { ...prev, stickerPlan: undone.snapshot.plan, languages: undone.snapshot.languages, planHistory: undone.history } : prev;
+    });
+  };
+
+  const handleRedoPlan = () => {
+    setState(prev => {
+      const redone = redoPlan(prev.planHistory, { plan: prev.stickerPlan, languages: prev.languages });
+      return redone ? { ...prev, stickerPlan: redone.snapshot.plan, languages: redone.snapshot.languages, planHistory: redone.history } : prev;
+    });
+  };
+
+  // 2a. New ideas for one plan line (the rest of the plan is sent so nothing repeats)
+  const handleSuggestCaptions = async (id: number, context: string, count: number, tone: CaptionTone | null = null) => {
+    const target = state.stickerPlan.find(p => p.id === id);
+    if (!target) return [];
+
+    const controller = startRequest();
+    try {
+      const suggestions = await suggestCaptions(target, state.stickerPlan, context, count, tone, controller.signal);
+      if (suggestions.length === 0) alert(t('app.noMoreSuggestions'));
+      return suggestions;
+    } catch (e) {
+      if (controller.signal.aborted) return [];
+      console.error(e);
+      const genError = toGenerationError(e);
+      alert(describeFailure(t('app.action.suggest'), genError));
+      return [];
+    } finally {
+      finishRequest(controller);
+    }
+  };
+
+  // 2b. Caption languages. Translations are merged by id so edits made meanwhile survive;
+  // a caption that already exists (possibly hand-edited) is only replaced when it was stale.
+  // A newly added language joins in the same undo step as its translations.
+  const mergeTranslations = (translations: Record<number, CaptionMap>, addedLanguage?: CaptionLanguage) => {
+    setState(prev => ({
+      ...prev,
+      ...withPlan(prev, prev.stickerPlan.map(item => {
+        const translated = translations[item.id];
+        if (!translated) return item;
+        const replaced = item.staleLanguages?.filter(lang => translated[lang]) ?? [];
+        const kept = Object.fromEntries(Object.entries(item.captions).filter(([lang]) => !replaced.includes(lang as CaptionLanguage)));
+        const stale = item.staleLanguages?.filter(lang => !replaced.includes(lang));
+        return { ...item, captions: { ...translated, ...kept }, staleLanguages: stale?.length ? stale : undefined };
+      }), undefined, addedLanguage && !prev.languages.includes(addedLanguage) ? [...prev.languages, addedLanguage] : prev.languages)
+    }));
+  };
+
+  const handleAddLanguage = async (lang: CaptionLanguage, context: string) => {
+    const controller = startRequest();
+    try {
+      const items = state.stickerPlan.filter(item => !getFreshCaption(item, lang));
+      mergeTranslations(await translateCaptions(items, [lang], context, controller.signal), lang);
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      console.error(e);
+      const genError = toGenerationError(e);
+      alert(describeFailure(t('app.action.translateTo', { language: getLanguageName(lang) }), genError));
+    } finally {
+      finishRequest(controller);
+    }
+  };
+
+  // Translations are kept on the plan, so adding the language back (or undoing) is free
+  const handleRemoveLanguage = (lang: CaptionLanguage) => {
+    setState(prev => ({ ...prev, ...withPlan(prev, prev.stickerPlan, undefined, prev.languages.filter(l => l !== lang)) }));
+  };
+
+  // Lines that were added or replaced after a language was added
+  const handleFillTranslations = async (context: string) => {
+    const items = findMissingCaptions(state.stickerPlan, state.languages);
+    const languages = state.languages.filter(lang => items.some(item => !getFreshCaption(item, lang)));
+    const controller = startRequest();
+    try {
+      mergeTranslations(await translateCaptions(items, languages, context, controller.signal));
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      console.error(e);
+      const genError = toGenerationError(e);
+      alert(describeFailure(t('app.action.translate'), genError));
+    } finally {
+      finishRequest(controller);
+    }
   };
 
   // 2.5 Test Generate (Single Preview)
-  const handleTestGeneration = async (file: string | null, styleId: string) => {
-     if (!file) {
-       alert("請先上傳照片");
+  const handleTestGeneration = async (references: ReferenceImage[], styleId: string) => {
+     if (references.length === 0) {
+       alert(t('app.uploadPhotoFirst'));
        return;
      }
      
-     const style = STICKER_STYLES.find(s => s.id === styleId);
+     const style = findStyle(styleId, customStyles);
      const stylePrompt = style ? style.promptModifier : '';
      
+     const controller = startRequest();
      try {
        // Just generate a generic "Happy" sticker for preview
        const rawBase64 = await generateSingleStickerImage(
-         "開心 (Happy)",
+         { text: "開心 (Happy)", direction: "smiling brightly and waving" },
          stylePrompt,
-         file
+         references,
+         style?.referenceImage ?? null,
+         getApprovedCharacterSheet(styleId),
+         controller.signal
        );
        return rawBase64;
      } catch (e) {
+       if (controller.signal.aborted) return null;
        console.error(e);
-       const msg = (e as Error).message;
-       alert(`試畫失敗: ${msg}`);
+       const genError = toGenerationError(e);
+       alert(describeFailure(t('app.action.test'), genError));
        return null;
+     } finally {
+       finishRequest(controller);
      }
   };
 
-  // 3. Start Image Generation (Grid Batch Strategy)
-  const handleStartGeneration = async () => {
-    // Reset abort controller
-    abortControllerRef.current = new AbortController();
+  // 2.6 Character Sheet (optional anchor): drawn once, approved by the user, then sent with every image call
+  const handleGenerateCharacterSheet = async (references: ReferenceImage[], styleId: string) => {
+     const style = findStyle(styleId, customStyles);
+     const stylePrompt = style ? style.promptModifier : '';
+
+     const controller = startRequest();
+     try {
+       return await generateCharacterSheet(stylePrompt, references, style?.referenceImage ?? null, controller.signal);
+     } catch (e) {
+       if (controller.signal.aborted) return null;
+       console.error(e);
+       const genError = toGenerationError(e);
+       alert(describeFailure(t('app.action.characterSheet'), genError));
+       return null;
+     } finally {
+       finishRequest(controller);
+     }
+  };
 
+  // Approving also commits the style it was drawn in, so the run actually uses the sheet
+  const handleApproveCharacterSheet = (sheet: CharacterSheet | null) => {
+    setState(prev => ({
+      ...prev,
+      characterSheet: sheet,
+      selectedStyleId: sheet ? sheet.styleId : prev.selectedStyleId
+    }));
+  };
+
+  // The approved sheet, if it was drawn in the given style
+  const getApprovedCharacterSheet = (styleId: string = state.selectedStyleId) =>
+    state.characterSheet?.styleId === styleId ? state.characterSheet.imageUrl : null;
+
+  // 3. Start Image Generation (fresh run over the whole plan)
+  const handleStartGeneration = async (mode: StickerMode, gridSize: GridSize, candidateCount: CandidateCount) => {
     // Init results
     const initialResults: GeneratedSticker[] = state.stickerPlan.map(item => ({
       id: item.id,
       text: item.text,
       imageUrl: '',
       processedUrl: '',
-      status: 'pending'
+      status: 'pending',
+      versions: []
     }));
 
+    setState(prev => ({ ...prev, mode, gridSize, candidateCount, results: initialResults }));
+    await runGeneration(mode, gridSize, candidateCount, state.stickerPlan);
+  };
+
+  // 3a. Resume an interrupted run from the first sticker still pending or failed
+  const handleResumeGeneration = async (
+    gridSize: GridSize = state.gridSize,
+    candidateCount: CandidateCount = state.candidateCount
+  ) => {
+    const remaining = state.stickerPlan.filter(item => {
+      const result = state.results.find(r => r.id === item.id);
+      return !result || result.status === 'pending' || result.status === 'error';
+    });
+    if (remaining.length === 0) return;
+
+    // Plan items added since the last run have no result slot yet
     setState(prev => ({
       ...prev,
-      step: 'generating',
-      results: initialResults
+      gridSize,
+      candidateCount,
+      results: prev.stickerPlan.map(item =>
+        prev.results.find(r => r.id === item.id)
+        || { id: item.id, text: item.text, imageUrl: '', processedUrl: '', status: 'pending', versions: [] }
+      )
     }));
+    await runGeneration(state.mode, gridSize, candidateCount, remaining);
+  };
 
-    const style = STICKER_STYLES.find(s => s.id === state.selectedStyleId);
-    const stylePrompt = style ? style.promptModifier : '';
+  // 3b. Batch loop shared by start and resume (Grid Batch Strategy)
+  const runGeneration = async (mode: StickerMode, gridSize: GridSize, candidateCount: CandidateCount, items: StickerPlanItem[]) => {
+    // Reset abort controller; this run only ever checks its own signal
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
 
     // GRID BATCH PROCESSING
-    // We process 4 stickers at a time (2x2 Grid)
-    // This reduces API calls by 75% (e.g. 24 stickers = 6 calls instead of 24)
-    const BATCH_SIZE = 4;
-    
-    let i = 0;
-    while (i < state.stickerPlan.length) {
-      if (!isMounted.current || abortControllerRef.current?.signal.aborted) break;
+    // We process gridSize x gridSize stickers per call (e.g. 2x2: 24 stickers = 6 calls, 3x3: 40 stickers = 5 calls)
+    // Animated mode and candidate runs need one call per sticker.
+    const candidates = mode === 'animated' ? 1 : candidateCount;
+    const BATCH_SIZE = mode === 'animated' || candidates > 1 ? 1 : gridSize * gridSize;
+    const totalBatches = Math.ceil(items.length / BATCH_SIZE);
+
+    setState(prev => ({
+      ...prev,
+      step: 'generating',
+      isGenerating: true,
+      progress: 0,
+      totalBatches
+    }));
 
-      // Get the current batch of 4 items (or less if at the end)
-      const currentBatch = state.stickerPlan.slice(i, i + BATCH_SIZE);
+    const style = findStyle(state.selectedStyleId, customStyles);
+    const stylePrompt = style ? style.promptModifier : '';
+    const styleReference = style?.referenceImage ?? null;
+    const characterSheet = getApprovedCharacterSheet();
+
+    // Pacing lives in the request scheduler; we only keep as many batches
+    // going as it allows calls in flight, so queued batches don't all show "drawing".
+    const batches: StickerPlanItem[][] = [];
+    for (let i = 0; i < items.length; i += BATCH_SIZE) {
+      batches.push(items.slice(i, i + BATCH_SIZE));
+    }
+    let nextBatch = 0;
+
+    const runBatch = async (currentBatch: StickerPlanItem[]) => {
       const batchIds = currentBatch.map(item => item.id);
 
       // Update UI to show "Generating" for this batch
       setState(prev => ({
         ...prev,
         results: prev.results.map(r => 
-          batchIds.includes(r.id) ? { ...r, status: 'generating' } : r
+          batchIds.includes(r.id) ? { ...r, status: 'generating', errorDetail: undefined, errorKind: undefined, retryAfterMs: undefined } : r
         )
       }));
 
       try {
-        // 1. Generate ONE 2x2 Grid Image for these 4 items
-        // We pass the texts of all 4 items to the AI
-        const captions = currentBatch.map(item => item.text);
-        
-        const gridBase64 = await generateStickerGrid(
-           captions,
-           stylePrompt,
-           state.referenceImage
-        );
-
-        if (abortControllerRef.current?.signal.aborted) throw new Error("Aborted");
-
-        // 2. Slice the grid into individual images (up to 4)
-        const slicedImages = await sliceImageGrid(gridBase64, currentBatch.length);
-
-        // 3. Process each slice individually (Remove BG + Add Text)
-        // We can do this in parallel as it is local processing
-        const processPromises = slicedImages.map(async (imgBase64, idx) => {
-           const item = currentBatch[idx];
-           const processed = await processStickerImage(imgBase64, item.text);
-           return {
-             id: item.id,
-             raw: imgBase64,
-             processed: processed
-           };
-        });
+        // Several renders per sticker in a candidate run, one otherwise
+        let processedResults: { id: number; renders: RenderedSticker[] }[];
+        const source: VersionSource = mode === 'static' && (gridSize > 1 || candidates > 1) ? 'grid' : 'single';
+
+        if (mode === 'animated') {
+          // One frame sheet per sticker
+          const item = currentBatch[0];
+          const rendered = await renderAnimatedSticker(item, stylePrompt, state.referenceImages, styleReference, characterSheet, signal);
+          processedResults = [{ id: item.id, renders: [rendered] }];
+        } else if (candidates > 1) {
+          // Candidates: one grid call holding several takes of the same caption
+          const item = currentBatch[0];
+          const { columns, rows } = CANDIDATE_GRID_LAYOUTS[candidates];
+          const sheetBase64 = await generateStickerGrid(
+            toCandidatePrompts(item, candidates),
+            stylePrompt,
+            state.referenceImages,
+            columns,
+            rows,
+            styleReference,
+            characterSheet,
+            signal
+          );
+          const takes = await sliceImageGrid(sheetBase64, columns, rows, candidates, signal);
+          const renders = await Promise.all(takes.map(take => renderStaticSticker(take, item.text, signal)));
+          processedResults = [{ id: item.id, renders }];
+        } else if (gridSize === 1) {
+          // One image per call: no grid prompt, nothing to slice
+          const item = currentBatch[0];
+          const rawBase64 = await generateSingleStickerImage(
+            item,
+            stylePrompt,
+            state.referenceImages,
+            styleReference,
+            characterSheet,
+            signal
+          );
+          const rendered = await renderStaticSticker(rawBase64, item.text, signal);
+          processedResults = [{ id: item.id, renders: [rendered] }];
+        } else {
+          // 1. Generate ONE grid image for this batch
+          // We pass the captions and drawing directions of all items in the batch to the AI
+          const gridBase64 = await generateStickerGrid(
+             currentBatch,
+             stylePrompt,
+             state.referenceImages,
+             gridSize,
+             gridSize,
+             styleReference,
+             characterSheet,
+             signal
+          );
+
+          // 2. Slice the grid into individual images (up to gridSize x gridSize)
+          const slicedImages = await sliceImageGrid(gridBase64, gridSize, gridSize, currentBatch.length, signal);
+
+          // 3. Process each slice individually (Remove BG + Add Text)
+          // We can do this in parallel as it is local processing
+          const processPromises = slicedImages.map(async (imgBase64, idx) => {
+             const item = currentBatch[idx];
+             const rendered = await renderStaticSticker(imgBase64, item.text, signal);
+             return {
+               id: item.id,
+               renders: [rendered]
+             };
+          });
+
+          processedResults = await Promise.all(processPromises);
+        }
 
-        const processedResults = await Promise.all(processPromises);
+        // A cancelled run must not write into state the user has already left
+        if (signal.aborted) throw signal.reason;
 
         // 4. Update Success State
         setState(prev => ({
@@ -179,82 +584,175 @@ function App() {
            results: prev.results.map(r => {
              const found = processedResults.find(p => p.id === r.id);
              if (found) {
-               return { ...r, status: 'success', imageUrl: found.raw, processedUrl: found.processed };
+               const versions = found.renders.map(rendered => createVersion(rendered, r.text, source));
+               return { ...addCandidates(r, versions), status: 'success' };
              }
              return r;
            })
         }));
 
-      } catch (error: any) {
-        if (abortControllerRef.current?.signal.aborted) break;
+      } catch (error) {
+        if (signal.aborted) return;
         
-        console.error(`Error generating batch starting at ${i}`, error);
-        const errMsg = error.message || "生成失敗";
+        console.error(`Error generating batch starting at #${batchIds[0] + 1}`, error);
+        const genError = toGenerationError(error);
         
         // Mark whole batch as error
         setState(prev => ({
           ...prev,
           results: prev.results.map(r => 
-            batchIds.includes(r.id) ? { ...r, status: 'error', error: errMsg } : r
+            batchIds.includes(r.id) ? { ...r, status: 'error', errorDetail: genError.finishReason ?? genError.detail, errorKind: genError.kind, retryAfterMs: genError.retryAfterMs } : r
           )
         }));
-        
-        // If rate limited, we might want to pause longer, but usually batching prevents this.
-        if (errMsg.includes('429') || errMsg.includes('Exhausted')) {
-           await wait(10000); 
-        }
       }
 
-      // Delay between batches to be safe
-      // 10 seconds delay between grid generations
-      if (i + BATCH_SIZE < state.stickerPlan.length) {
-         await wait(10000);
+      setState(prev => ({ ...prev, progress: prev.progress + 1 }));
+    };
+
+    const worker = async () => {
+      while (nextBatch < batches.length) {
+        if (!isMounted.current || signal.aborted) return;
+        await runBatch(batches[nextBatch++]);
       }
-      
-      i += BATCH_SIZE;
-    }
+    };
+
+    const workerCount = Math.min(getSchedulerConfig().maxConcurrent, batches.length);
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    // A newer run has taken over the results
+    if (!isMounted.current || abortControllerRef.current !== controller) return;
+
+    // Anything still marked 'generating' was interrupted by cancel; keep it resumable
+    setState(prev => ({
+      ...prev,
+      isGenerating: false,
+      step: prev.step === 'generating' ? 'complete' : prev.step,
+      results: prev.results.map(r => r.status === 'generating' ? { ...r, status: 'pending' } : r)
+    }));
   };
 
   // 4. Regenerate Single Sticker (Uses Single Image API)
-  const handleRegenerateSingle = async (id: number) => {
-    const item = state.stickerPlan.find(p => p.id === id);
-    if (!item) return;
+  // A new caption (e.g. after a safety block) is written back to the plan first.
+  const handleRegenerateSingle = async (id: number, newText?: string) => {
+    const planItem = state.stickerPlan.find(p => p.id === id);
+    if (!planItem) return;
+    const item = newText ? { ...planItem, ...withCaptionText(planItem, newText), edited: true } : planItem;
 
     setState(prev => ({
       ...prev,
-      results: prev.results.map(r => r.id === id ? { ...r, status: 'generating' } : r)
+      ...(newText ? withPlan(prev, prev.stickerPlan.map(p => p.id === id ? item : p)) : {}),
+      results: prev.results.map(r => r.id === id ? { ...r, text: item.text, status: 'generating', errorDetail: undefined, errorKind: undefined, retryAfterMs: undefined } : r)
     }));
 
+    const controller = startRequest();
+    const { signal } = controller;
+
     try {
-       const style = STICKER_STYLES.find(s => s.id === state.selectedStyleId);
+       const style = findStyle(state.selectedStyleId, customStyles);
        const stylePrompt = style ? style.promptModifier : '';
-       
-       const rawBase64 = await generateSingleStickerImage(
-         item.text,
-         stylePrompt,
-         state.referenceImage
-       );
-       const processedBase64 = await processStickerImage(rawBase64, item.text);
+       const styleReference = style?.referenceImage ?? null;
+       const characterSheet = getApprovedCharacterSheet();
+
+       let rendered: RenderedSticker;
+       if (state.mode === 'animated') {
+         rendered = await renderAnimatedSticker(item, stylePrompt, state.referenceImages, styleReference, characterSheet, signal);
+       } else {
+         const rawBase64 = await generateSingleStickerImage(
+           item,
+           stylePrompt,
+           state.referenceImages,
+           styleReference,
+           characterSheet,
+           signal
+         );
+         rendered = await renderStaticSticker(rawBase64, item.text, signal);
+       }
+
+       if (signal.aborted) throw signal.reason;
 
        setState(prev => ({
          ...prev,
          results: prev.results.map(r => 
            r.id === id
-           ? { ...r, status: 'success', imageUrl: rawBase64, processedUrl: processedBase64 }
+           ? { ...addVersion(r, createVersion(rendered, item.text, 'single')), status: 'success' }
            : r
          )
        }));
 
     } catch (e) {
+      // Reset or another project opened: these results are gone
+      if (signal.aborted) return;
+
       console.error(e);
-      const msg = (e as Error).message;
+      const genError = toGenerationError(e);
+      const failure = { errorDetail: genError.finishReason ?? genError.detail, errorKind: genError.kind, retryAfterMs: genError.retryAfterMs };
+      // A failed redraw leaves the pinned version in place; the card shows why it failed
       setState(prev => ({
          ...prev,
-         results: prev.results.map(r => r.id === id ? { ...r, status: 'error', error: msg } : r)
+         results: prev.results.map(r => {
+           if (r.id !== id) return r;
+           return r.versions.length > 0
+             ? { ...pinVersion(r, r.activeVersionId ?? ''), status: 'success', ...failure }
+             : { ...r, status: 'error', ...failure };
+         })
       }));
+    } finally {
+      finishRequest(controller);
     }
   };
 
+  // 5. Apply a local re-render (no API call) to one sticker's pinned version
+  const handleUpdateSticker = (id: number, patch: Partial<GeneratedSticker>) => {
+    setState(prev => ({
+      ...prev,
+      results: prev.results.map(r => r.id === id ? applyToActiveVersion(r, patch) : r)
+    }));
+  };
+
+  // 5a. Choose which version goes into the pack (this also settles a candidate pick)
+  // An older version may carry an older caption; the plan line follows it, as a regeneration with new text would
+  const handlePinVersion = (id: number, versionId: string) => {
+    setState(prev => {
+      const text = prev.results.find(r => r.id === id)?.versions.find(v => v.id === versionId)?.text;
+      const planItem = prev.stickerPlan.find(p => p.id === id);
+      const textChanged = text !== undefined && planItem !== undefined && planItem.text !== text;
+      return {
+        ...prev,
+        ...(textChanged ? withPlan(prev, prev.stickerPlan.map(p => p.id === id ? { ...p, ...withCaptionText(p, text), edited: true } : p)) : {}),
+        results: prev.results.map(r => r.id === id ? { ...pinVersion(r, versionId), candidateIds: undefined } : r)
+      };
+    });
+  };
+
+  // 6. Store listing: drafted from the plan, context and style, then edited by hand.
+  // The copyright names the creator, not the set, so a redraft keeps the one already written.
+  const handleGenerateMetadata = async () => {
+    const style = findStyle(state.selectedStyleId, customStyles);
+    const controller = startRequest();
+    try {
+      const metadata = await generateStoreMetadata(state.stickerPlan, state.languages, state.usageContext, style?.promptModifier ?? '', controller.signal);
+      setState(prev => ({
+        ...prev,
+        storeMetadata: fitStoreLimits(
+          { ...metadata, copyright: prev.storeMetadata?.copyright || metadata.copyright },
+          prev.stickerPlan,
+          prev.languages
+        )
+      }));
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      console.error(e);
+      const genError = toGenerationError(e);
+      alert(describeFailure(t('app.action.metadata'), genError));
+    } finally {
+      finishRequest(controller);
+    }
+  };
+
+  const handleUpdateMetadata = (metadata: StoreMetadata) => {
+    setState(prev => ({ ...prev, storeMetadata: metadata }));
+  };
+
   const handleCancelGeneration = () => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
@@ -265,13 +763,65 @@ function App() {
     }));
   };
 
+  const handleToggleProvider = () => {
+    const next: ProviderId = providerId === 'mock' ? 'gemini' : 'mock';
+    setActiveProvider(next);
+    setProviderId(next);
+  };
+
+  // Every component reads its strings through t(), so re-rendering from here switches the whole UI
+  const handleLocaleChange = (next: Locale) => {
+    setLocale(next);
+    setLocaleState(next);
+  };
+
+  // Stops the batch run and every one-off call, e.g. before the project is replaced
+  const abortAll = () => {
+    abortControllerRef.current?.abort();
+    requestControllersRef.current.forEach(controller => controller.abort());
+    requestControllersRef.current.clear();
+  };
+
   const handleReset = () => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-    }
+    abortAll();
+    projectCreatedAtRef.current = undefined;
     setState(initialState);
   };
 
+  const handleOpenProject = async (id: string) => {
+    try {
+      const project = await loadProject(id);
+      if (!project) {
+        alert(t('app.projectNotFound'));
+        return;
+      }
+
+      abortAll();
+      projectCreatedAtRef.current = project.createdAt;
+      setState({
+        ...initialState,
+        step: project.step,
+        projectId: project.id,
+        referenceImages: project.referenceImages,
+        characterSheet: project.characterSheet ?? null,
+        selectedStyleId: project.selectedStyleId,
+        count: project.count,
+        mode: project.mode,
+        gridSize: project.gridSize ?? DEFAULT_GRID_SIZE,
+        candidateCount: project.candidateCount ?? DEFAULT_CANDIDATE_COUNT,
+        usageContext: project.usageContext,
+        languages: project.languages ?? DEFAULT_LANGUAGES,
+        stickerPlan: project.stickerPlan,
+        results: project.results,
+        storeMetadata: project.storeMetadata ?? null
+      });
+      setShowProjects(false);
+    } catch (e) {
+      console.error(e);
+      alert(t('app.openProjectFailed'));
+    }
+  };
+
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 font-sans">
       <header className="bg-white shadow-sm border-b border-slate-200 sticky top-0 z-30">
@@ -280,16 +830,90 @@ function App() {
             <div className="font-bold text-xl text-indigo-600 tracking-tight">AI Sticker Studio</div>
             <span className="text-[10px] font-mono bg-slate-100 text-slate-500 px-2 py-0.5 rounded-full">{APP_VERSION}</span>
           </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowProjects(true)}
+              disabled={state.isGenerating}
+              className="text-[11px] font-bold px-3 py-1 rounded-full border border-slate-200 bg-white text-slate-500 hover:bg-slate-50 transition flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FolderOpen size={12} />
+              {t('app.myProjects')}
+            </button>
+            <button
+              onClick={handleToggleProvider}
+              disabled={state.isGenerating || state.isThinking}
+              className={`text-[11px] font-bold px-3 py-1 rounded-full border transition disabled:opacity-50 disabled:cursor-not-allowed ${
+                providerId === 'mock'
+                ? 'bg-amber-50 border-amber-300 text-amber-700'
+                : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'
+              }`}
+              title={t('app.providerToggleHint')}
+            >
+              {providerId === 'mock' ? t('app.providerMock') : 'Gemini'}
+            </button>
+            <label className="relative flex items-center text-slate-400" title={t('app.uiLanguage')}>
+              <Globe size={12} className="absolute left-2 pointer-events-none" />
+              <select
+                value={locale}
+                onChange={(e) => handleLocaleChange(e.target.value as Locale)}
+                className="text-[11px] font-bold pl-6 pr-2 py-1 rounded-full border border-slate-200 bg-white text-slate-500 hover:bg-slate-50 outline-none appearance-none cursor-pointer"
+              >
+                {LOCALES.map(l => (
+                  <option key={l.id} value={l.id}>{l.name}</option>
+                ))}
+              </select>
+            </label>
+          </div>
         </div>
       </header>
 
+      {showProjects && (
+        <ProjectList
+          currentProjectId={state.projectId}
+          onOpen={handleOpenProject}
+          onClose={() => setShowProjects(false)}
+        />
+      )}
+
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
         {state.step === 'setup' && (
           <SetupForm 
+            key={state.projectId ?? 'new'}
+            defaults={{
+              references: state.referenceImages,
+              styleId: state.selectedStyleId,
+              count: state.count,
+              context: state.usageContext,
+              mode: state.mode,
+              gridSize: state.gridSize,
+              candidateCount: state.candidateCount
+            }}
             onGeneratePlan={handleGeneratePlan}
+            onImportPlan={handleImportPlan}
             onUpdatePlan={handleUpdatePlan}
+            onPatchPlanItem={handlePatchPlanItem}
+            onUndoPlan={handleUndoPlan}
+            onRedoPlan={handleRedoPlan}
+            canUndoPlan={state.planHistory.past.length > 0}
+            canRedoPlan={state.planHistory.future.length > 0}
+            onSuggestCaptions={handleSuggestCaptions}
+            languages={state.languages}
+            onAddLanguage={handleAddLanguage}
+            onRemoveLanguage={handleRemoveLanguage}
+            onFillTranslations={handleFillTranslations}
             onStartGeneration={handleStartGeneration}
+            onResumeGeneration={handleResumeGeneration}
+            resumableCount={
+              state.results.some(r => r.status === 'success')
+                ? state.results.filter(r => r.status !== 'success').length
+                : 0
+            }
             onTestGeneration={handleTestGeneration}
+            characterSheet={state.characterSheet}
+            onGenerateCharacterSheet={handleGenerateCharacterSheet}
+            onApproveCharacterSheet={handleApproveCharacterSheet}
+            customStyles={customStyles}
+            onCustomStylesChange={setCustomStyles}
             isThinking={state.isThinking}
             plan={state.stickerPlan}
           />
@@ -298,10 +922,22 @@ function App() {
         {(state.step === 'generating' || state.step === 'complete') && (
           <ResultsGrid 
             stickers={state.results} 
-            isGenerating={state.results.some(r => r.status === 'pending' || r.status === 'generating')}
+            mode={state.mode}
+            plan={state.stickerPlan}
+            languages={state.languages}
+            progress={state.progress}
+            totalBatches={state.totalBatches}
+            batchDelayMs={getActiveProvider().batchDelayMs}
+            isGenerating={state.isGenerating}
             onReset={handleReset}
             onCancel={handleCancelGeneration}
+            onResume={() => handleResumeGeneration()}
             onRegenerateSingle={handleRegenerateSingle}
+            onUpdateSticker={handleUpdateSticker}
+            onPinVersion={handlePinVersion}
+            storeMetadata={state.storeMetadata}
+            onGenerateMetadata={handleGenerateMetadata}
+            onUpdateMetadata={handleUpdateMetadata}
           />
         )}
       </main>
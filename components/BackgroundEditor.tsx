@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { BackgroundRemovalSettings, GeneratedSticker, StickerMode } from '../types';
+import { reprocessSticker } from '../utils/imageProcessing';
+import { DEFAULT_REMOVAL_SETTINGS } from '../constants';
+import { SlidersHorizontal, X, Loader2, Check, RotateCcw } from 'lucide-react';
+import { t } from '../i18n';
+
+interface Props {
+  sticker: GeneratedSticker;
+  mode: StickerMode;
+  onApply: (patch: Partial<GeneratedSticker>) => void;
+  onClose: () => void;
+}
+
+// Re-render at most this often while a slider is being dragged
+const PREVIEW_DEBOUNCE_MS = 150;
+
+const BackgroundEditor: React.FC<Props> = ({ sticker, mode, onApply, onClose }) => {
+  const [settings, setSettings] = useState<BackgroundRemovalSettings>(sticker.removal ?? DEFAULT_REMOVAL_SETTINGS);
+  const [preview, setPreview] = useState<Partial<GeneratedSticker> | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsRendering(true);
+      try {
+        const result = await reprocessSticker(sticker, mode, { removal: settings });
+        if (!cancelled) setPreview(result);
+      } catch (e) {
+        console.error("Preview render failed", e);
+      } finally {
+        if (!cancelled) setIsRendering(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [sticker, mode, settings]);
+
+  const update = (patch: Partial<BackgroundRemovalSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl flex flex-col">
+        <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <SlidersHorizontal size={18} className="text-indigo-600" />
+            {t('backgroundEditor.title', { number: sticker.id + 1 })}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition" title={t('common.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-5 flex flex-col md:flex-row gap-5">
+          {/* Raw vs Result */}
+          <div className="flex-1 grid grid-cols-2 gap-3">
+            <div>
+              <p className="text-[10px] font-bold text-slate-400 mb-1">{t('backgroundEditor.original')}</p>
+              <div className="aspect-square rounded-lg border border-slate-100 bg-white overflow-hidden">
+                <img src={sticker.imageUrl} alt={t('backgroundEditor.original')} className="w-full h-full object-contain" />
+              </div>
+            </div>
+            <div>
+              <p className="text-[10px] font-bold text-slate-400 mb-1 flex items-center gap-1">
+                {t('backgroundEditor.preview')} {isRendering && <Loader2 size={10} className="animate-spin" />}
+              </p>
+              <div className="aspect-square rounded-lg border border-slate-100 overflow-hidden bg-[conic-gradient(#e2e8f0_25%,#fff_0_50%,#e2e8f0_0_75%,#fff_0)] bg-[length:16px_16px]">
+                <img src={preview?.processedUrl || sticker.processedUrl} alt={t('backgroundEditor.preview')} className="w-full h-full object-contain" />
+              </div>
+            </div>
+          </div>
+
+          {/* Controls */}
+          <div className="md:w-64 space-y-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">{t('backgroundEditor.mode')}</label>
+              <div className="grid grid-cols-2 gap-2">
+                {([['flood', t('backgroundEditor.flood')], ['threshold', t('backgroundEditor.threshold')]] as [BackgroundRemovalSettings['mode'], string][]).map(([m, label]) => (
+                  <button
+                    key={m}
+                    onClick={() => update({ mode: m })}
+                    className={`py-1.5 rounded-md text-xs font-bold transition ${
+                      settings.mode === m
+                      ? 'bg-indigo-600 text-white shadow-sm'
+                      : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-slate-400 mt-1">
+                {settings.mode === 'flood' ? t('backgroundEditor.floodHint') : t('backgroundEditor.thresholdHint')}
+              </p>
+            </div>
+
+            <div>
+              <label className="flex justify-between text-xs font-bold text-slate-500 mb-1">
+                {t('backgroundEditor.tolerance')} <span className="font-mono text-slate-400">{settings.tolerance}</span>
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={80}
+                value={settings.tolerance}
+                onChange={(e) => update({ tolerance: Number(e.target.value) })}
+                className="w-full accent-indigo-600"
+              />
+            </div>
+
+            <div className={settings.mode === 'flood' ? '' : 'opacity-40 pointer-events-none'}>
+              <label className="flex justify-between text-xs font-bold text-slate-500 mb-1">
+                {t('backgroundEditor.feather')} <span className="font-mono text-slate-400">{settings.feather}px</span>
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={4}
+                value={settings.feather}
+                onChange={(e) => update({ feather: Number(e.target.value) })}
+                className="w-full accent-indigo-600"
+              />
+            </div>
+
+            <button
+              onClick={() => setSettings(DEFAULT_REMOVAL_SETTINGS)}
+              className="text-[11px] text-slate-500 hover:text-indigo-600 flex items-center gap-1 transition"
+            >
+              <RotateCcw size={12} /> {t('captionEditor.reset')}
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-xl border border-slate-200 text-slate-600 text-sm font-bold hover:bg-slate-50 transition"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => preview && onApply(preview)}
+            disabled={!preview || isRendering}
+            className="px-5 py-2 rounded-xl bg-indigo-600 text-white text-sm font-bold shadow-md hover:bg-indigo-700 transition flex items-center gap-1 disabled:opacity-50"
+          >
+            <Check size={16} /> {t('common.apply')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackgroundEditor;
@@ -0,0 +1,267 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CaptionLayout, GeneratedSticker, StickerMode } from '../types';
+import { drawCaption, loadCaptionFont, loadImage, processStickerImage, sliceImageSheet } from '../utils/imageProcessing';
+import { ANIMATION_SPEC, CAPTION_FONTS, DEFAULT_CAPTION_LAYOUT, DEFAULT_REMOVAL_SETTINGS } from '../constants';
+import { Type, X, Check, Loader2, RotateCcw } from 'lucide-react';
+import { t } from '../i18n';
+
+interface Props {
+  sticker: GeneratedSticker;
+  mode: StickerMode;
+  isApplying: boolean;
+  onApply: (caption: CaptionLayout, applyToAll: boolean) => void;
+  onClose: () => void;
+}
+
+const CaptionEditor: React.FC<Props> = ({ sticker, mode, isApplying, onApply, onClose }) => {
+  const width = mode === 'animated' ? ANIMATION_SPEC.width : 320;
+  const height = mode === 'animated' ? ANIMATION_SPEC.height : 320;
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDraggingRef = useRef(false);
+
+  const [layout, setLayout] = useState<CaptionLayout>(sticker.caption ?? DEFAULT_CAPTION_LAYOUT);
+  const [artLayer, setArtLayer] = useState<HTMLImageElement | null>(null);
+  const [applyToAll, setApplyToAll] = useState(false);
+
+  // The art (background removed, mask applied) only depends on the raw image,
+  // so render it once without the caption and draw the caption over it live.
+  useEffect(() => {
+    let cancelled = false;
+
+    const setup = async () => {
+      const frame = mode === 'animated'
+        ? (await sliceImageSheet(sticker.imageUrl, ANIMATION_SPEC.sheetColumns, ANIMATION_SPEC.sheetRows, 1))[0]
+        : sticker.imageUrl;
+      const art = await processStickerImage(frame, sticker.text, {
+        width,
+        height,
+        caption: { ...DEFAULT_CAPTION_LAYOUT, visible: false },
+        removal: sticker.removal ?? DEFAULT_REMOVAL_SETTINGS,
+        mask: sticker.maskUrl
+      });
+      const img = await loadImage(art);
+      if (!cancelled) setArtLayer(img);
+    };
+
+    setup().catch(err => console.error("Caption editor setup failed", err));
+    return () => { cancelled = true; };
+  }, [sticker.imageUrl, sticker.text, sticker.removal, sticker.maskUrl, mode, width, height]);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Switching to a font that hasn't been used yet has to download it first
+    loadCaptionFont(layout, sticker.text).then(() => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (cancelled || !ctx || !artLayer) return;
+      ctx.clearRect(0, 0, width, height);
+      ctx.drawImage(artLayer, 0, 0, width, height);
+      drawCaption(ctx, sticker.text, layout, width, height);
+    });
+    return () => { cancelled = true; };
+  }, [artLayer, layout, sticker.text, width, height]);
+
+  const update = (patch: Partial<CaptionLayout>) => setLayout(prev => ({ ...prev, ...patch }));
+
+  // Dragging moves the caption's anchor (bottom centre) to the pointer
+  const moveTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp = (v: number) => Math.min(Math.max(v, 0), 1);
+    update({
+      x: Math.round(clamp((e.clientX - rect.left) / rect.width) * 1000) / 1000,
+      y: Math.round(clamp((e.clientY - rect.top) / rect.height) * 1000) / 1000
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDraggingRef.current = true;
+    moveTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isDraggingRef.current) moveTo(e);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl flex flex-col">
+        <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <Type size={18} className="text-indigo-600" />
+            {t('captionEditor.title', { number: sticker.id + 1 })}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition" title={t('common.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-5 flex flex-col md:flex-row gap-5">
+          {/* Live preview */}
+          <div className="flex-1">
+            <p className="text-[10px] font-bold text-slate-400 mb-1 flex items-center gap-1">
+              {t('captionEditor.dragHint')} {!artLayer && <Loader2 size={10} className="animate-spin" />}
+            </p>
+            <div className="rounded-lg border border-slate-100 overflow-hidden bg-[conic-gradient(#e2e8f0_25%,#fff_0_50%,#e2e8f0_0_75%,#fff_0)] bg-[length:16px_16px]">
+              <canvas
+                ref={canvasRef}
+                width={width}
+                height={height}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => { isDraggingRef.current = false; }}
+                className="w-full h-auto cursor-move touch-none"
+              />
+            </div>
+          </div>
+
+          {/* Controls */}
+          <div className="md:w-64 space-y-4">
+            <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+              <input
+                type="checkbox"
+                checked={layout.visible}
+                onChange={(e) => update({ visible: e.target.checked })}
+                className="accent-indigo-600"
+              />
+              {t('captionEditor.visible')}
+            </label>
+
+            <div className={layout.visible ? 'space-y-4' : 'space-y-4 opacity-40 pointer-events-none'}>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 mb-1">{t('captionEditor.font')}</label>
+                <div className="grid grid-cols-4 gap-1">
+                  {CAPTION_FONTS.map(font => (
+                    <button
+                      key={font.id}
+                      onClick={() => update({ fontId: font.id })}
+                      style={{ fontFamily: font.family }}
+                      className={`py-1.5 rounded-md text-xs font-bold transition ${
+                        layout.fontId === font.id
+                        ? 'bg-indigo-600 text-white shadow-sm'
+                        : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-50'
+                      }`}
+                    >
+                      {t(font.nameKey)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="flex justify-between text-xs font-bold text-slate-500 mb-1">
+                  {t('captionEditor.fontSize')} <span className="font-mono text-slate-400">{layout.fontSize}px</span>
+                </label>
+                <input
+                  type="range"
+                  min={16}
+                  max={64}
+                  step={2}
+                  value={layout.fontSize}
+                  onChange={(e) => update({ fontSize: Number(e.target.value) })}
+                  className="w-full accent-indigo-600"
+                />
+              </div>
+
+              <div>
+                <label className="flex justify-between text-xs font-bold text-slate-500 mb-1">
+                  {t('captionEditor.rotation')} <span className="font-mono text-slate-400">{layout.rotation}°</span>
+                </label>
+                <input
+                  type="range"
+                  min={-30}
+                  max={30}
+                  step={0.5}
+                  value={layout.rotation}
+                  onChange={(e) => update({ rotation: Number(e.target.value) })}
+                  className="w-full accent-indigo-600"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <label className="text-xs font-bold text-slate-500">
+                  {t('captionEditor.fill')}
+                  <input
+                    type="color"
+                    value={layout.fill}
+                    onChange={(e) => update({ fill: e.target.value })}
+                    className="block w-full h-8 mt-1 rounded border border-slate-200"
+                  />
+                </label>
+                <label className="text-xs font-bold text-slate-500">
+                  {t('captionEditor.stroke')}
+                  <input
+                    type="color"
+                    value={layout.stroke}
+                    onChange={(e) => update({ stroke: e.target.value })}
+                    className="block w-full h-8 mt-1 rounded border border-slate-200"
+                  />
+                </label>
+              </div>
+
+              <div>
+                <label className="flex justify-between text-xs font-bold text-slate-500 mb-1">
+                  {t('captionEditor.strokeWidth')} <span className="font-mono text-slate-400">{layout.strokeWidth}px</span>
+                </label>
+                <input
+                  type="range"
+                  min={0}
+                  max={12}
+                  value={layout.strokeWidth}
+                  onChange={(e) => update({ strokeWidth: Number(e.target.value) })}
+                  className="w-full accent-indigo-600"
+                />
+              </div>
+
+              <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+                <input
+                  type="checkbox"
+                  checked={layout.shadow}
+                  onChange={(e) => update({ shadow: e.target.checked })}
+                  className="accent-indigo-600"
+                />
+                {t('captionEditor.shadow')}
+              </label>
+            </div>
+
+            <button
+              onClick={() => setLayout({ ...DEFAULT_CAPTION_LAYOUT, rotation: layout.rotation })}
+              className="text-[11px] text-slate-500 hover:text-indigo-600 flex items-center gap-1 transition"
+            >
+              <RotateCcw size={12} /> {t('captionEditor.reset')}
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+            <input
+              type="checkbox"
+              checked={applyToAll}
+              onChange={(e) => setApplyToAll(e.target.checked)}
+              className="accent-indigo-600"
+            />
+            {t('captionEditor.applyToAll')}
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 rounded-xl border border-slate-200 text-slate-600 text-sm font-bold hover:bg-slate-50 transition"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={() => onApply(layout, applyToAll)}
+              disabled={isApplying}
+              className="px-5 py-2 rounded-xl bg-indigo-600 text-white text-sm font-bold shadow-md hover:bg-indigo-700 transition flex items-center gap-1 disabled:opacity-50"
+            >
+              {isApplying ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />} {t('common.apply')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CaptionEditor;
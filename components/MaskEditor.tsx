@@ -0,0 +1,351 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { GeneratedSticker, StickerMode } from '../types';
+import {
+  getStickerDrawRect,
+  loadImage,
+  processStickerImage,
+  reprocessSticker,
+  sliceImageSheet
+} from '../utils/imageProcessing';
+import { MASK_ERASE_COLOR, MASK_RESTORE_COLOR } from '../utils/backgroundRemoval';
+import { ANIMATION_SPEC, DEFAULT_CAPTION_LAYOUT, DEFAULT_REMOVAL_SETTINGS } from '../constants';
+import { Brush, Eraser, Undo2, Trash2, X, Check, Loader2, ZoomIn, ZoomOut } from 'lucide-react';
+import { t } from '../i18n';
+
+interface Props {
+  sticker: GeneratedSticker;
+  mode: StickerMode;
+  onApply: (patch: Partial<GeneratedSticker>) => void;
+  onClose: () => void;
+}
+
+type Tool = 'erase' | 'restore';
+
+const MAX_UNDO = 30;
+const ZOOM_LEVELS = [1, 1.5, 2, 3, 4];
+
+const MaskEditor: React.FC<Props> = ({ sticker, mode, onApply, onClose }) => {
+  const width = mode === 'animated' ? ANIMATION_SPEC.width : 320;
+  const height = mode === 'animated' ? ANIMATION_SPEC.height : 320;
+
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  const undoStackRef = useRef<ImageData[]>([]);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  const [tool, setTool] = useState<Tool>('erase');
+  const [brushSize, setBrushSize] = useState(12);
+  const [zoom, setZoom] = useState(1.5);
+  const [sourceFrame, setSourceFrame] = useState<string | null>(null); // Raw art the preview is built from
+  const [rawLayer, setRawLayer] = useState<string | null>(null); // Raw art placed like the output, for reference
+  const [preview, setPreview] = useState<string>(sticker.processedUrl);
+  const [undoCount, setUndoCount] = useState(0);
+  const [isRendering, setIsRendering] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  // Prepare the raw reference layer and load any existing mask
+  useEffect(() => {
+    let cancelled = false;
+
+    const setup = async () => {
+      const frame = mode === 'animated'
+        ? (await sliceImageSheet(sticker.imageUrl, ANIMATION_SPEC.sheetColumns, ANIMATION_SPEC.sheetRows, 1))[0]
+        : sticker.imageUrl;
+      const img = await loadImage(frame);
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        const rect = getStickerDrawRect(img.width, img.height, width, height);
+        ctx.drawImage(img, rect.x, rect.y, rect.width, rect.height);
+      }
+
+      const maskCtx = maskCanvasRef.current?.getContext('2d');
+      if (maskCtx && sticker.maskUrl) {
+        maskCtx.drawImage(await loadImage(sticker.maskUrl), 0, 0, width, height);
+      }
+
+      if (!cancelled) {
+        setSourceFrame(frame);
+        setRawLayer(canvas.toDataURL('image/png'));
+      }
+    };
+
+    setup().catch(err => console.error("Mask editor setup failed", err));
+    return () => { cancelled = true; };
+  }, [sticker.imageUrl, sticker.maskUrl, mode, width, height]);
+
+  const refreshPreview = useCallback(async () => {
+    const maskCanvas = maskCanvasRef.current;
+    if (!maskCanvas || !sourceFrame) return;
+
+    setIsRendering(true);
+    try {
+      const result = await processStickerImage(sourceFrame, sticker.text, {
+        width,
+        height,
+        caption: sticker.caption ?? DEFAULT_CAPTION_LAYOUT,
+        removal: sticker.removal ?? DEFAULT_REMOVAL_SETTINGS,
+        mask: maskCanvas.toDataURL('image/png')
+      });
+      setPreview(result);
+    } catch (e) {
+      console.error("Preview render failed", e);
+    } finally {
+      setIsRendering(false);
+    }
+  }, [sourceFrame, sticker.text, sticker.caption, sticker.removal, width, height]);
+
+  useEffect(() => {
+    refreshPreview();
+  }, [refreshPreview]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * width,
+      y: ((e.clientY - rect.top) / rect.height) * height
+    };
+  };
+
+  const paintSegment = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const ctx = maskCanvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = brushSize;
+
+    const stroke = () => {
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+    };
+
+    // Clear whatever was painted here first, so restore can overwrite erase and vice versa
+    ctx.globalCompositeOperation = 'destination-out';
+    stroke();
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.strokeStyle = tool === 'erase' ? MASK_ERASE_COLOR : MASK_RESTORE_COLOR;
+    stroke();
+  };
+
+  const pushUndo = () => {
+    const canvas = maskCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    undoStackRef.current = [...undoStackRef.current, ctx.getImageData(0, 0, width, height)].slice(-MAX_UNDO);
+    setUndoCount(undoStackRef.current.length);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pushUndo();
+    const point = toCanvasPoint(e);
+    lastPointRef.current = point;
+    paintSegment(point, point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    const point = toCanvasPoint(e);
+    paintSegment(lastPointRef.current, point);
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    refreshPreview();
+  };
+
+  const handleUndo = () => {
+    const ctx = maskCanvasRef.current?.getContext('2d');
+    const snapshot = undoStackRef.current[undoStackRef.current.length - 1];
+    if (!ctx || !snapshot) return;
+    undoStackRef.current = undoStackRef.current.slice(0, -1);
+    setUndoCount(undoStackRef.current.length);
+    ctx.putImageData(snapshot, 0, 0);
+    refreshPreview();
+  };
+
+  const handleClear = () => {
+    const ctx = maskCanvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    pushUndo();
+    ctx.clearRect(0, 0, width, height);
+    refreshPreview();
+  };
+
+  // Ctrl/Cmd+Z undoes the last stroke
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        handleUndo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const handleApply = async () => {
+    const canvas = maskCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    // An untouched mask is stored as "no mask"
+    const { data } = ctx.getImageData(0, 0, width, height);
+    let hasStrokes = false;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] > 0) {
+        hasStrokes = true;
+        break;
+      }
+    }
+
+    setIsApplying(true);
+    try {
+      const result = await reprocessSticker(sticker, mode, { mask: hasStrokes ? canvas.toDataURL('image/png') : '' });
+      onApply(result);
+    } catch (e) {
+      console.error("Mask apply failed", e);
+      alert(t('maskEditor.applyFailed'));
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const zoomIndex = ZOOM_LEVELS.indexOf(zoom);
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[92vh] flex flex-col">
+        <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <Brush size={18} className="text-indigo-600" />
+            {t('maskEditor.title', { number: sticker.id + 1 })}
+            {isRendering && <Loader2 size={14} className="animate-spin text-slate-400" />}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition" title={t('common.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        <div className="px-4 py-3 border-b border-slate-100 flex flex-wrap items-center gap-3">
+          <div className="flex gap-1">
+            {([['erase', t('maskEditor.erase'), Eraser], ['restore', t('maskEditor.restore'), Brush]] as [Tool, string, React.ElementType][]).map(([option, label, Icon]) => (
+              <button
+                key={option}
+                onClick={() => setTool(option)}
+                className={`px-3 py-1.5 rounded-md text-xs font-bold transition flex items-center gap-1 ${
+                  tool === option
+                  ? option === 'erase' ? 'bg-red-500 text-white' : 'bg-emerald-500 text-white'
+                  : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                <Icon size={14} /> {label}
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+            {t('maskEditor.brush')}
+            <input
+              type="range"
+              min={2}
+              max={48}
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+              className="w-24 accent-indigo-600"
+            />
+            <span className="font-mono text-slate-400 w-8">{brushSize}px</span>
+          </label>
+
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setZoom(ZOOM_LEVELS[Math.max(zoomIndex - 1, 0)])}
+              disabled={zoomIndex <= 0}
+              className="p-1.5 rounded-md border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+              title={t('maskEditor.zoomOut')}
+            >
+              <ZoomOut size={14} />
+            </button>
+            <span className="text-xs font-mono text-slate-500 w-10 text-center">{zoom}x</span>
+            <button
+              onClick={() => setZoom(ZOOM_LEVELS[Math.min(zoomIndex + 1, ZOOM_LEVELS.length - 1)])}
+              disabled={zoomIndex >= ZOOM_LEVELS.length - 1}
+              className="p-1.5 rounded-md border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+              title={t('maskEditor.zoomIn')}
+            >
+              <ZoomIn size={14} />
+            </button>
+          </div>
+
+          <div className="flex gap-1 ml-auto">
+            <button
+              onClick={handleUndo}
+              disabled={undoCount === 0}
+              className="px-3 py-1.5 rounded-md border border-slate-200 text-xs font-bold text-slate-600 hover:bg-slate-50 flex items-center gap-1 disabled:opacity-40"
+              title={t('maskEditor.undoHint')}
+            >
+              <Undo2 size={14} /> {t('maskEditor.undo')}
+            </button>
+            <button
+              onClick={handleClear}
+              className="px-3 py-1.5 rounded-md border border-slate-200 text-xs font-bold text-slate-600 hover:bg-slate-50 flex items-center gap-1"
+              title={t('maskEditor.clearHint')}
+            >
+              <Trash2 size={14} /> {t('maskEditor.clear')}
+            </button>
+          </div>
+        </div>
+
+        {/* Canvas */}
+        <div className="flex-1 overflow-auto p-4 bg-slate-50">
+          <div
+            className="relative mx-auto bg-[conic-gradient(#e2e8f0_25%,#fff_0_50%,#e2e8f0_0_75%,#fff_0)] bg-[length:16px_16px] shadow-inner"
+            style={{ width: width * zoom, height: height * zoom }}
+          >
+            {rawLayer && <img src={rawLayer} alt={t('maskEditor.original')} className="absolute inset-0 w-full h-full opacity-25 pointer-events-none" />}
+            <img src={preview} alt={t('maskEditor.preview')} className="absolute inset-0 w-full h-full pointer-events-none" />
+            <canvas
+              ref={maskCanvasRef}
+              width={width}
+              height={height}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className="absolute inset-0 w-full h-full opacity-40 cursor-crosshair touch-none"
+            />
+          </div>
+          <p className="text-[10px] text-slate-400 text-center mt-2">
+            {t('maskEditor.legend')}{mode === 'animated' && t('maskEditor.allFramesHint')}
+          </p>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-xl border border-slate-200 text-slate-600 text-sm font-bold hover:bg-slate-50 transition"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={isApplying}
+            className="px-5 py-2 rounded-xl bg-indigo-600 text-white text-sm font-bold shadow-md hover:bg-indigo-700 transition flex items-center gap-1 disabled:opacity-50"
+          >
+            {isApplying ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />} {t('common.apply')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { ProjectSummary } from '../types';
+import { listProjects, deleteProject } from '../services/projectStore';
+import { FolderOpen, Trash2, X, Loader2, Image as ImageIcon, Film } from 'lucide-react';
+import { formatDateTime, t } from '../i18n';
+
+interface Props {
+  currentProjectId: string | null;
+  onOpen: (id: string) => void;
+  onClose: () => void;
+}
+
+const ProjectList: React.FC<Props> = ({ currentProjectId, onOpen, onClose }) => {
+  const [projects, setProjects] = useState<ProjectSummary[] | null>(null);
+
+  useEffect(() => {
+    listProjects()
+      .then(setProjects)
+      .catch(err => {
+        console.error("Failed to list projects", err);
+        setProjects([]);
+      });
+  }, []);
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!confirm(t('projects.confirmDelete', { name: project.name }))) return;
+    await deleteProject(project.id);
+    setProjects(prev => prev?.filter(p => p.id !== project.id) ?? null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-xl max-h-[80vh] flex flex-col">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <FolderOpen size={18} className="text-indigo-600" />
+            {t('app.myProjects')}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition" title={t('common.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-3 overflow-y-auto">
+          {projects === null ? (
+            <div className="py-10 flex justify-center text-slate-400">
+              <Loader2 className="animate-spin" size={24} />
+            </div>
+          ) : projects.length === 0 ? (
+            <p className="py-10 text-center text-sm text-slate-400">{t('projects.empty')}</p>
+          ) : (
+            <ul className="space-y-2">
+              {projects.map(project => (
+                <li
+                  key={project.id}
+                  className={`flex items-center gap-3 p-2 rounded-xl border transition ${
+                    project.id === currentProjectId ? 'border-indigo-300 bg-indigo-50' : 'border-slate-100 hover:bg-slate-50'
+                  }`}
+                >
+                  <div className="w-14 h-14 rounded-lg bg-slate-100 overflow-hidden flex items-center justify-center shrink-0">
+                    {project.thumbnail ? (
+                      <img src={project.thumbnail} alt={project.name} className="w-full h-full object-contain" />
+                    ) : (
+                      <ImageIcon size={20} className="text-slate-300" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold text-sm text-slate-800 truncate flex items-center gap-1">
+                      {project.mode === 'animated' && <Film size={12} className="text-pink-500 shrink-0" />}
+                      {project.name}
+                    </p>
+                    <p className="text-[11px] text-slate-500">
+                      {t('projects.progress', { completed: project.completed, total: project.total })} · {formatDateTime(project.updatedAt)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => onOpen(project.id)}
+                    className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-700 transition"
+                  >
+                    {t('projects.open')}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(project)}
+                    className="p-1.5 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 transition"
+                    title={t('projects.delete')}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectList;
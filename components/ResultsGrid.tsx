@@ -1,63 +1,402 @@
 
-import React from 'react';
-import JSZip from 'jszip';
-import { GeneratedSticker } from '../types';
-import { downloadBlob, createResizedVariant } from '../utils/imageProcessing';
-import { Download, Loader2, Image as ImageIcon, ArrowLeft, XCircle, Palette, RefreshCw, AlertCircle } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { CaptionLanguage, CaptionLayout, GeneratedSticker, PackValidation, StickerMode, StickerPlanItem, StickerVersion, StoreMetadata } from '../types';
+import { downloadBlob, reprocessSticker } from '../utils/imageProcessing';
+import { buildPackFiles, createPackZip, getPackZipName, localizeStickers, PackFile } from '../utils/packExport';
+import { getFreshCaption, getLanguageName } from '../utils/captionLanguages';
+import { getPendingCandidates } from '../utils/stickerVersions';
+import { buildMetadataFiles, validateStoreMetadata } from '../utils/storeMetadata';
+import { validatePack } from '../utils/lineValidator';
+import { getSchedulerConfig } from '../services/requestScheduler';
+import { ERROR_KINDS, getErrorHint, getErrorMessage } from '../services/generationErrors';
+import { formatTime, t } from '../i18n';
+import { ANIMATION_SPEC, RETRY_LATER_BASE_MS, RETRY_LATER_MAX_MS } from '../constants';
+import ValidationReport from './ValidationReport';
+import BackgroundEditor from './BackgroundEditor';
+import MaskEditor from './MaskEditor';
+import CaptionEditor from './CaptionEditor';
+import StoreMetadataEditor from './StoreMetadataEditor';
+import { Download, Loader2, Image as ImageIcon, ArrowLeft, XCircle, Palette, RefreshCw, AlertCircle, SlidersHorizontal, Brush, Type, Edit2, Clock, ChevronLeft, ChevronRight, Pin, Store, X } from 'lucide-react';
 
 interface Props {
   stickers: GeneratedSticker[];
+  mode: StickerMode;
+  plan: StickerPlanItem[]; // Source of each language's captions for per-language packs
+  languages: CaptionLanguage[];
+  progress: number;
+  totalBatches: number;
+  batchDelayMs: number;
   isGenerating: boolean;
   onReset: () => void;
   onCancel: () => void;
-  onRegenerateSingle: (id: number) => void;
+  onResume: () => void;
+  onRegenerateSingle: (id: number, newText?: string) => void;
+  onUpdateSticker: (id: number, patch: Partial<GeneratedSticker>) => void;
+  onPinVersion: (id: number, versionId: string) => void;
+  storeMetadata: StoreMetadata | null; // Listing text, packed into the ZIP as metadata.json/.txt
+  onGenerateMetadata: () => Promise<void>;
+  onUpdateMetadata: (metadata: StoreMetadata) => void;
 }
 
+// Tailwind needs the class names spelled out
+const CANDIDATE_COLUMNS: Record<number, string> = { 2: 'grid-cols-2', 3: 'grid-cols-3', 4: 'grid-cols-4' };
+
 const ResultsGrid: React.FC<Props> = ({ 
   stickers, 
+  mode,
+  plan,
+  languages,
+  progress,
+  totalBatches,
+  batchDelayMs,
   isGenerating, 
   onReset, 
   onCancel,
-  onRegenerateSingle
+  onResume,
+  onRegenerateSingle,
+  onUpdateSticker,
+  onPinVersion,
+  storeMetadata,
+  onGenerateMetadata,
+  onUpdateMetadata
 }) => {
   
-  const handleDownloadAll = async () => {
-    const zip = new JSZip();
-    const folder = zip.folder("line_stickers");
-    const successStickers = stickers.filter(s => s.status === 'success' && s.processedUrl);
-
-    // 1. Add all stickers (320x320)
-    successStickers.forEach((sticker) => {
-      if (sticker.processedUrl) {
-        const data = sticker.processedUrl.split(',')[1];
-        folder?.file(`sticker_${sticker.id + 1}.png`, data, { base64: true });
-      }
+  const isAnimated = mode === 'animated';
+  const [isValidating, setIsValidating] = useState(false);
+  const [pendingPack, setPendingPack] = useState<{
+    files: PackFile[];
+    report: PackValidation;
+    lang: CaptionLanguage | null;
+    packedPlan: StickerPlanItem[]; // Plan lines of the stickers in the pack, for metadata.json/.txt
+  } | null>(null);
+  // null = the captions as drawn; a language re-renders every sticker in it
+  const [exportLanguage, setExportLanguage] = useState<CaptionLanguage | null>(null);
+  const [showMetadata, setShowMetadata] = useState(false);
+  const [bgEditingId, setBgEditingId] = useState<number | null>(null);
+  const bgEditingSticker = stickers.find(s => s.id === bgEditingId);
+  const [maskEditingId, setMaskEditingId] = useState<number | null>(null);
+  const maskEditingSticker = stickers.find(s => s.id === maskEditingId);
+  const [captionEditingId, setCaptionEditingId] = useState<number | null>(null);
+  const captionEditingSticker = stickers.find(s => s.id === captionEditingId);
+  const [isApplyingCaption, setIsApplyingCaption] = useState(false);
+  // Version each card is showing, by sticker id; missing = the pinned one
+  const [browsedVersions, setBrowsedVersions] = useState<Record<number, string>>({});
+
+  const getShownVersion = (sticker: GeneratedSticker): StickerVersion | undefined =>
+    sticker.versions.find(v => v.id === (browsedVersions[sticker.id] ?? sticker.activeVersionId));
+
+  const browseVersion = (sticker: GeneratedSticker, step: number) => {
+    const index = sticker.versions.findIndex(v => v.id === getShownVersion(sticker)?.id);
+    const next = sticker.versions[(index + step + sticker.versions.length) % sticker.versions.length];
+    setBrowsedVersions(prev => ({ ...prev, [sticker.id]: next.id }));
+  };
+
+  const showPinnedVersion = (id: number) => {
+    setBrowsedVersions(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
     });
+  };
 
-    // 2. Generate LINE store requirements (main.png & tab.png) from the first sticker
-    if (successStickers.length > 0) {
-      const firstSticker = successStickers[0];
-      try {
-        const mainUrl = await createResizedVariant(firstSticker.processedUrl, 240, 240);
-        folder?.file("main.png", mainUrl.split(',')[1], { base64: true });
+  const handlePin = (id: number, versionId: string) => {
+    onPinVersion(id, versionId);
+    showPinnedVersion(id);
+  };
+
+  // A redraw becomes the pinned version, so the card should show it when it lands
+  const handleRedraw = (id: number, newText?: string) => {
+    showPinnedVersion(id);
+    onRegenerateSingle(id, newText);
+  };
+
+  // "Retry later" redraws on its own after the server's suggested wait, or else one
+  // that doubles each time the same sticker needs it again before it succeeds
+  const [retryAt, setRetryAt] = useState<Record<number, number>>({});
+  const retryCountsRef = useRef(new Map<number, number>());
+  const [now, setNow] = useState(Date.now());
+  // The timer fires between renders; it reads the latest stickers and handlers
+  const stickersRef = useRef(stickers);
+  stickersRef.current = stickers;
+  const handleRedrawRef = useRef(handleRedraw);
+  handleRedrawRef.current = handleRedraw;
+
+  // Failed outright, or a redraw failed and the pinned version stayed
+  const hasFailed = (s: GeneratedSticker) => s.status === 'error' || (s.status === 'success' && !!s.errorKind);
+
+  useEffect(() => {
+    stickers.forEach(s => {
+      if (s.status === 'success' && !s.errorKind) retryCountsRef.current.delete(s.id);
+    });
+  }, [stickers]);
+
+  const scheduleRetry = (sticker: GeneratedSticker) => {
+    const tries = retryCountsRef.current.get(sticker.id) ?? 0;
+    retryCountsRef.current.set(sticker.id, tries + 1);
+    const delay = sticker.retryAfterMs ?? Math.min(RETRY_LATER_BASE_MS * 2 ** tries, RETRY_LATER_MAX_MS);
+    setNow(Date.now());
+    setRetryAt(prev => ({ ...prev, [sticker.id]: Date.now() + delay }));
+  };
+
+  const cancelRetry = (id: number) => {
+    setRetryAt(({ [id]: _, ...rest }) => rest);
+  };
+
+  // Ticks the countdown and starts every redraw that is due (after a batch run, like the button)
+  useEffect(() => {
+    const ids = Object.keys(retryAt).map(Number);
+    if (ids.length === 0) return;
+    const due = isGenerating ? [] : ids.filter(id => retryAt[id] <= now);
+    if (due.length > 0) {
+      setRetryAt(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !due.includes(Number(id)))));
+      // A sticker redrawn some other way meanwhile is left alone
+      due
+        .filter(id => stickersRef.current.some(s => s.id === id && hasFailed(s)))
+        .forEach(id => handleRedrawRef.current(id));
+      return;
+    }
+    const timer = setTimeout(() => setNow(Date.now()), 1000);
+    return () => clearTimeout(timer);
+  }, [retryAt, now, isGenerating]);
+
+  // Card the review keys act on
+  const [focusedId, setFocusedId] = useState<number | null>(null);
+  const cardRefs = useRef(new Map<number, HTMLDivElement>());
+
+  useEffect(() => {
+    if (focusedId !== null) cardRefs.current.get(focusedId)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [focusedId]);
+
+  const isAwaitingPick = (sticker: GeneratedSticker) => getPendingCandidates(sticker).length > 1;
+
+  // Keyboard review: ←/→ move between stickers, ↑/↓ browse versions,
+  // 1–4 pick a candidate, Enter keeps the version shown; picking jumps to the next undecided sticker
+  useEffect(() => {
+    if (pendingPack || bgEditingId !== null || maskEditingId !== null || captionEditingId !== null) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target instanceof HTMLElement ? e.target : null;
+      if (target?.closest('input, textarea, select') || (e.key === 'Enter' && target?.closest('button'))) return;
+
+      const reviewable = stickers.filter(s => s.status === 'success');
+      if (reviewable.length === 0) return;
+      const index = reviewable.findIndex(s => s.id === focusedId);
+      const focused = reviewable[index];
+
+      if (e.key === 'ArrowRight' || e.key === 'ArrowLeft') {
+        e.preventDefault();
+        const step = e.key === 'ArrowRight' ? 1 : -1;
+        const next = focused
+          ? reviewable[(index + step + reviewable.length) % reviewable.length]
+          : reviewable.find(isAwaitingPick) ?? reviewable[0];
+        setFocusedId(next.id);
+        return;
+      }
+      if (!focused) return;
+      if (e.key === 'Escape') {
+        setFocusedId(null);
+        return;
+      }
+      if ((e.key === 'ArrowUp' || e.key === 'ArrowDown') && focused.versions.length > 1) {
+        e.preventDefault();
+        browseVersion(focused, e.key === 'ArrowDown' ? 1 : -1);
+        return;
+      }
+
+      const picked = e.key === 'Enter'
+        ? getShownVersion(focused)
+        : /^[1-4]$/.test(e.key) ? getPendingCandidates(focused)[Number(e.key) - 1] : undefined;
+      if (!picked || isGenerating) return;
+      e.preventDefault();
+      handlePin(focused.id, picked.id);
+      const later = [...reviewable.slice(index + 1), ...reviewable.slice(0, index)];
+      const nextUndecided = later.find(isAwaitingPick);
+      if (nextUndecided) setFocusedId(nextUndecided.id);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Build the pack and check it against LINE's rules before anything is downloaded
+  const handleDownloadAll = async () => {
+    const lang = exportLanguage;
+    if (lang) {
+      // Missing captions, or ones translated before the line was edited
+      const untranslated = stickers.filter(s => {
+        const item = plan.find(p => p.id === s.id);
+        return s.status === 'success' && !(item && getFreshCaption(item, lang));
+      });
+      if (untranslated.length > 0 && !confirm(t('results.untranslatedConfirm', { count: untranslated.length, language: getLanguageName(lang) }))) return;
+    }
+
+    setIsValidating(true);
+    try {
+      const packStickers = lang ? await localizeStickers(stickers, plan, lang, mode) : stickers;
+      const files = await buildPackFiles(packStickers, mode);
+      const packedPlan = plan.filter(item => files.some(f => f.stickerId === item.id));
+      const listingChecks = storeMetadata ? validateStoreMetadata(storeMetadata, packedPlan, lang) : [];
+      const report = await validatePack(files, mode, listingChecks);
+      setPendingPack({ files, report, lang, packedPlan });
+    } catch (e) {
+      console.error("Pack validation failed", e);
+      alert(t('results.validationFailed'));
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleConfirmDownload = async () => {
+    if (!pendingPack) return;
+    const textFiles = storeMetadata ? buildMetadataFiles(storeMetadata, pendingPack.packedPlan, pendingPack.lang) : [];
+    try {
+      const content = await createPackZip(pendingPack.files, mode, pendingPack.lang, textFiles);
+      downloadBlob(content, getPackZipName(mode, pendingPack.lang));
+    } catch (e) {
+      console.error("Pack ZIP failed", e);
+      alert(t('results.zipFailed'));
+    } finally {
+      setPendingPack(null);
+    }
+  };
 
-        const tabUrl = await createResizedVariant(firstSticker.processedUrl, 96, 74);
-        folder?.file("tab.png", tabUrl.split(',')[1], { base64: true });
+  // Re-composite from the raw art with the new caption; no API calls involved
+  const handleApplyCaption = async (caption: CaptionLayout, applyToAll: boolean) => {
+    if (!captionEditingSticker) return;
+    const targets = applyToAll
+      ? stickers.filter(s => s.status === 'success' && s.imageUrl)
+      : [captionEditingSticker];
 
-      } catch (e) {
-        console.error("Failed to create resized assets", e);
+    setIsApplyingCaption(true);
+    try {
+      for (const sticker of targets) {
+        const patch = await reprocessSticker(sticker, mode, { caption });
+        onUpdateSticker(sticker.id, patch);
       }
+      setCaptionEditingId(null);
+    } catch (e) {
+      console.error("Caption apply failed", e);
+      alert(t('results.applyFailed'));
+    } finally {
+      setIsApplyingCaption(false);
+    }
+  };
+
+  // The next step offered on a failed card depends on why it failed
+  const renderErrorAction = (sticker: GeneratedSticker) => {
+    const { action } = ERROR_KINDS[sticker.errorKind ?? 'unknown'];
+    if (action === 'none') return null;
+
+    const scheduledAt = retryAt[sticker.id];
+    if (scheduledAt !== undefined) {
+      return (
+        <button
+          onClick={() => cancelRetry(sticker.id)}
+          title={t('results.retryCancelHint')}
+          className="mt-2 bg-white border border-amber-200 text-amber-600 px-3 py-1 rounded-full font-bold text-[11px] hover:bg-amber-50 transition flex items-center gap-1"
+        >
+          <Clock size={12} />
+          {t('results.retryScheduled', { seconds: Math.max(Math.ceil((scheduledAt - now) / 1000), 0) })}
+        </button>
+      );
     }
 
-    const content = await zip.generateAsync({ type: "blob" });
-    downloadBlob(content, "line_stickers_pack.zip");
+    const handleClick = () => {
+      if (action === 'retry_later') {
+        scheduleRetry(sticker);
+        return;
+      }
+      if (action !== 'edit_caption') {
+        handleRedraw(sticker.id);
+        return;
+      }
+      const text = prompt(t('results.editCaptionPrompt'), sticker.text)?.trim();
+      if (text) handleRedraw(sticker.id, text);
+    };
+
+    const label = action === 'edit_caption' ? t('results.editCaption') : action === 'retry_later' ? t('results.retryLater') : t('results.retry');
+    const Icon = action === 'edit_caption' ? Edit2 : action === 'retry_later' ? Clock : RefreshCw;
+
+    return (
+      <button
+        onClick={handleClick}
+        disabled={isGenerating || sticker.status === 'generating'}
+        title={action === 'retry_later' ? t('results.retryLaterHint') : undefined}
+        className="mt-2 bg-white border border-red-200 text-red-500 px-3 py-1 rounded-full font-bold text-[11px] hover:bg-red-50 transition flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Icon size={12} />
+        {label}
+      </button>
+    );
   };
 
   const completedCount = stickers.filter(s => s.status === 'success').length;
+  const awaitingPickCount = stickers.filter(s => s.status === 'success' && isAwaitingPick(s)).length;
+  const unfinishedCount = stickers.filter(s => s.status === 'pending' || s.status === 'error').length;
+  const finishedCount = stickers.filter(s => s.status === 'success' || s.status === 'error').length;
   const totalCount = stickers.length;
 
+  // Rough ETA: each call takes ~20s and several may run at once, but the scheduler
+  // never starts them faster than one per batchDelayMs
+  const remainingBatches = Math.max(totalBatches - progress, 0);
+  const msPerBatch = Math.max(20000 / getSchedulerConfig().maxConcurrent, batchDelayMs);
+  const etaMinutes = Math.ceil((remainingBatches * msPerBatch) / 60000);
+
   return (
     <div className="max-w-7xl mx-auto space-y-6 pb-20">
+
+      {pendingPack && (
+        <ValidationReport
+          report={pendingPack.report}
+          onConfirmDownload={handleConfirmDownload}
+          onClose={() => setPendingPack(null)}
+        />
+      )}
+
+      {bgEditingSticker && (
+        <BackgroundEditor
+          sticker={bgEditingSticker}
+          mode={mode}
+          onApply={(patch) => {
+            onUpdateSticker(bgEditingSticker.id, patch);
+            setBgEditingId(null);
+          }}
+          onClose={() => setBgEditingId(null)}
+        />
+      )}
+
+      {maskEditingSticker && (
+        <MaskEditor
+          sticker={maskEditingSticker}
+          mode={mode}
+          onApply={(patch) => {
+            onUpdateSticker(maskEditingSticker.id, patch);
+            setMaskEditingId(null);
+          }}
+          onClose={() => setMaskEditingId(null)}
+        />
+      )}
+
+      {showMetadata && (
+        <StoreMetadataEditor
+          metadata={storeMetadata}
+          plan={plan}
+          languages={languages}
+          onGenerate={onGenerateMetadata}
+          onChange={onUpdateMetadata}
+          onClose={() => setShowMetadata(false)}
+        />
+      )}
+
+      {captionEditingSticker && (
+        <CaptionEditor
+          sticker={captionEditingSticker}
+          mode={mode}
+          isApplying={isApplyingCaption}
+          onApply={handleApplyCaption}
+          onClose={() => setCaptionEditingId(null)}
+        />
+      )}
       
       {/* Header / Status */}
       <div className="bg-white p-6 rounded-2xl shadow-lg border border-slate-100 sticky top-20 z-20">
@@ -65,17 +404,32 @@ const ResultsGrid: React.FC<Props> = ({
           <div>
             <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
               <span className="w-3 h-8 bg-indigo-500 rounded-full inline-block"></span>
-              {isGenerating ? '生成進行中' : '生成結果'}
+              {isGenerating ? t('results.titleGenerating') : t('results.title')}
             </h2>
             
             {isGenerating ? (
-              <p className="text-indigo-600 text-sm mt-2 ml-5 flex items-center gap-2 font-medium animate-pulse">
-                <Palette size={16} />
-                AI 正在揮毫中... 請稍候，好圖值得等待！({completedCount}/{totalCount})
-              </p>
+              <>
+                <p className="text-indigo-600 text-sm mt-2 ml-5 flex items-center gap-2 font-medium animate-pulse">
+                  <Palette size={16} />
+                  {t('results.generating', { completed: completedCount, total: totalCount })}
+                </p>
+                {totalBatches > 1 && (
+                  <p className="text-slate-400 text-xs mt-1 ml-5">
+                    {t('results.batchProgress', { current: Math.min(progress + 1, totalBatches), total: totalBatches, minutes: etaMinutes })}
+                  </p>
+                )}
+              </>
             ) : (
               <p className="text-slate-500 text-sm mt-2 ml-5">
-                生成完畢！共 {completedCount} 張貼圖
+                {t('results.done', { count: completedCount })}
+              </p>
+            )}
+            {completedCount > 0 && (
+              <p className="text-slate-400 text-xs mt-1 ml-5">
+                {awaitingPickCount > 0 && (
+                  <span className="text-amber-600 font-bold mr-2">{t('results.awaitingPick', { count: awaitingPickCount })}</span>
+                )}
+                {t('results.keyboardHint')}
               </p>
             )}
           </div>
@@ -86,7 +440,7 @@ const ResultsGrid: React.FC<Props> = ({
                   <div className="flex-1 md:w-48 bg-slate-200 rounded-full h-2 overflow-hidden">
                     <div 
                       className="bg-indigo-500 h-full transition-all duration-300"
-                      style={{ width: `${(completedCount / totalCount) * 100}%` }}
+                      style={{ width: `${(finishedCount / totalCount) * 100}%` }}
                     ></div>
                   </div>
                   <button
@@ -94,24 +448,57 @@ const ResultsGrid: React.FC<Props> = ({
                    className="px-3 py-1.5 rounded-lg bg-white border border-red-100 text-red-500 hover:bg-red-50 text-xs font-bold transition flex items-center gap-1 whitespace-nowrap shadow-sm"
                  >
                    <XCircle size={14} />
-                   取消
+                   {t('common.cancel')}
                  </button>
                 </div>
              ) : completedCount > 0 && (
                <>
+                 {unfinishedCount > 0 && (
+                   <button
+                     onClick={onResume}
+                     className="px-5 py-2.5 rounded-xl border border-indigo-200 text-indigo-600 hover:bg-indigo-50 font-bold transition flex items-center gap-2"
+                     title={t('results.resumeHint')}
+                   >
+                     <RefreshCw size={18} />
+                     {t('results.resume', { count: unfinishedCount })}
+                   </button>
+                 )}
                  <button
                    onClick={onReset}
                    className="px-5 py-2.5 rounded-xl border border-slate-300 text-slate-600 hover:bg-slate-50 font-bold transition flex items-center gap-2"
                  >
                    <ArrowLeft size={18} />
-                   重做一組
+                   {t('results.startOver')}
                  </button>
+                 <button
+                   onClick={() => setShowMetadata(true)}
+                   className="px-4 py-2.5 rounded-xl border border-slate-300 text-slate-600 hover:bg-slate-50 font-bold transition flex items-center gap-2"
+                   title={t('metadata.openHint')}
+                 >
+                   <Store size={18} />
+                   {t('metadata.open')}
+                 </button>
+                 {languages.length > 0 && (
+                   <select
+                     value={exportLanguage ?? ''}
+                     onChange={(e) => setExportLanguage((e.target.value || null) as CaptionLanguage | null)}
+                     disabled={isValidating}
+                     className="px-3 py-2.5 rounded-xl border border-slate-300 bg-white text-slate-600 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-200"
+                     title={t('results.exportLanguageHint')}
+                   >
+                     <option value="">{t('results.exportCurrent')}</option>
+                     {languages.map(lang => (
+                       <option key={lang} value={lang}>{t('results.exportLanguage', { language: getLanguageName(lang) })}</option>
+                     ))}
+                   </select>
+                 )}
                  <button
                    onClick={handleDownloadAll}
-                   className="bg-indigo-600 text-white px-6 py-2.5 rounded-xl font-bold shadow-lg hover:bg-indigo-700 transition flex items-center gap-2"
+                   disabled={isValidating}
+                   className="bg-indigo-600 text-white px-6 py-2.5 rounded-xl font-bold shadow-lg hover:bg-indigo-700 transition flex items-center gap-2 disabled:opacity-60 disabled:cursor-wait"
                  >
-                   <Download size={20} />
-                   下載打包 (ZIP)
+                   {isValidating ? <Loader2 size={20} className="animate-spin" /> : <Download size={20} />}
+                   {isValidating ? t('results.validating') : t('results.download')}
                  </button>
                </>
              )}
@@ -121,72 +508,194 @@ const ResultsGrid: React.FC<Props> = ({
 
       {/* Grid - Larger images (fewer columns) */}
       <div className="grid grid-cols-2 md:grid-cols-3 gap-6">
-        {stickers.map((sticker) => (
-          <div key={sticker.id} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden relative group hover:shadow-md transition">
+        {stickers.map((sticker) => {
+          const shownVersion = getShownVersion(sticker);
+          const isBrowsing = !!shownVersion && shownVersion.id !== sticker.activeVersionId;
+          const shownIndex = shownVersion ? sticker.versions.indexOf(shownVersion) : -1;
+          const candidates = sticker.status === 'success' ? getPendingCandidates(sticker) : [];
+          return (
+            <div
+              key={sticker.id}
+              ref={el => { if (el) cardRefs.current.set(sticker.id, el); else cardRefs.current.delete(sticker.id); }}
+              onClick={() => setFocusedId(sticker.id)}
+              className={`bg-white rounded-xl shadow-sm border overflow-hidden relative group hover:shadow-md transition ${
+                focusedId === sticker.id ? 'border-indigo-400 ring-2 ring-indigo-200' : 'border-slate-200'
+              }`}
+            >
             
-            {/* Aspect Ratio Box 1:1 */}
-            <div className="relative pt-[100%] bg-[url('https://media.istockphoto.com/id/1300305276/vector/transparent-background-grid-seamless-pattern-png-background.jpg?s=612x612&w=0&k=20&c=L_1D369w48bF2_rQhK6t_gW8J3v8C7bF5g4_e7f3_c=')] bg-cover">
+              {/* Aspect Ratio Box 1:1 */}
+              <div className="relative pt-[100%] bg-[url('https://media.istockphoto.com/id/1300305276/vector/transparent-background-grid-seamless-pattern-png-background.jpg?s=612x612&w=0&k=20&c=L_1D369w48bF2_rQhK6t_gW8J3v8C7bF5g4_e7f3_c=')] bg-cover">
               
-              <div className="absolute inset-0 flex items-center justify-center p-2">
-                {sticker.status === 'generating' && (
-                  <div className="flex flex-col items-center text-indigo-500">
-                    <Loader2 className="animate-spin mb-2" size={32} />
-                    <span className="text-xs font-bold bg-white/90 px-3 py-1 rounded-full shadow-sm">繪製中...</span>
-                  </div>
-                )}
+                <div className="absolute inset-0 flex items-center justify-center p-2">
+                  {sticker.status === 'generating' && (
+                    <div className="flex flex-col items-center text-indigo-500">
+                      <Loader2 className="animate-spin mb-2" size={32} />
+                      <span className="text-xs font-bold bg-white/90 px-3 py-1 rounded-full shadow-sm">{t('results.drawing')}</span>
+                    </div>
+                  )}
                 
-                {sticker.status === 'pending' && (
-                  <div className="text-slate-300 flex flex-col items-center">
-                    <ImageIcon size={32} className="mb-2 opacity-50" />
-                    <span className="text-xs font-medium">等待中</span>
+                  {sticker.status === 'pending' && (
+                    <div className="text-slate-300 flex flex-col items-center">
+                      <ImageIcon size={32} className="mb-2 opacity-50" />
+                      <span className="text-xs font-medium">{t('results.waiting')}</span>
+                    </div>
+                  )}
+
+                  {sticker.status === 'error' && (
+                    <div className="flex flex-col items-center justify-center text-red-500 p-2 text-center h-full">
+                       <AlertCircle size={24} className="mb-2" />
+                       <div className="text-xs font-bold bg-red-50 px-3 py-1 rounded-full mb-1">
+                          {getErrorMessage(sticker.errorKind ?? 'unknown')}
+                       </div>
+                       <p className="text-[10px] text-red-400 leading-tight max-w-[180px]" title={sticker.errorDetail}>
+                         {getErrorHint(sticker.errorKind ?? 'unknown')}
+                       </p>
+                       {renderErrorAction(sticker)}
+                    </div>
+                  )}
+
+                  {sticker.status === 'success' && sticker.processedUrl && (
+                    <>
+                      <img 
+                        src={shownVersion?.processedUrl ?? sticker.processedUrl} 
+                        alt={shownVersion?.text ?? sticker.text} 
+                        className={`w-full h-full object-contain drop-shadow-sm transform transition duration-300 group-hover:scale-105 ${isBrowsing ? 'opacity-70' : ''}`}
+                      />
+                    
+                      {/* Another version: only pinning makes sense, the edits apply to the pinned one */}
+                      {isBrowsing ? (
+                        <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition flex items-center justify-center">
+                           <button
+                             onClick={() => handlePin(sticker.id, shownVersion.id)}
+                             disabled={isGenerating}
+                             className="bg-white text-slate-800 px-3 py-2 rounded-full font-bold text-xs shadow-lg hover:bg-indigo-50 hover:text-indigo-600 transition flex items-center gap-1 transform hover:scale-110 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                           >
+                             <Pin size={14} />
+                             {t('results.pinVersion')}
+                           </button>
+                        </div>
+                      ) : (
+                        /* Regenerate Overlay */
+                        <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition flex flex-col gap-2 items-center justify-center">
+                           <button
+                             onClick={() => handleRedraw(sticker.id)}
+                             disabled={isGenerating}
+                             className="bg-white text-slate-800 px-3 py-2 rounded-full font-bold text-xs shadow-lg hover:bg-indigo-50 hover:text-indigo-600 transition flex items-center gap-1 transform hover:scale-110 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                           >
+                             <RefreshCw size={14} />
+                             {t('results.redraw')}
+                           </button>
+                           <button
+                             onClick={() => setBgEditingId(sticker.id)}
+                             disabled={isGenerating}
+                             className="bg-white text-slate-800 px-3 py-2 rounded-full font-bold text-xs shadow-lg hover:bg-indigo-50 hover:text-indigo-600 transition flex items-center gap-1 transform hover:scale-110 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                           >
+                             <SlidersHorizontal size={14} />
+                             {t('results.background')}
+                           </button>
+                           <button
+                             onClick={() => setMaskEditingId(sticker.id)}
+                             disabled={isGenerating}
+                             className="bg-white text-slate-800 px-3 py-2 rounded-full font-bold text-xs shadow-lg hover:bg-indigo-50 hover:text-indigo-600 transition flex items-center gap-1 transform hover:scale-110 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                           >
+                             <Brush size={14} />
+                             {t('results.touchUp')}
+                           </button>
+                           <button
+                             onClick={() => setCaptionEditingId(sticker.id)}
+                             disabled={isGenerating}
+                             className="bg-white text-slate-800 px-3 py-2 rounded-full font-bold text-xs shadow-lg hover:bg-indigo-50 hover:text-indigo-600 transition flex items-center gap-1 transform hover:scale-110 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                           >
+                             <Type size={14} />
+                             {t('results.captionLayout')}
+                           </button>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {/* Footer */}
+              <div className="p-3 bg-white border-t border-slate-100 text-center">
+                <p className="font-bold text-slate-800 text-sm truncate">{shownVersion?.text ?? sticker.text}</p>
+                {sticker.status === 'success' && (
+                  <div className="text-[10px] text-slate-400 mt-0.5">
+                    {isAnimated ? `${ANIMATION_SPEC.width} x ${ANIMATION_SPEC.height} px · APNG` : '320 x 320 px'}
                   </div>
                 )}
-
-                {sticker.status === 'error' && (
-                  <div className="flex flex-col items-center justify-center text-red-500 p-2 text-center h-full">
-                     <AlertCircle size={24} className="mb-2" />
-                     <div className="text-xs font-bold bg-red-50 px-3 py-1 rounded-full mb-1">
-                        生成失敗
-                     </div>
-                     <p className="text-[10px] text-red-400 leading-tight max-w-[150px]">
-                       {sticker.error || "未知錯誤"}
-                     </p>
+                {candidates.length > 1 ? (
+                  /* Candidate run: every take side by side until one is picked */
+                  <div className={`grid gap-1 mt-2 ${CANDIDATE_COLUMNS[candidates.length]}`}>
+                    {candidates.map((candidate, index) => (
+                      <button
+                        key={candidate.id}
+                        onClick={() => handlePin(sticker.id, candidate.id)}
+                        disabled={isGenerating || sticker.status === 'generating'}
+                        onMouseEnter={() => setBrowsedVersions(prev => ({ ...prev, [sticker.id]: candidate.id }))}
+                        onMouseLeave={() => showPinnedVersion(sticker.id)}
+                        className={`relative rounded-lg border p-0.5 transition disabled:cursor-not-allowed ${
+                          candidate.id === sticker.activeVersionId ? 'border-indigo-400 bg-indigo-50' : 'border-slate-200 hover:border-indigo-300'
+                        }`}
+                        title={t('results.pickCandidate', { number: index + 1 })}
+                      >
+                        <img src={candidate.processedUrl} alt={candidate.text} className="w-full aspect-square object-contain" />
+                        <span className="absolute top-0.5 left-0.5 text-[9px] font-bold bg-white/90 text-slate-500 rounded px-1">{index + 1}</span>
+                      </button>
+                    ))}
+                  </div>
+                ) : sticker.status === 'success' && shownVersion && sticker.versions.length > 1 && (
+                  <div className="flex items-center justify-between gap-1 mt-2 text-[10px]">
+                    <button
+                      onClick={() => browseVersion(sticker, -1)}
+                      className="p-1 rounded-full text-slate-400 hover:bg-slate-100 hover:text-slate-600 transition"
+                      title={t('results.previousVersion')}
+                    >
+                      <ChevronLeft size={14} />
+                    </button>
+                    <span className={`flex items-center gap-1 font-medium ${isBrowsing ? 'text-slate-400' : 'text-indigo-500'}`}>
+                      {!isBrowsing && <Pin size={10} />}
+                      {t('results.versionInfo', {
+                        index: shownIndex + 1,
+                        total: sticker.versions.length,
+                        source: t(shownVersion.source === 'grid' ? 'results.sourceGrid' : 'results.sourceSingle'),
+                        time: formatTime(shownVersion.createdAt)
+                      })}
+                    </span>
+                    <button
+                      onClick={() => browseVersion(sticker, 1)}
+                      className="p-1 rounded-full text-slate-400 hover:bg-slate-100 hover:text-slate-600 transition"
+                      title={t('results.nextVersion')}
+                    >
+                      <ChevronRight size={14} />
+                    </button>
                   </div>
                 )}
-
-                {sticker.status === 'success' && sticker.processedUrl && (
-                  <>
-                    <img 
-                      src={sticker.processedUrl} 
-                      alt={sticker.text} 
-                      className="w-full h-full object-contain drop-shadow-sm transform transition duration-300 group-hover:scale-105"
-                    />
-                    
-                    {/* Regenerate Overlay */}
-                    <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition flex items-center justify-center">
-                       <button
-                         onClick={() => onRegenerateSingle(sticker.id)}
-                         disabled={isGenerating}
-                         className="bg-white text-slate-800 px-3 py-2 rounded-full font-bold text-xs shadow-lg hover:bg-indigo-50 hover:text-indigo-600 transition flex items-center gap-1 transform hover:scale-110 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
-                       >
-                         <RefreshCw size={14} />
-                         重繪此張
-                       </button>
+                {sticker.status === 'success' && sticker.errorKind && (
+                  /* The last redraw failed; the pinned version above is still the one packed */
+                  <div className="mt-2 p-2 rounded-lg bg-red-50 text-red-500 flex flex-col items-center text-center">
+                    <div className="flex items-center gap-1 text-[11px] font-bold" title={sticker.errorDetail}>
+                      <AlertCircle size={12} className="shrink-0" />
+                      {t('results.redrawFailed', { message: getErrorMessage(sticker.errorKind) })}
+                      <button
+                        onClick={() => {
+                          cancelRetry(sticker.id);
+                          onUpdateSticker(sticker.id, { errorKind: undefined, errorDetail: undefined, retryAfterMs: undefined });
+                        }}
+                        className="ml-1 text-red-300 hover:text-red-500 transition"
+                        title={t('common.close')}
+                      >
+                        <X size={12} />
+                      </button>
                     </div>
-                  </>
+                    <p className="text-[10px] text-red-400 leading-tight mt-0.5">{getErrorHint(sticker.errorKind)}</p>
+                    {renderErrorAction(sticker)}
+                  </div>
                 )}
               </div>
             </div>
-
-            {/* Footer */}
-            <div className="p-3 bg-white border-t border-slate-100 text-center">
-              <p className="font-bold text-slate-800 text-sm truncate">{sticker.text}</p>
-              {sticker.status === 'success' && (
-                <div className="text-[10px] text-slate-400 mt-0.5">320 x 320 px</div>
-              )}
-            </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
@@ -1,174 +1,442 @@
 
-import React, { useState } from 'react';
-import { STICKER_STYLES, STICKER_COUNTS } from '../constants';
-import { StickerCount, StickerPlanItem } from '../types';
-import { resizeImageFile } from '../utils/imageProcessing';
-import { Upload, Sparkles, Play, Edit2, Image as ImageIcon, Languages, AlertTriangle, Eye, RefreshCw, X } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { STICKER_STYLES, STICKER_COUNTS, ANIMATED_STICKER_COUNTS, GRID_LAYOUTS, CANDIDATE_COUNTS, MAX_REFERENCE_IMAGES, STICKER_EMOTIONS, CAPTION_LANGUAGES } from '../constants';
+import { CandidateCount, CaptionLanguage, CaptionSuggestion, CaptionTone, CharacterSheet, CustomStyle, GridSize, ReferenceImage, StickerCount, StickerMode, StickerPlanItem } from '../types';
+import { downloadBlob, resizeImageFile } from '../utils/imageProcessing';
+import { getEmotionName, summarizeEmotionCoverage } from '../utils/planCoverage';
+import { findNearDuplicates } from '../utils/captionSimilarity';
+import { detectPlanFileFormat, exportPlanFile, getPlanFileName, parsePlanFile, PlanFileFormat } from '../utils/planFile';
+import { CaptionDisplay, detectCaptionDisplay, findMissingCaptions, formatCaption, getLanguageName, withCaptionText } from '../utils/captionLanguages';
+import { getAllStyles } from '../services/styleStore';
+import { formatList, t } from '../i18n';
+import StyleManager from './StyleManager';
+import { Upload, Sparkles, Play, Edit2, Image as ImageIcon, Languages, AlertTriangle, Eye, RefreshCw, X, Settings2, PersonStanding, CheckCircle2, PieChart, Wand2, List, Laugh, HandHeart, Scissors, FileUp, Download, Undo2, Redo2, PenLine, LucideIcon } from 'lucide-react';
 
 interface Props {
+  defaults: {
+    references: ReferenceImage[];
+    styleId: string;
+    count: StickerCount;
+    context: string;
+    mode: StickerMode;
+    gridSize: GridSize;
+    candidateCount: CandidateCount;
+  };
   onGeneratePlan: (
-    file: string | null, 
+    references: ReferenceImage[], 
     styleId: string, 
     count: StickerCount, 
     context: string
   ) => void;
+  onImportPlan: (
+    plan: StickerPlanItem[],
+    languages: CaptionLanguage[], // Caption languages the file has text for
+    references: ReferenceImage[],
+    styleId: string,
+    count: StickerCount,
+    context: string
+  ) => void;
   onUpdatePlan: (plan: StickerPlanItem[]) => void;
-  onStartGeneration: () => void;
-  onTestGeneration: (file: string | null, styleId: string) => Promise<string | null | undefined>;
+  // Changes one line of the latest plan; the same mergeKey in quick succession is one undo step
+  onPatchPlanItem: (id: number, patch: Partial<StickerPlanItem>, mergeKey?: string) => void;
+  onUndoPlan: () => void;
+  onRedoPlan: () => void;
+  canUndoPlan: boolean;
+  canRedoPlan: boolean;
+  onSuggestCaptions: (id: number, context: string, count: number, tone?: CaptionTone | null) => Promise<CaptionSuggestion[]>;
+  languages: CaptionLanguage[];
+  onAddLanguage: (lang: CaptionLanguage, context: string) => Promise<void>; // Translates the plan, then adds it
+  onRemoveLanguage: (lang: CaptionLanguage) => void;
+  onFillTranslations: (context: string) => Promise<void>; // Translates lines added or replaced since
+  onStartGeneration: (mode: StickerMode, gridSize: GridSize, candidateCount: CandidateCount) => void;
+  onResumeGeneration: (gridSize: GridSize, candidateCount: CandidateCount) => void;
+  resumableCount: number; // Stickers left pending/failed from an earlier run
+  onTestGeneration: (references: ReferenceImage[], styleId: string) => Promise<string | null | undefined>;
+  characterSheet: CharacterSheet | null; // Approved anchor sheet
+  onGenerateCharacterSheet: (references: ReferenceImage[], styleId: string) => Promise<string | null>;
+  onApproveCharacterSheet: (sheet: CharacterSheet | null) => void;
+  customStyles: CustomStyle[];
+  onCustomStylesChange: (styles: CustomStyle[]) => void;
   isThinking: boolean;
   plan: StickerPlanItem[];
 }
 
 const SetupForm: React.FC<Props> = ({ 
+  defaults,
   onGeneratePlan, 
+  onImportPlan,
   onUpdatePlan,
+  onPatchPlanItem,
+  onUndoPlan,
+  onRedoPlan,
+  canUndoPlan,
+  canRedoPlan,
+  onSuggestCaptions,
+  languages,
+  onAddLanguage,
+  onRemoveLanguage,
+  onFillTranslations,
   onStartGeneration,
+  onResumeGeneration,
+  resumableCount,
   onTestGeneration,
+  characterSheet,
+  onGenerateCharacterSheet,
+  onApproveCharacterSheet,
+  customStyles,
+  onCustomStylesChange,
   isThinking, 
   plan 
 }) => {
-  const [file, setFile] = useState<string | null>(null);
-  const [styleId, setStyleId] = useState(STICKER_STYLES[0].id);
-  const [count, setCount] = useState<StickerCount>(8);
-  const [context, setContext] = useState('');
+  const [references, setReferences] = useState<ReferenceImage[]>(defaults.references);
+  const [styleId, setStyleId] = useState(defaults.styleId);
+  const [count, setCount] = useState<StickerCount>(defaults.count);
+  const [context, setContext] = useState(defaults.context);
+  const [mode, setMode] = useState<StickerMode>(defaults.mode);
+  const [gridSize, setGridSize] = useState<GridSize>(defaults.gridSize);
+  const [candidateCount, setCandidateCount] = useState<CandidateCount>(defaults.candidateCount);
+  const [showStyleManager, setShowStyleManager] = useState(false);
+  const planInputRef = useRef<HTMLInputElement>(null);
+  const planListRef = useRef<HTMLDivElement>(null);
+
+  const styles = getAllStyles(customStyles);
   
   // Test Preview State
   const [testImage, setTestImage] = useState<string | null>(null);
   const [isTestLoading, setIsTestLoading] = useState(false);
 
+  // Character sheet waiting for approval (the approved one lives in App)
+  const [sheetDraft, setSheetDraft] = useState<string | null>(null);
+  const [isSheetLoading, setIsSheetLoading] = useState(false);
+
+  // Per-line caption actions
+  const [openMenuId, setOpenMenuId] = useState<number | null>(null);
+  const [busyItemId, setBusyItemId] = useState<number | null>(null);
+  const [alternatives, setAlternatives] = useState<{ id: number; options: CaptionSuggestion[] } | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
+
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const originalFile = e.target.files[0];
-      try {
-        // Resize image to prevent "Payload Too Large" errors
-        const resizedBase64 = await resizeImageFile(originalFile);
-        setFile(resizedBase64);
-      } catch (err) {
-        console.error("Image resize failed", err);
-        alert("圖片處理失敗，請試著換一張照片");
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ''; // Allow picking the same file again after removing it
+    if (files.length === 0) return;
+
+    const room = MAX_REFERENCE_IMAGES - references.length;
+    if (files.length > room) {
+      alert(t('setup.tooManyPhotos', { max: MAX_REFERENCE_IMAGES, room }));
+    }
+
+    try {
+      // Resize every image to prevent "Payload Too Large" errors (all of them go into each call)
+      const added: ReferenceImage[] = [];
+      for (const [index, originalFile] of files.slice(0, room).entries()) {
+        added.push({
+          id: `ref-${Date.now().toString(36)}-${index}`,
+          data: await resizeImageFile(originalFile),
+          note: ''
+        });
       }
+      setReferences(prev => [...prev, ...added].slice(0, MAX_REFERENCE_IMAGES));
+    } catch (err) {
+      console.error("Image resize failed", err);
+      alert(t('setup.photoProcessingFailed'));
     }
   };
 
-  const handleTextChange = (id: number, newText: string) => {
-    const updated = plan.map(item => 
-      item.id === id ? { ...item, text: newText } : item
-    );
-    onUpdatePlan(updated);
+  const handleNoteChange = (id: string, note: string) => {
+    setReferences(prev => prev.map(ref => ref.id === id ? { ...ref, note } : ref));
+  };
+
+  const handleRemoveReference = (id: string) => {
+    setReferences(prev => prev.filter(ref => ref.id !== id));
+  };
+
+  const handleModeChange = (newMode: StickerMode) => {
+    setMode(newMode);
+    // LINE animated sets stop at 24
+    if (newMode === 'animated' && !ANIMATED_STICKER_COUNTS.includes(count)) {
+      setCount(24);
+    }
+  };
+
+  // Ctrl/Cmd+Z undoes a plan change, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes it.
+  // Other fields (notes, context) keep the browser's own undo.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      const isUndo = key === 'z' && !e.shiftKey;
+      const isRedo = (key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey);
+      if (!isUndo && !isRedo) return;
+
+      const target = e.target instanceof HTMLElement ? e.target : null;
+      const inOtherField = !!target?.closest('input, textarea, select, [contenteditable="true"]') && !planListRef.current?.contains(target);
+      if (inOtherField) return;
+
+      e.preventDefault();
+      if (isThinking) return;
+      if (isUndo) onUndoPlan();
+      else onRedoPlan();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // A suggestion keeps the line in the language the user switched it to.
+  // It only comes in TC/EN, so other languages need translating again.
+  const applySuggestion = (item: StickerPlanItem, suggestion: CaptionSuggestion) => {
+    const display = detectCaptionDisplay(item) ?? 'both';
+    const text = formatCaption(suggestion.captions, display) ?? formatCaption(suggestion.captions, 'both') ?? item.text;
+    onPatchPlanItem(item.id, { ...suggestion, text, edited: false, staleLanguages: undefined });
+    setAlternatives(null);
+  };
+
+  // 'replace' swaps in a new caption, 'alternatives' offers three to pick from, a tone rewrites the line
+  const handleCaptionAction = async (item: StickerPlanItem, action: 'replace' | 'alternatives' | CaptionTone) => {
+    setOpenMenuId(null);
+    setAlternatives(null);
+    setBusyItemId(item.id);
+
+    const tone = action === 'replace' || action === 'alternatives' ? null : action;
+    const suggestions = await onSuggestCaptions(item.id, context, action === 'alternatives' ? 3 : 1, tone);
+    setBusyItemId(null);
+    if (suggestions.length === 0) return;
+
+    if (action === 'alternatives') {
+      setAlternatives({ id: item.id, options: suggestions });
+    } else {
+      applySuggestion(item, suggestions[0]);
+    }
   };
 
   const handleGenerateClick = () => {
-    onGeneratePlan(file, styleId, count, context);
+    const editedCount = plan.filter(item => item.edited).length;
+    if (editedCount > 0 && !confirm(t('setup.regenerateEditedConfirm', { count: editedCount }))) return;
+    onGeneratePlan(references, styleId, count, context);
+  };
+
+  // Captions written in a spreadsheet skip the AI plan step; the file decides the set size
+  const handleImportPlan = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const content = await file.text();
+      const imported = parsePlanFile(content, detectPlanFileFormat(file.name, content), mode);
+      if (imported.duplicates.length > 0) {
+        const groups = imported.duplicates.map(group => describeGroup(group, imported.plan)).join('\n');
+        if (!confirm(t('setup.importDuplicatesConfirm', { groups }))) return;
+      }
+      if (hasPlan && !confirm(t('setup.importReplaceConfirm', { count: plan.length }))) return;
+
+      const importedCount = imported.plan.length as StickerCount;
+      setCount(importedCount);
+      onImportPlan(imported.plan, imported.languages, references, styleId, importedCount, context);
+    } catch (err) {
+      console.error("Plan import failed", err);
+      alert(t('setup.importFailed', { message: (err as Error).message }));
+    }
   };
 
-  const handleLanguageSwitch = (lang: 'tc' | 'en' | 'both') => {
+  // Lines without that language yet keep their current text.
+  // A hand edit that no language's caption holds (e.g. to the bilingual line) would be lost, so that asks first.
+  const handleLanguageSwitch = (display: CaptionDisplay) => {
     if (plan.length === 0) return;
-    const updated = plan.map(item => ({
+    const texts = plan.map(item => formatCaption(item.captions, display) ?? item.text);
+    const lost = plan.filter((item, i) => item.edited && !detectCaptionDisplay(item) && texts[i] !== item.text);
+    if (lost.length > 0 && !confirm(t('setup.switchEditedConfirm', { lines: describeGroup(lost.map(item => item.id)) }))) return;
+
+    const updated = plan.map((item, i) => ({
       ...item,
-      text: lang === 'tc' 
-        ? item.originalTc 
-        : lang === 'en' 
-          ? item.originalEn 
-          : `${item.originalTc} (${item.originalEn})`
+      text: texts[i],
+      edited: lost.includes(item) ? false : item.edited
     }));
     onUpdatePlan(updated);
   };
 
+  const handleAddLanguage = async (lang: CaptionLanguage) => {
+    setIsTranslating(true);
+    await onAddLanguage(lang, context);
+    setIsTranslating(false);
+  };
+
+  const handleFillTranslations = async () => {
+    setIsTranslating(true);
+    await onFillTranslations(context);
+    setIsTranslating(false);
+  };
+
   const handleTestClick = async () => {
-    if (!file) {
-      alert("請先上傳參考照片");
+    if (references.length === 0) {
+      alert(t('setup.uploadReferenceFirst'));
       return;
     }
     setIsTestLoading(true);
     // Don't clear image immediately if refreshing, so user sees something while waiting
     if (!testImage) setTestImage(null); 
     
-    const result = await onTestGeneration(file, styleId);
+    const result = await onTestGeneration(references, styleId);
     if (result) {
       setTestImage(result);
     }
     setIsTestLoading(false);
   };
 
-  // Duplicate Check
-  const findDuplicates = () => {
-    const counts: {[key:string]: number} = {};
-    const duplicates: string[] = [];
-    plan.forEach(item => {
-      const t = item.text.trim();
-      counts[t] = (counts[t] || 0) + 1;
-    });
-    for (const t in counts) {
-      if (counts[t] > 1) duplicates.push(t);
+  const handleSheetClick = async () => {
+    if (references.length === 0) {
+      alert(t('setup.uploadReferenceFirst'));
+      return;
+    }
+    setIsSheetLoading(true);
+    const result = await onGenerateCharacterSheet(references, styleId);
+    if (result) {
+      setSheetDraft(result);
     }
-    return duplicates;
+    setIsSheetLoading(false);
   };
-  
-  const duplicateTexts = findDuplicates();
+
+  const handleApproveSheet = () => {
+    if (!sheetDraft) return;
+    onApproveCharacterSheet({ imageUrl: sheetDraft, styleId });
+    setSheetDraft(null);
+  };
+
+  const shownSheet = sheetDraft ?? characterSheet?.imageUrl ?? null;
+  // An approved sheet from another style isn't sent with the run
+  const isSheetStale = !sheetDraft && !!characterSheet && characterSheet.styleId !== styleId;
+
+  // Duplicate Check (near-duplicates too, e.g. "早安" / "早安啊!!")
+  const duplicateGroups = findNearDuplicates(plan);
+  const duplicateIds = new Set(duplicateGroups.flat());
+  const describeGroup = (ids: number[], items: StickerPlanItem[] = plan) =>
+    formatList(ids.map(id => t('setup.duplicateItem', { number: id + 1, text: items.find(item => item.id === id)?.text ?? '' })));
+
   const hasPlan = plan.length > 0;
+  const coverage = summarizeEmotionCoverage(plan);
+
+  const missingTranslations = findMissingCaptions(plan, languages);
+  // The first line stands in for the whole plan when highlighting the active language
+  const currentDisplay = plan[0] ? detectCaptionDisplay(plan[0]) : null;
+
+  // A deleted style can't stay selected
+  const handleStylesChange = (next: CustomStyle[]) => {
+    onCustomStylesChange(next);
+    if (!getAllStyles(next).some(s => s.id === styleId)) {
+      setStyleId(STICKER_STYLES[0].id);
+    }
+  };
 
   return (
     <div className="flex flex-col lg:flex-row gap-6">
+
+      {showStyleManager && (
+        <StyleManager
+          styles={customStyles}
+          onChange={handleStylesChange}
+          onClose={() => setShowStyleManager(false)}
+        />
+      )}
       
       {/* LEFT COLUMN: Controls (35%) */}
       <div className="lg:w-[35%] space-y-4">
         <div className="bg-white p-5 rounded-2xl shadow-lg border border-slate-100">
           <h2 className="font-bold text-slate-800 mb-4 flex items-center gap-2">
             <Edit2 size={18} className="text-indigo-600" />
-            1. 設定參數
+            {t('setup.step1')}
           </h2>
 
-          {/* New Layout: Row with Upload(Left) and Options(Right) */}
-          <div className="flex flex-row gap-4 mb-5">
-            
-            {/* 1. Upload Box (Vertical) */}
-            <div className="w-1/3 min-w-[100px]">
-              <label className="block text-xs font-bold text-slate-500 mb-1">參考照片</label>
-              <label className="cursor-pointer border-2 border-dashed border-slate-300 rounded-xl hover:bg-slate-50 transition flex flex-col items-center justify-center aspect-[3/4] overflow-hidden relative group bg-slate-50 w-full">
-                <input type="file" accept="image/*" className="hidden" onChange={handleFileChange} />
-                {file ? (
-                  <>
-                    <img src={file} alt="Preview" className="w-full h-full object-cover opacity-90" />
-                    <div className="absolute inset-0 flex items-center justify-center bg-black/20 text-white opacity-0 group-hover:opacity-100 transition">
-                       <Upload size={24} />
-                    </div>
-                  </>
-                ) : (
+          {/* Reference photos: several angles of the same character, each with an optional note */}
+          <div className="mb-5">
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-xs font-bold text-slate-500">{t('setup.referencePhotos')}</label>
+              <span className="text-[10px] text-slate-400">{references.length}/{MAX_REFERENCE_IMAGES} · {t('setup.referencePhotosHint')}</span>
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              {references.map((ref, index) => (
+                <div key={ref.id} className="flex flex-col gap-1">
+                  <div className="relative aspect-[3/4] rounded-xl overflow-hidden border border-slate-200 bg-slate-50 group">
+                    <img src={ref.data} alt={`Reference ${index + 1}`} className="w-full h-full object-cover opacity-90" />
+                    <button
+                      onClick={() => handleRemoveReference(ref.id)}
+                      className="absolute top-1 right-1 bg-black/40 hover:bg-black/60 text-white p-1 rounded-full opacity-0 group-hover:opacity-100 transition"
+                      title={t('setup.removePhoto')}
+                    >
+                      <X size={10} />
+                    </button>
+                  </div>
+                  <input
+                    type="text"
+                    value={ref.note}
+                    onChange={(e) => handleNoteChange(ref.id, e.target.value)}
+                    placeholder={t('setup.photoNotePlaceholder')}
+                    title={t('setup.photoNoteHint')}
+                    className="w-full px-1.5 py-1 text-[10px] rounded-md border border-slate-200 bg-slate-50 focus:ring-1 focus:ring-indigo-500 outline-none"
+                  />
+                </div>
+              ))}
+              {references.length < MAX_REFERENCE_IMAGES && (
+                <label className="cursor-pointer border-2 border-dashed border-slate-300 rounded-xl hover:bg-slate-50 transition flex flex-col items-center justify-center aspect-[3/4] bg-slate-50">
+                  <input type="file" accept="image/*" multiple className="hidden" onChange={handleFileChange} />
                   <div className="flex flex-col items-center text-slate-400 p-2 text-center">
                     <Upload size={24} className="mb-2" />
-                    <span className="text-[10px] leading-tight">上傳<br/>照片</span>
+                    <span className="text-[10px] leading-tight">{t('setup.uploadPhotos')}</span>
                   </div>
-                )}
-              </label>
+                </label>
+              )}
             </div>
+          </div>
+
+          <div className="flex flex-row gap-4 mb-5">
 
             {/* 2. Options (Count & Context) - Stacked Vertically */}
             <div className="flex-1 flex flex-col gap-3">
               <div>
-                 <label className="block text-xs font-bold text-slate-500 mb-1">貼圖數量</label>
-                 <div className="grid grid-cols-2 gap-2">
+                 <label className="block text-xs font-bold text-slate-500 mb-1">{t('setup.count')}</label>
+                 <div className="grid grid-cols-3 gap-2">
                    {STICKER_COUNTS.map((c) => (
                      <button
                        key={c}
-                       onClick={() => setCount(c as StickerCount)}
-                       className={`py-1.5 rounded-md text-xs font-bold transition ${
+                       onClick={() => setCount(c)}
+                       disabled={mode === 'animated' && !ANIMATED_STICKER_COUNTS.includes(c)}
+                       className={`py-1.5 rounded-md text-xs font-bold transition disabled:opacity-40 disabled:cursor-not-allowed ${
                          count === c 
                          ? 'bg-indigo-600 text-white shadow-sm' 
                          : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-50'
                        }`}
+                       title={mode === 'animated' && !ANIMATED_STICKER_COUNTS.includes(c) ? t('setup.animatedCountLimit') : undefined}
                      >
-                       {c}張
+                       {t('setup.countOption', { count: c })}
                      </button>
                    ))}
                  </div>
               </div>
               
+              <div>
+                 <label className="block text-xs font-bold text-slate-500 mb-1">{t('setup.mode')}</label>
+                 <div className="grid grid-cols-2 gap-2">
+                   {([['static', t('setup.modeStatic')], ['animated', t('setup.modeAnimated')]] as [StickerMode, string][]).map(([m, label]) => (
+                     <button
+                       key={m}
+                       onClick={() => handleModeChange(m)}
+                       disabled={m === 'animated' && plan.length > 24}
+                       className={`py-1.5 rounded-md text-xs font-bold transition disabled:opacity-40 disabled:cursor-not-allowed ${
+                         mode === m
+                         ? 'bg-indigo-600 text-white shadow-sm'
+                         : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-50'
+                       }`}
+                       title={m === 'animated' ? t('setup.modeAnimatedHint') : t('setup.modeStaticHint')}
+                     >
+                       {label}
+                     </button>
+                   ))}
+                 </div>
+              </div>
+
               <div className="flex-1 flex flex-col">
-                <label className="block text-xs font-bold text-slate-500 mb-1">情境 (選填)</label>
+                <label className="block text-xs font-bold text-slate-500 mb-1">{t('setup.context')}</label>
                 <textarea
                   value={context}
                   onChange={(e) => setContext(e.target.value)}
-                  placeholder="例：厭世上班族、熱戀情侶..."
+                  placeholder={t('setup.contextPlaceholder')}
                   className="w-full h-full min-h-[60px] px-3 py-2 text-sm rounded-lg border border-slate-300 focus:ring-1 focus:ring-indigo-500 outline-none resize-none bg-slate-50"
                 />
               </div>
@@ -177,9 +445,17 @@ const SetupForm: React.FC<Props> = ({
 
           {/* Style Grid (Icons) */}
           <div>
-            <label className="block text-xs font-bold text-slate-500 mb-2">畫風選擇</label>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-xs font-bold text-slate-500">{t('setup.style')}</label>
+              <button
+                onClick={() => setShowStyleManager(true)}
+                className="text-[11px] text-slate-500 hover:text-indigo-600 flex items-center gap-1 transition"
+              >
+                <Settings2 size={12} /> {t('setup.customStyles')}
+              </button>
+            </div>
             <div className="grid grid-cols-4 gap-2">
-              {STICKER_STYLES.map((style) => {
+              {styles.map((style) => {
                  const Icon = style.icon;
                  return (
                   <button
@@ -206,17 +482,17 @@ const SetupForm: React.FC<Props> = ({
             <div className="mt-3">
               {isTestLoading ? (
                  <div className="w-full py-2 bg-slate-100 rounded-lg flex items-center justify-center gap-2 text-xs text-slate-500 animate-pulse">
-                   <Sparkles size={14} className="animate-spin" /> 繪製試看圖中...
+                   <Sparkles size={14} className="animate-spin" /> {t('setup.testLoading')}
                  </div>
               ) : testImage ? (
                  <div className="relative w-full aspect-square rounded-lg overflow-hidden border border-indigo-100 shadow-sm bg-slate-50 group">
-                    <img src={testImage} className="w-full h-full object-contain" alt="Preview" />
+                    <img src={testImage} className="w-full h-full object-contain" alt={t('setup.testAlt')} />
                     
                     {/* Close Button */}
                     <button 
                       onClick={() => setTestImage(null)}
                       className="absolute top-2 right-2 bg-black/40 hover:bg-black/60 text-white p-1.5 rounded-full backdrop-blur-sm transition"
-                      title="關閉預覽"
+                      title={t('setup.closePreview')}
                     >
                       <X size={14} />
                     </button>
@@ -225,29 +501,100 @@ const SetupForm: React.FC<Props> = ({
                     <button 
                       onClick={handleTestClick}
                       className="absolute bottom-2 right-2 bg-white/95 px-2 py-1.5 rounded-full shadow-md text-indigo-600 hover:text-indigo-800 transition flex items-center gap-1"
-                      title="使用目前選擇的風格重畫"
+                      title={t('setup.redrawPreviewHint')}
                     >
                       <RefreshCw size={12} />
-                      <span className="text-[10px] font-bold hidden group-hover:inline">重畫</span>
+                      <span className="text-[10px] font-bold hidden group-hover:inline">{t('setup.redraw')}</span>
                     </button>
                     
                     <div className="absolute top-2 left-2 px-2 py-0.5 bg-indigo-600/90 text-white text-[10px] rounded-full shadow-sm">
-                      預覽結果
+                      {t('setup.previewBadge')}
                     </div>
                  </div>
               ) : (
                 <button 
                   onClick={handleTestClick}
-                  disabled={!file}
-                  className={`w-full py-2 border border-dashed border-indigo-300 rounded-lg text-xs font-bold text-indigo-600 hover:bg-indigo-50 transition flex items-center justify-center gap-1 ${!file ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  disabled={references.length === 0}
+                  className={`w-full py-2 border border-dashed border-indigo-300 rounded-lg text-xs font-bold text-indigo-600 hover:bg-indigo-50 transition flex items-center justify-center gap-1 ${references.length === 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
                 >
                   <Eye size={14} />
-                  ✨ 試畫一張 (預覽風格)
+                  {t('setup.testButton')}
                 </button>
               )}
             </div>
           </div>
 
+          {/* Character Sheet (optional): approve one design, every batch then copies it */}
+          <div className="mt-4 pt-4 border-t border-slate-100">
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-xs font-bold text-slate-500">{t('setup.characterSheet')}</label>
+              {characterSheet && !sheetDraft && !isSheetStale && (
+                <span className="text-[10px] font-bold text-emerald-600 flex items-center gap-1">
+                  <CheckCircle2 size={12} /> {t('setup.sheetApplied')}
+                </span>
+              )}
+            </div>
+
+            {isSheetLoading ? (
+              <div className="w-full py-2 bg-slate-100 rounded-lg flex items-center justify-center gap-2 text-xs text-slate-500 animate-pulse">
+                <Sparkles size={14} className="animate-spin" /> {t('setup.sheetLoading')}
+              </div>
+            ) : shownSheet ? (
+              <div className="space-y-2">
+                <div className={`relative w-full aspect-video rounded-lg overflow-hidden border bg-slate-50 ${sheetDraft ? 'border-indigo-300' : 'border-slate-200'}`}>
+                  <img src={shownSheet} className="w-full h-full object-contain" alt={t('setup.sheetAlt')} />
+                  {sheetDraft && (
+                    <div className="absolute top-2 left-2 px-2 py-0.5 bg-indigo-600/90 text-white text-[10px] rounded-full shadow-sm">
+                      {t('setup.sheetPending')}
+                    </div>
+                  )}
+                </div>
+                {isSheetStale && (
+                  <p className="text-[10px] text-amber-600 flex items-center gap-1">
+                    <AlertTriangle size={12} /> {t('setup.sheetStale')}
+                  </p>
+                )}
+                <div className="flex gap-2">
+                  {sheetDraft && (
+                    <button
+                      onClick={handleApproveSheet}
+                      className="flex-1 py-1.5 rounded-lg bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-700 transition flex items-center justify-center gap-1"
+                    >
+                      <CheckCircle2 size={12} /> {t('setup.sheetApprove')}
+                    </button>
+                  )}
+                  <button
+                    onClick={handleSheetClick}
+                    className="flex-1 py-1.5 rounded-lg border border-slate-200 text-slate-600 text-xs font-bold hover:bg-slate-50 transition flex items-center justify-center gap-1"
+                  >
+                    <RefreshCw size={12} /> {t('setup.redraw')}
+                  </button>
+                  <button
+                    onClick={() => sheetDraft ? setSheetDraft(null) : onApproveCharacterSheet(null)}
+                    className="py-1.5 px-3 rounded-lg border border-slate-200 text-slate-500 text-xs font-bold hover:bg-slate-50 hover:text-red-500 transition flex items-center justify-center gap-1"
+                    title={sheetDraft ? t('setup.sheetDiscardHint') : t('setup.sheetRemoveHint')}
+                  >
+                    <X size={12} /> {sheetDraft ? t('setup.sheetDiscard') : t('setup.sheetRemove')}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <button
+                  onClick={handleSheetClick}
+                  disabled={references.length === 0}
+                  className={`w-full py-2 border border-dashed border-indigo-300 rounded-lg text-xs font-bold text-indigo-600 hover:bg-indigo-50 transition flex items-center justify-center gap-1 ${references.length === 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
+                >
+                  <PersonStanding size={14} />
+                  {t('setup.sheetGenerate')}
+                </button>
+                <p className="text-[10px] text-slate-400 mt-1">
+                  {t('setup.sheetHint')}
+                </p>
+              </>
+            )}
+          </div>
+
           {/* ACTION BUTTON 1: Generate Text */}
           <div className="mt-6">
             <button
@@ -262,15 +609,25 @@ const SetupForm: React.FC<Props> = ({
               {isThinking ? (
                 <>
                   <Sparkles className="animate-spin" size={16} />
-                  AI 構思中...
+                  {t('setup.planLoading')}
                 </>
               ) : (
                 <>
                   <Sparkles size={16} />
-                  {hasPlan ? '重新產生文字' : '產生文字草稿'}
+                  {hasPlan ? t('setup.regeneratePlan') : t('setup.generatePlan')}
                 </>
               )}
             </button>
+            <button
+              onClick={() => planInputRef.current?.click()}
+              disabled={isThinking}
+              className="w-full mt-2 py-2 rounded-xl border border-slate-200 text-slate-600 text-xs font-bold hover:bg-slate-50 transition flex items-center justify-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              title={t('setup.importPlanHint')}
+            >
+              <FileUp size={14} />
+              {t('setup.importPlan')}
+            </button>
+            <input ref={planInputRef} type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleImportPlan} />
           </div>
         </div>
       </div>
@@ -278,85 +635,337 @@ const SetupForm: React.FC<Props> = ({
       {/* RIGHT COLUMN: Text & Preview (65%) */}
       <div className="lg:flex-1 flex flex-col h-full">
         <div className="bg-white p-5 rounded-2xl shadow-lg border border-slate-100 flex-1 flex flex-col min-h-[500px]">
-          <h2 className="font-bold text-slate-800 mb-4 flex items-center gap-2">
-            <ImageIcon size={18} className="text-pink-500" />
-            2. 文字草稿與生成
-          </h2>
+          <div className="flex items-center justify-between gap-2 mb-4">
+            <h2 className="font-bold text-slate-800 flex items-center gap-2">
+              <ImageIcon size={18} className="text-pink-500" />
+              {t('setup.step2')}
+            </h2>
+            <div className="flex items-center gap-1">
+              {(hasPlan || canUndoPlan) && (
+                <>
+                  <button
+                    onClick={onUndoPlan}
+                    disabled={!canUndoPlan || isThinking}
+                    className="p-1.5 rounded-lg border border-slate-200 text-slate-500 hover:bg-slate-50 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={t('setup.undoPlan')}
+                  >
+                    <Undo2 size={12} />
+                  </button>
+                  <button
+                    onClick={onRedoPlan}
+                    disabled={!canRedoPlan || isThinking}
+                    className="p-1.5 mr-1 rounded-lg border border-slate-200 text-slate-500 hover:bg-slate-50 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={t('setup.redoPlan')}
+                  >
+                    <Redo2 size={12} />
+                  </button>
+                </>
+              )}
+              {hasPlan && (['csv', 'json'] as PlanFileFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => downloadBlob(exportPlanFile(plan, format), getPlanFileName(format))}
+                  className="px-2 py-1 rounded-lg border border-slate-200 text-slate-500 text-[10px] font-bold hover:bg-slate-50 transition flex items-center gap-1"
+                  title={t('setup.exportPlanHint')}
+                >
+                  <Download size={12} />
+                  {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
 
           {!hasPlan ? (
             <div className="flex-1 flex flex-col items-center justify-center text-slate-400 border-2 border-dashed border-slate-100 rounded-xl bg-slate-50/50">
               <Sparkles size={48} className="mb-3 text-indigo-200" />
-              <p className="font-medium">請先在左側設定並點擊「產生文字草稿」</p>
-              <p className="text-xs mt-1">AI 將為您規劃 {count} 組貼圖內容</p>
+              <p className="font-medium">{t('setup.emptyPlan')}</p>
+              <p className="text-xs mt-1">{t('setup.emptyPlanHint', { count })}</p>
             </div>
           ) : (
             <>
               {/* DUPLICATE WARNING */}
-              {duplicateTexts.length > 0 && (
+              {duplicateGroups.length > 0 && (
                 <div className="mb-4 px-4 py-3 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-3">
                    <AlertTriangle className="text-amber-500 shrink-0 mt-0.5" size={18} />
                    <div className="text-xs text-amber-800">
-                      <span className="font-bold">注意：偵測到重複的文字</span>
-                      <p className="mt-1 opacity-80">以下文字出現多次：{duplicateTexts.join(', ')}。建議修改以避免貼圖重複。</p>
+                      <span className="font-bold">{t('setup.duplicatesTitle')}</span>
+                      {duplicateGroups.map(group => (
+                        <p key={group.join('-')} className="mt-1 opacity-80">{describeGroup(group)}</p>
+                      ))}
+                      <p className="mt-1 opacity-80">{t('setup.duplicatesHint')}</p>
                    </div>
                 </div>
               )}
 
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-6 overflow-y-auto max-h-[600px] p-1">
+              {/* CAPTION LANGUAGES: which one the stickers show, and which get their own pack */}
+              <div className="mb-4 px-4 py-3 bg-slate-50 border border-slate-200 rounded-lg">
+                <div className="flex items-center gap-2 text-xs font-bold text-slate-600 mb-2">
+                  <Languages size={14} className="text-indigo-500" />
+                  {t('setup.captionLanguages')}
+                  {isTranslating && <Sparkles size={12} className="animate-spin text-indigo-500" />}
+                </div>
+                <div className="flex flex-wrap items-center gap-1.5">
+                  {(['both', ...languages] as CaptionDisplay[]).map(display => (
+                    <span
+                      key={display}
+                      className={`inline-flex items-center rounded-full border text-[10px] font-bold transition ${
+                        currentDisplay === display
+                        ? 'bg-indigo-600 border-indigo-600 text-white'
+                        : 'bg-white border-slate-200 text-slate-600 hover:border-indigo-300'
+                      }`}
+                    >
+                      <button
+                        onClick={() => handleLanguageSwitch(display)}
+                        className="px-2.5 py-1"
+                        title={t('setup.showLanguage')}
+                      >
+                        {display === 'both' ? t('setup.bilingual') : getLanguageName(display)}
+                      </button>
+                      {display !== 'both' && display !== 'tc' && display !== 'en' && (
+                        <button
+                          onClick={() => onRemoveLanguage(display)}
+                          className="pr-2 -ml-1 opacity-60 hover:opacity-100"
+                          title={t('setup.removeLanguage')}
+                        >
+                          <X size={10} />
+                        </button>
+                      )}
+                    </span>
+                  ))}
+                  {languages.length < CAPTION_LANGUAGES.length && (
+                    <select
+                      value=""
+                      onChange={(e) => handleAddLanguage(e.target.value as CaptionLanguage)}
+                      disabled={isTranslating}
+                      className="px-2 py-1 text-[10px] rounded-full border border-dashed border-slate-300 bg-white text-slate-500 outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
+                      title={t('setup.addLanguageHint')}
+                    >
+                      <option value="">{t('setup.addLanguage')}</option>
+                      {CAPTION_LANGUAGES.filter(l => !languages.includes(l.id)).map(l => (
+                        <option key={l.id} value={l.id}>{l.name}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+                {missingTranslations.length > 0 && (
+                  <p className="mt-2 text-[11px] text-amber-700 flex items-center gap-1">
+                    <AlertTriangle size={12} className="shrink-0" />
+                    {t('setup.missingTranslations', { count: missingTranslations.length })}
+                    <button
+                      onClick={handleFillTranslations}
+                      disabled={isTranslating}
+                      className="ml-1 font-bold underline hover:text-amber-900 disabled:opacity-50"
+                    >
+                      {t('setup.fillTranslations')}
+                    </button>
+                  </p>
+                )}
+              </div>
+
+              {/* EMOTION COVERAGE */}
+              <div className="mb-4 px-4 py-3 bg-slate-50 border border-slate-200 rounded-lg">
+                <div className="flex items-center gap-2 text-xs font-bold text-slate-600 mb-2">
+                  <PieChart size={14} className="text-indigo-500" />
+                  {t('setup.emotionCoverage')}
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                  {STICKER_EMOTIONS.filter(e => coverage.counts[e.id]).map(e => (
+                    <span key={e.id} className="px-2 py-0.5 rounded-full bg-white border border-slate-200 text-[10px] font-medium text-slate-600">
+                      {t(e.nameKey)} {coverage.counts[e.id]}
+                    </span>
+                  ))}
+                </div>
+                {coverage.missing.length > 0 && (
+                  <p className="mt-2 text-[11px] text-amber-700 flex items-start gap-1">
+                    <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+                    {t('setup.missingEmotions', { emotions: formatList(coverage.missing.map(getEmotionName)) })}
+                  </p>
+                )}
+                {coverage.dominant && (
+                  <p className="mt-1 text-[11px] text-amber-700 flex items-start gap-1">
+                    <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+                    {t('setup.dominantEmotion', { emotion: getEmotionName(coverage.dominant) })}
+                  </p>
+                )}
+              </div>
+
+              <div ref={planListRef} className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-6 overflow-y-auto max-h-[600px] p-1">
                 {plan.map((item) => {
                   // Highlight if duplicate
-                  const isDuplicate = duplicateTexts.includes(item.text.trim());
+                  const isDuplicate = duplicateIds.has(item.id);
+                  const isBusy = busyItemId === item.id;
                   
                   return (
                     <div key={item.id} className="relative group">
-                      <span className={`absolute left-3 top-3 text-[10px] font-bold ${isDuplicate ? 'text-amber-500' : 'text-slate-400'}`}>
+                      <span
+                        className={`absolute left-3 top-3 text-[10px] font-bold flex items-center gap-0.5 ${isDuplicate ? 'text-amber-500' : item.edited ? 'text-indigo-500' : 'text-slate-400'}`}
+                        title={item.edited ? t('setup.editedByHand') : undefined}
+                      >
                         #{item.id + 1}
+                        {item.edited && <PenLine size={8} />}
                       </span>
                       <input
                         type="text"
                         value={item.text}
-                        onChange={(e) => handleTextChange(item.id, e.target.value)}
-                        className={`w-full pl-10 pr-3 py-3 rounded-xl border bg-slate-50 focus:bg-white outline-none transition font-medium text-slate-700 text-sm ${
+                        onChange={(e) => onPatchPlanItem(item.id, { ...withCaptionText(item, e.target.value), edited: true }, `text-${item.id}`)}
+                        disabled={isBusy}
+                        className={`w-full pl-10 pr-9 py-3 rounded-xl border bg-slate-50 focus:bg-white outline-none transition font-medium text-slate-700 text-sm ${
                           isDuplicate 
                           ? 'border-amber-300 ring-1 ring-amber-100' 
                           : 'border-slate-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-200'
-                        }`}
+                        } ${isBusy ? 'opacity-60' : ''}`}
                       />
+                      <button
+                        onClick={() => setOpenMenuId(openMenuId === item.id ? null : item.id)}
+                        disabled={isBusy || busyItemId !== null}
+                        className={`absolute right-2 top-2.5 p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition disabled:cursor-not-allowed ${
+                          isBusy || openMenuId === item.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                        }`}
+                        title={t('setup.captionActions')}
+                      >
+                        {isBusy ? <Sparkles size={14} className="animate-spin text-indigo-500" /> : <Wand2 size={14} />}
+                      </button>
+
+                      {/* Per-line caption actions */}
+                      {openMenuId === item.id && (
+                        <div className="absolute right-0 top-11 z-10 w-36 bg-white border border-slate-200 rounded-lg shadow-lg py-1 text-xs text-slate-600">
+                          {([
+                            ['replace', RefreshCw, t('setup.action.replace')],
+                            ['alternatives', List, t('setup.action.alternatives')],
+                            ['funnier', Laugh, t('setup.action.funnier')],
+                            ['politer', HandHeart, t('setup.action.politer')],
+                            ['shorter', Scissors, t('setup.action.shorter')]
+                          ] as ['replace' | 'alternatives' | CaptionTone, LucideIcon, string][]).map(([action, Icon, label]) => (
+                            <button
+                              key={action}
+                              onClick={() => handleCaptionAction(item, action)}
+                              className={`w-full px-3 py-1.5 hover:bg-indigo-50 hover:text-indigo-600 transition flex items-center gap-2 ${action === 'funnier' ? 'border-t border-slate-100' : ''}`}
+                            >
+                              <Icon size={12} /> {label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
+                      {/* Alternatives to pick from */}
+                      {alternatives?.id === item.id && (
+                        <div className="mt-1.5 p-2 rounded-lg border border-indigo-100 bg-indigo-50/50 space-y-1">
+                          {alternatives.options.map(option => (
+                            <button
+                              key={option.captions.tc}
+                              onClick={() => applySuggestion(item, option)}
+                              className="w-full text-left px-2 py-1 rounded-md bg-white hover:bg-indigo-100 text-xs text-slate-700 transition"
+                              title={option.direction}
+                            >
+                              {option.captions.tc} <span className="text-slate-400">({option.captions.en})</span>
+                            </button>
+                          ))}
+                          <button
+                            onClick={() => setAlternatives(null)}
+                            className="text-[10px] text-slate-400 hover:text-slate-600 px-2"
+                          >
+                            {t('setup.keepOriginal')}
+                          </button>
+                        </div>
+                      )}
+
+                      {/* Drawing direction: what the model draws, edited separately from the caption */}
+                      <div className="flex gap-1.5 mt-1.5">
+                        <select
+                          value={item.emotion}
+                          onChange={(e) => onPatchPlanItem(item.id, { emotion: e.target.value as StickerPlanItem['emotion'] })}
+                          className="px-1.5 py-1 text-[10px] rounded-md border border-slate-200 bg-white text-slate-500 outline-none focus:ring-1 focus:ring-indigo-500"
+                          title={t('setup.emotion')}
+                        >
+                          {STICKER_EMOTIONS.map(e => (
+                            <option key={e.id} value={e.id}>{t(e.nameKey)}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={item.direction}
+                          onChange={(e) => onPatchPlanItem(item.id, { direction: e.target.value }, `direction-${item.id}`)}
+                          placeholder={t('setup.directionPlaceholder')}
+                          title={t('setup.directionHint')}
+                          className="flex-1 min-w-0 px-2 py-1 text-[11px] rounded-md border border-slate-200 bg-white text-slate-500 outline-none focus:ring-1 focus:ring-indigo-500"
+                        />
+                      </div>
                     </div>
                   );
                 })}
               </div>
 
-              {/* ACTION BUTTON 2: Start Drawing & Lang Toggle */}
+              {/* Candidates: drafts per sticker to pick from (static only) */}
+              {mode === 'static' && (
+                <div className="mb-4">
+                  <label className="block text-xs font-bold text-slate-500 mb-1">{t('setup.candidates')}</label>
+                  <div className="grid grid-cols-4 gap-2">
+                    {CANDIDATE_COUNTS.map(n => (
+                      <button
+                        key={n}
+                        onClick={() => setCandidateCount(n)}
+                        className={`py-2 rounded-lg text-xs font-bold transition ${
+                          candidateCount === n
+                          ? 'bg-indigo-600 text-white shadow-sm'
+                          : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-50'
+                        }`}
+                      >
+                        {n}
+                      </button>
+                    ))}
+                  </div>
+                  {candidateCount > 1 && (
+                    <p className="text-[10px] text-slate-400 mt-1">{t('setup.candidatesHint', { count: candidateCount, calls: plan.length })}</p>
+                  )}
+                </div>
+              )}
+
+              {/* Grid layout: stickers per model call (static runs without candidates) */}
+              {mode === 'static' && candidateCount === 1 && (
+                <div className="mb-4">
+                  <label className="block text-xs font-bold text-slate-500 mb-1">{t('setup.gridSize')}</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {GRID_LAYOUTS.map(layout => (
+                      <button
+                        key={layout.size}
+                        onClick={() => setGridSize(layout.size)}
+                        className={`py-2 rounded-lg text-xs font-bold transition flex flex-col items-center ${
+                          gridSize === layout.size
+                          ? 'bg-indigo-600 text-white shadow-sm'
+                          : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-50'
+                        }`}
+                      >
+                        <span>{layout.name} · {t(layout.hintKey)}</span>
+                        <span className={`text-[10px] font-medium ${gridSize === layout.size ? 'text-indigo-100' : 'text-slate-400'}`}>
+                          {t('setup.gridCalls', { count: Math.ceil(plan.length / (layout.size * layout.size)) })}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* ACTION BUTTON 2: Start Drawing */}
               <div className="mt-auto pt-4 border-t border-slate-100 flex flex-col sm:flex-row gap-3">
-                
-                {/* Language Toggles */}
-                <div className="flex gap-2 sm:w-auto w-full">
-                  <button 
-                    onClick={() => handleLanguageSwitch('tc')}
-                    className="flex-1 sm:flex-none px-4 py-3 rounded-xl border border-slate-200 text-slate-600 font-bold text-xs hover:bg-slate-50 hover:text-indigo-600 transition flex items-center justify-center gap-1"
-                    title="切換為僅繁體中文"
-                  >
-                    <Languages size={14} />
-                    僅繁中
-                  </button>
-                  <button 
-                    onClick={() => handleLanguageSwitch('en')}
-                    className="flex-1 sm:flex-none px-4 py-3 rounded-xl border border-slate-200 text-slate-600 font-bold text-xs hover:bg-slate-50 hover:text-indigo-600 transition flex items-center justify-center gap-1"
-                    title="Switch to English Only"
+                {/* Resume an interrupted run */}
+                {resumableCount > 0 && (
+                  <button
+                    onClick={() => onResumeGeneration(gridSize, candidateCount)}
+                    className="px-4 py-3 rounded-xl border border-indigo-200 text-indigo-600 font-bold text-xs hover:bg-indigo-50 transition flex items-center justify-center gap-1"
+                    title={t('setup.resumeHint')}
                   >
-                    <Languages size={14} />
-                    僅英文
+                    <RefreshCw size={14} />
+                    {t('setup.resume', { count: resumableCount })}
                   </button>
-                </div>
+                )}
 
                 {/* Main Button */}
                 <button
-                  onClick={onStartGeneration}
+                  onClick={() => onStartGeneration(mode, gridSize, candidateCount)}
                   className="flex-1 py-3 rounded-xl font-bold text-lg shadow-xl text-white bg-gradient-to-r from-pink-500 to-rose-500 hover:from-pink-600 hover:to-rose-600 transition transform active:scale-[0.99] flex items-center justify-center gap-2"
                 >
                   <Play fill="currentColor" size={20} />
-                  開始繪製
+                  {mode === 'animated' ? t('setup.startAnimated') : t('setup.start')}
                 </button>
               </div>
             </>
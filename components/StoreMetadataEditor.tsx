@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { CaptionLanguage, StickerPlanItem, StoreListing, StoreMetadata } from '../types';
+import { STORE_LISTING_LIMITS } from '../constants';
+import { getLanguageName } from '../utils/captionLanguages';
+import { countChars, isHalfWidth, parseTags } from '../utils/storeMetadata';
+import { t } from '../i18n';
+import { Store, X, Sparkles, Loader2, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  metadata: StoreMetadata | null;
+  plan: StickerPlanItem[];
+  languages: CaptionLanguage[]; // Sales languages, one listing each
+  onGenerate: () => Promise<void>;
+  onChange: (metadata: StoreMetadata) => void;
+  onClose: () => void;
+}
+
+const EMPTY_METADATA: StoreMetadata = { listings: {}, copyright: '', tags: {} };
+
+// "12/40", red once LINE would reject it
+const CharCount: React.FC<{ value: string; limit: number }> = ({ value, limit }) => {
+  const count = countChars(value);
+  return (
+    <span className={`text-[10px] font-mono ${count > limit ? 'text-red-500 font-bold' : 'text-slate-400'}`}>
+      {count}/{limit}
+    </span>
+  );
+};
+
+const StoreMetadataEditor: React.FC<Props> = ({ metadata, plan, languages, onGenerate, onChange, onClose }) => {
+  const [isDrafting, setIsDrafting] = useState(false);
+  const current = metadata ?? EMPTY_METADATA;
+
+  const handleDraft = async () => {
+    if (metadata && !confirm(t('metadata.redraftConfirm'))) return;
+    setIsDrafting(true);
+    try {
+      await onGenerate();
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const updateListing = (lang: CaptionLanguage, patch: Partial<StoreListing>) => {
+    const listing = { title: '', description: '', ...current.listings[lang], ...patch };
+    onChange({ ...current, listings: { ...current.listings, [lang]: listing } });
+  };
+
+  const updateTags = (id: number, input: string) => {
+    onChange({ ...current, tags: { ...current.tags, [id]: parseTags(input) } });
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col">
+        <div className="p-4 border-b border-slate-100 flex items-center justify-between gap-4">
+          <div>
+            <h3 className="font-bold text-slate-800 flex items-center gap-2">
+              <Store size={18} className="text-indigo-600" />
+              {t('metadata.heading')}
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">{t('metadata.hint')}</p>
+          </div>
+          <div className="flex items-center gap-3 shrink-0">
+            <button
+              onClick={handleDraft}
+              disabled={isDrafting}
+              className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-700 transition flex items-center gap-1 disabled:opacity-60 disabled:cursor-wait"
+            >
+              {isDrafting ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+              {metadata ? t('metadata.redraft') : t('metadata.draft')}
+            </button>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition" title={t('common.close')}>
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {!metadata ? (
+          <div className="p-10 text-center text-sm text-slate-400">{t('metadata.empty')}</div>
+        ) : (
+          <div className="p-5 space-y-5 overflow-y-auto">
+            {/* Title and description per sales language */}
+            {languages.map(lang => {
+              const listing = current.listings[lang] ?? { title: '', description: '' };
+              return (
+                <section key={lang} className="space-y-2">
+                  <h4 className="text-xs font-bold text-slate-600">{getLanguageName(lang)}</h4>
+                  <div>
+                    <div className="flex items-center justify-between mb-1">
+                      <label className="text-[11px] font-bold text-slate-500">{t('metadata.title')}</label>
+                      <CharCount value={listing.title} limit={STORE_LISTING_LIMITS.title} />
+                    </div>
+                    <input
+                      type="text"
+                      value={listing.title}
+                      onChange={(e) => updateListing(lang, { title: e.target.value })}
+                      className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-indigo-200 focus:border-indigo-500"
+                    />
+                  </div>
+                  <div>
+                    <div className="flex items-center justify-between mb-1">
+                      <label className="text-[11px] font-bold text-slate-500">{t('metadata.description')}</label>
+                      <CharCount value={listing.description} limit={STORE_LISTING_LIMITS.description} />
+                    </div>
+                    <textarea
+                      value={listing.description}
+                      onChange={(e) => updateListing(lang, { description: e.target.value })}
+                      rows={3}
+                      className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-indigo-200 focus:border-indigo-500 resize-none"
+                    />
+                  </div>
+                </section>
+              );
+            })}
+
+            {/* Copyright: one line for every language */}
+            <section>
+              <div className="flex items-center justify-between mb-1">
+                <label className="text-[11px] font-bold text-slate-500">{t('metadata.copyright')}</label>
+                <CharCount value={current.copyright} limit={STORE_LISTING_LIMITS.copyright} />
+              </div>
+              <input
+                type="text"
+                value={current.copyright}
+                onChange={(e) => onChange({ ...current, copyright: e.target.value })}
+                className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm font-mono outline-none focus:ring-2 focus:ring-indigo-200 focus:border-indigo-500"
+              />
+              <p className={`text-[11px] mt-1 flex items-center gap-1 ${isHalfWidth(current.copyright) ? 'text-slate-400' : 'text-red-500'}`}>
+                {!isHalfWidth(current.copyright) && <AlertTriangle size={12} className="shrink-0" />}
+                {isHalfWidth(current.copyright) ? t('metadata.copyrightHint') : t('metadata.copyrightHalfWidth')}
+              </p>
+            </section>
+
+            {/* Search tags per sticker, edited as a comma-separated list */}
+            <section>
+              <h4 className="text-xs font-bold text-slate-600 mb-2">{t('metadata.tags')}</h4>
+              <div className="space-y-1.5">
+                {plan.map(item => {
+                  const tags = current.tags[item.id] ?? [];
+                  return (
+                    <div key={item.id} className="flex items-center gap-2">
+                      <span className="w-32 shrink-0 text-[11px] text-slate-500 truncate" title={item.text}>
+                        #{item.id + 1} {item.text}
+                      </span>
+                      <input
+                        key={tags.join(',')}
+                        type="text"
+                        defaultValue={tags.join(', ')}
+                        onBlur={(e) => updateTags(item.id, e.target.value)}
+                        placeholder={t('metadata.tagsPlaceholder')}
+                        className="flex-1 min-w-0 px-2 py-1 rounded-md border border-slate-200 text-[11px] outline-none focus:ring-1 focus:ring-indigo-500"
+                      />
+                      <span className={`text-[10px] font-mono ${tags.length > STORE_LISTING_LIMITS.tagsPerSticker ? 'text-red-500 font-bold' : 'text-slate-400'}`}>
+                        {tags.length}/{STORE_LISTING_LIMITS.tagsPerSticker}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          </div>
+        )}
+
+        <div className="p-4 border-t border-slate-100 flex items-center justify-between gap-4">
+          <p className="text-[11px] text-slate-400">{t('metadata.zipNote')}</p>
+          <button
+            onClick={onClose}
+            className="px-4 py-1.5 rounded-lg border border-slate-200 text-slate-600 text-xs font-bold hover:bg-slate-50 transition"
+          >
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StoreMetadataEditor;
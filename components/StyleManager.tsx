@@ -0,0 +1,320 @@
+import React, { useRef, useState } from 'react';
+import { CustomStyle, StickerStyle } from '../types';
+import { STYLE_COLORS, STYLE_ICONS } from '../constants';
+import {
+  createStyleId,
+  deleteCustomStyle,
+  exportStylesFile,
+  getBuiltInStyles,
+  parseStylesFile,
+  saveCustomStyle,
+  toStickerStyle
+} from '../services/styleStore';
+import { downloadBlob, resizeImageFile } from '../utils/imageProcessing';
+import { t } from '../i18n';
+import { Palette, X, Plus, Copy, Trash2, Edit2, Upload, Download, Check, Image as ImageIcon } from 'lucide-react';
+
+interface Props {
+  styles: CustomStyle[];
+  onChange: (styles: CustomStyle[]) => void;
+  onClose: () => void;
+}
+
+const STYLE_FILE_NAME = 'sticker_styles.json';
+
+const emptyStyle = (): CustomStyle => ({
+  id: createStyleId(),
+  name: '',
+  promptModifier: '',
+  previewColor: STYLE_COLORS[0],
+  iconId: 'palette',
+  updatedAt: Date.now()
+});
+
+const StyleManager: React.FC<Props> = ({ styles, onChange, onClose }) => {
+  const [draft, setDraft] = useState<CustomStyle | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const isNewDraft = draft !== null && !styles.some(s => s.id === draft.id);
+
+  const updateDraft = (patch: Partial<CustomStyle>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+
+  const handleDuplicate = (style: StickerStyle | CustomStyle) => {
+    const iconId = 'iconId' in style
+      ? style.iconId
+      : Object.keys(STYLE_ICONS).find(key => STYLE_ICONS[key] === style.icon) ?? 'palette';
+    setDraft({
+      ...emptyStyle(),
+      name: t('styles.copyName', { name: style.name }).slice(0, 20),
+      promptModifier: style.promptModifier,
+      previewColor: STYLE_COLORS.includes(style.previewColor) ? style.previewColor : STYLE_COLORS[0],
+      iconId,
+      referenceImage: style.referenceImage
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim() || !draft.promptModifier.trim()) {
+      alert(t('styles.nameAndPromptRequired'));
+      return;
+    }
+
+    const saved: CustomStyle = {
+      ...draft,
+      name: draft.name.trim(),
+      promptModifier: draft.promptModifier.trim(),
+      updatedAt: isNewDraft ? Date.now() : draft.updatedAt
+    };
+    try {
+      await saveCustomStyle(saved);
+      onChange(isNewDraft ? [...styles, saved] : styles.map(s => (s.id === saved.id ? saved : s)));
+      setDraft(null);
+    } catch (e) {
+      console.error("Failed to save style", e);
+      alert(t('styles.saveFailed'));
+    }
+  };
+
+  const handleDelete = async (style: CustomStyle) => {
+    if (!confirm(t('styles.confirmDelete', { name: style.name }))) return;
+    try {
+      await deleteCustomStyle(style.id);
+      onChange(styles.filter(s => s.id !== style.id));
+      if (draft?.id === style.id) setDraft(null);
+    } catch (e) {
+      console.error("Failed to delete style", e);
+      alert(t('styles.deleteFailed'));
+    }
+  };
+
+  const handleExampleImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      updateDraft({ referenceImage: await resizeImageFile(file) });
+    } catch (err) {
+      console.error("Image resize failed", err);
+      alert(t('styles.imageFailed'));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseStylesFile(await file.text());
+      await Promise.all(imported.map(saveCustomStyle));
+      onChange([...styles, ...imported]);
+      alert(t('styles.imported', { count: imported.length }));
+    } catch (err) {
+      console.error("Style import failed", err);
+      alert(t('styles.importFailed', { message: (err as Error).message }));
+    }
+  };
+
+  const renderStyleRow = (style: StickerStyle, custom?: CustomStyle) => {
+    const Icon = style.icon;
+    return (
+      <li
+        key={style.id}
+        className={`flex items-center gap-2 p-2 rounded-xl border transition ${
+          draft?.id === style.id ? 'border-indigo-300 bg-indigo-50' : 'border-slate-100 hover:bg-slate-50'
+        }`}
+      >
+        <div className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 ${style.previewColor}`}>
+          <Icon size={16} />
+        </div>
+        <span className="flex-1 min-w-0 text-sm font-bold text-slate-700 truncate flex items-center gap-1">
+          {style.name}
+          {style.referenceImage && <ImageIcon size={12} className="text-slate-400 shrink-0" />}
+        </span>
+        {custom && (
+          <button onClick={() => setDraft(custom)} className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition" title={t('common.edit')}>
+            <Edit2 size={14} />
+          </button>
+        )}
+        <button onClick={() => handleDuplicate(custom ?? style)} className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition" title={t('styles.duplicate')}>
+          <Copy size={14} />
+        </button>
+        {custom && (
+          <button onClick={() => handleDelete(custom)} className="p-1.5 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 transition" title={t('common.delete')}>
+            <Trash2 size={14} />
+          </button>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col">
+        <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <Palette size={18} className="text-indigo-600" />
+            {t('setup.customStyles')}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition" title={t('common.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-5 flex flex-col md:flex-row gap-5 overflow-y-auto">
+          {/* Style list */}
+          <div className="md:w-64 space-y-3">
+            <div className="flex gap-2">
+              <button
+                onClick={() => setDraft(emptyStyle())}
+                className="flex-1 py-1.5 rounded-lg bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-700 transition flex items-center justify-center gap-1"
+              >
+                <Plus size={14} /> {t('styles.new')}
+              </button>
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="px-2 py-1.5 rounded-lg border border-slate-200 text-slate-600 text-xs font-bold hover:bg-slate-50 transition flex items-center gap-1"
+                title={t('styles.importHint')}
+              >
+                <Upload size={14} /> {t('styles.import')}
+              </button>
+              <button
+                onClick={() => downloadBlob(exportStylesFile(styles), STYLE_FILE_NAME)}
+                disabled={styles.length === 0}
+                className="px-2 py-1.5 rounded-lg border border-slate-200 text-slate-600 text-xs font-bold hover:bg-slate-50 transition flex items-center gap-1 disabled:opacity-40"
+                title={t('styles.exportHint')}
+              >
+                <Download size={14} /> {t('styles.export')}
+              </button>
+              <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            </div>
+
+            <div>
+              <p className="text-[10px] font-bold text-slate-400 mb-1">{t('styles.mine')}</p>
+              {styles.length === 0 ? (
+                <p className="text-xs text-slate-400 py-2">{t('styles.mineEmpty')}</p>
+              ) : (
+                <ul className="space-y-1">
+                  {styles.map(style => renderStyleRow(toStickerStyle(style), style))}
+                </ul>
+              )}
+            </div>
+
+            <div>
+              <p className="text-[10px] font-bold text-slate-400 mb-1">{t('styles.builtIn')}</p>
+              <ul className="space-y-1">
+                {getBuiltInStyles().map(style => renderStyleRow(style))}
+              </ul>
+            </div>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1">
+            {!draft ? (
+              <div className="h-full min-h-[200px] rounded-xl border border-dashed border-slate-200 flex items-center justify-center text-sm text-slate-400">
+                {t('styles.selectToEdit')}
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-1">{t('styles.name')}</label>
+                  <input
+                    value={draft.name}
+                    maxLength={20}
+                    onChange={(e) => updateDraft({ name: e.target.value })}
+                    placeholder={t('styles.namePlaceholder')}
+                    className="w-full px-3 py-2 text-sm rounded-lg border border-slate-300 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-1">{t('styles.prompt')}</label>
+                  <textarea
+                    value={draft.promptModifier}
+                    onChange={(e) => updateDraft({ promptModifier: e.target.value })}
+                    placeholder={t('styles.promptPlaceholder')}
+                    className="w-full h-24 px-3 py-2 text-sm rounded-lg border border-slate-300 focus:ring-1 focus:ring-indigo-500 outline-none resize-none bg-slate-50"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-1">{t('styles.color')}</label>
+                  <div className="flex flex-wrap gap-1.5">
+                    {STYLE_COLORS.map(color => (
+                      <button
+                        key={color}
+                        onClick={() => updateDraft({ previewColor: color })}
+                        className={`w-7 h-7 rounded-full ${color} ${draft.previewColor === color ? 'ring-2 ring-indigo-600 ring-offset-1' : ''}`}
+                      />
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-1">{t('styles.icon')}</label>
+                  <div className="flex flex-wrap gap-1.5">
+                    {Object.entries(STYLE_ICONS).map(([id, Icon]) => (
+                      <button
+                        key={id}
+                        onClick={() => updateDraft({ iconId: id })}
+                        className={`w-8 h-8 rounded-lg flex items-center justify-center transition ${
+                          draft.iconId === id ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+                        }`}
+                      >
+                        <Icon size={16} />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-1">{t('styles.example')}</label>
+                  <div className="flex items-center gap-3">
+                    <div className="w-20 h-20 rounded-lg border border-slate-200 bg-slate-50 overflow-hidden flex items-center justify-center">
+                      {draft.referenceImage ? (
+                        <img src={draft.referenceImage} alt={t('styles.exampleAlt')} className="w-full h-full object-contain" />
+                      ) : (
+                        <ImageIcon size={20} className="text-slate-300" />
+                      )}
+                    </div>
+                    <div className="flex flex-col gap-1">
+                      <label className="px-3 py-1.5 rounded-lg border border-slate-200 text-slate-600 text-xs font-bold hover:bg-slate-50 transition cursor-pointer">
+                        {t('styles.uploadExample')}
+                        <input type="file" accept="image/*" className="hidden" onChange={handleExampleImage} />
+                      </label>
+                      {draft.referenceImage && (
+                        <button
+                          onClick={() => updateDraft({ referenceImage: undefined })}
+                          className="text-[11px] text-slate-400 hover:text-red-500 transition"
+                        >
+                          {t('styles.removeExample')}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex justify-end gap-2 pt-2">
+                  <button
+                    onClick={() => setDraft(null)}
+                    className="px-4 py-2 rounded-xl border border-slate-200 text-slate-600 text-sm font-bold hover:bg-slate-50 transition"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    className="px-5 py-2 rounded-xl bg-indigo-600 text-white text-sm font-bold shadow-md hover:bg-indigo-700 transition flex items-center gap-1"
+                  >
+                    <Check size={16} /> {isNewDraft ? t('styles.create') : t('styles.save')}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StyleManager;
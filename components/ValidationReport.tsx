@@ -0,0 +1,106 @@
+import React from 'react';
+import { PackValidation, ValidationStatus } from '../types';
+import { CheckCircle2, AlertTriangle, XCircle, Download, X, ShieldCheck } from 'lucide-react';
+import { MessageKey, t } from '../i18n';
+
+interface Props {
+  report: PackValidation;
+  onConfirmDownload: () => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLE: Record<ValidationStatus, { icon: React.ElementType; color: string; labelKey: MessageKey }> = {
+  pass: { icon: CheckCircle2, color: 'text-emerald-500', labelKey: 'validation.pass' },
+  warn: { icon: AlertTriangle, color: 'text-amber-500', labelKey: 'validation.warn' },
+  fail: { icon: XCircle, color: 'text-red-500', labelKey: 'validation.fail' },
+};
+
+const StatusIcon: React.FC<{ status: ValidationStatus; size?: number }> = ({ status, size = 14 }) => {
+  const { icon: Icon, color } = STATUS_STYLE[status];
+  return <Icon size={size} className={`${color} shrink-0`} />;
+};
+
+const ValidationReport: React.FC<Props> = ({ report, onConfirmDownload, onClose }) => {
+  const countBy = (status: ValidationStatus) => report.files.filter(f => f.status === status).length;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col">
+
+        {/* Header */}
+        <div className="p-5 border-b border-slate-100 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="font-bold text-slate-800 flex items-center gap-2">
+              <ShieldCheck size={18} className="text-indigo-600" />
+              {t('validation.title')}
+            </h3>
+            <p className="text-xs text-slate-500 mt-1 flex items-center gap-3">
+              <span className="flex items-center gap-1"><StatusIcon status="pass" size={12} /> {countBy('pass')} {t(STATUS_STYLE.pass.labelKey)}</span>
+              <span className="flex items-center gap-1"><StatusIcon status="warn" size={12} /> {countBy('warn')} {t(STATUS_STYLE.warn.labelKey)}</span>
+              <span className="flex items-center gap-1"><StatusIcon status="fail" size={12} /> {countBy('fail')} {t(STATUS_STYLE.fail.labelKey)}</span>
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition" title={t('common.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-5 overflow-y-auto space-y-4">
+          <div className="space-y-1.5">
+            {report.packChecks.map(check => (
+              <div key={check.rule} className="flex items-center gap-2 text-xs">
+                <StatusIcon status={check.status} />
+                <span className="font-bold text-slate-700">{check.rule}</span>
+                <span className="text-slate-500">{check.message}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="border border-slate-100 rounded-xl divide-y divide-slate-100">
+            {report.files.map(file => (
+              <div key={file.fileName} className="px-3 py-2">
+                <div className="flex items-center gap-2 text-xs">
+                  <StatusIcon status={file.status} />
+                  <span className="font-mono font-bold text-slate-700">{file.fileName}</span>
+                  <span className="text-slate-400 truncate">
+                    {file.checks.filter(c => c.status === 'pass').map(c => c.message).join(' · ')}
+                  </span>
+                </div>
+                {file.checks.filter(c => c.status !== 'pass').map(check => (
+                  <p key={check.rule} className={`ml-6 mt-0.5 text-[11px] ${STATUS_STYLE[check.status].color}`}>
+                    {t('validation.checkLine', { rule: check.rule, message: check.message })}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-100 flex items-center justify-between gap-3">
+          <p className="text-xs text-slate-500">
+            {report.status === 'fail'
+              ? t('validation.summaryFail')
+              : report.status === 'warn'
+                ? t('validation.summaryWarn')
+                : t('validation.summaryPass')}
+          </p>
+          <button
+            onClick={onConfirmDownload}
+            className={`px-5 py-2 rounded-xl font-bold text-sm shadow-md transition flex items-center gap-2 whitespace-nowrap ${
+              report.status === 'fail'
+              ? 'bg-white border border-red-200 text-red-600 hover:bg-red-50'
+              : 'bg-indigo-600 text-white hover:bg-indigo-700'
+            }`}
+          >
+            <Download size={16} />
+            {report.status === 'fail' ? t('validation.downloadAnyway') : t('validation.download')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ValidationReport;
@@ -1,63 +1,242 @@
-import { StickerStyle } from './types';
-import { Sparkles, Box, PenTool, Smile, Mountain, Highlighter, Zap, Pencil } from 'lucide-react';
+import { BackgroundRemovalSettings, CandidateCount, CaptionLanguage, CaptionLayout, GridSize, StickerCount, StickerEmotion, StickerStyle } from './types';
+import { MessageKey } from './i18n';
+import { Sparkles, Box, PenTool, Smile, Mountain, Highlighter, Zap, Pencil, Palette, Heart, Star, Cat, Brush, Camera, Flower2, Ghost, LucideIcon } from 'lucide-react';
 
-export const STICKER_STYLES: StickerStyle[] = [
+// Built-in styles; their names are localized (see getAllStyles)
+type BuiltInStyle = Omit<StickerStyle, 'name'> & { nameKey: MessageKey };
+
+export const STICKER_STYLES: BuiltInStyle[] = [
   {
     id: 'shojo_manga',
-    name: '少女漫畫',
+    nameKey: 'style.shojo_manga',
     promptModifier: 'shojo manga style, sparkling big eyes, flowery background elements, delicate lines, romantic atmosphere, pastel colors, very detailed, white background',
     previewColor: 'bg-pink-200 text-pink-600',
     icon: Sparkles
   },
   {
     id: 'american_3d',
-    name: '美式 3D',
+    nameKey: 'style.american_3d',
     promptModifier: 'pixar style 3d render, cute character design, expressive big eyes, soft lighting, vibrant colors, 3d animation style, high quality, white background',
     previewColor: 'bg-blue-100 text-blue-600',
     icon: Box
   },
   {
     id: 'hand_drawn_sketch',
-    name: '手繪素描',
+    nameKey: 'style.hand_drawn_sketch',
     promptModifier: 'hand-drawn pencil sketch style, artistic, rough textured lines, black and white with subtle colors, sketchbook aesthetic, white background',
     previewColor: 'bg-stone-100 text-stone-600',
     icon: PenTool
   },
   {
     id: 'chibi_cute',
-    name: 'Q版可愛',
+    nameKey: 'style.chibi_cute',
     promptModifier: 'chibi style, super cute, big head small body, kawaii, simple flat colors, vector illustration, sticker art, clean lines, white background',
     previewColor: 'bg-pink-100 text-pink-500',
     icon: Smile
   },
   {
     id: 'ukiyo_e',
-    name: '浮世繪',
+    nameKey: 'style.ukiyo_e',
     promptModifier: 'traditional japanese ukiyo-e style, woodblock print aesthetic, bold outlines, flat colors, textured paper, historical art style, white background',
     previewColor: 'bg-red-100 text-red-600',
     icon: Mountain
   },
   {
     id: 'marker_doodle',
-    name: '馬克筆',
+    nameKey: 'style.marker_doodle',
     promptModifier: 'marker pen doodle style, bold vibrant colors, hand drawn marker texture, white border, pop art feel, casual and cute, white background',
     previewColor: 'bg-yellow-100 text-yellow-600',
     icon: Highlighter
   },
   {
     id: 'retro_pop',
-    name: '美式復古',
+    nameKey: 'style.retro_pop',
     promptModifier: 'retro pop art style, halftone patterns, comic book aesthetic, 1950s style, bold colors, white background',
     previewColor: 'bg-orange-100 text-orange-600',
     icon: Zap
   },
   {
     id: 'crayon',
-    name: '蠟筆塗鴉',
+    nameKey: 'style.crayon',
     promptModifier: 'children crayon drawing style, rough texture, waxy finish, naive and cute, playful, white background',
     previewColor: 'bg-teal-100 text-teal-600',
     icon: Pencil
   }
 ];
 
-export const STICKER_COUNTS = [8, 16, 24];
\ No newline at end of file
+// Icons and colours offered for custom styles
+export const STYLE_ICONS: Record<string, LucideIcon> = {
+  palette: Palette,
+  sparkles: Sparkles,
+  brush: Brush,
+  pencil: Pencil,
+  heart: Heart,
+  star: Star,
+  smile: Smile,
+  cat: Cat,
+  flower: Flower2,
+  ghost: Ghost,
+  camera: Camera,
+  zap: Zap,
+};
+
+export const STYLE_COLORS = [
+  'bg-indigo-100 text-indigo-600',
+  'bg-pink-100 text-pink-600',
+  'bg-red-100 text-red-600',
+  'bg-orange-100 text-orange-600',
+  'bg-yellow-100 text-yellow-600',
+  'bg-green-100 text-green-600',
+  'bg-teal-100 text-teal-600',
+  'bg-blue-100 text-blue-600',
+  'bg-purple-100 text-purple-600',
+  'bg-stone-100 text-stone-600',
+];
+
+export const STICKER_COUNTS: StickerCount[] = [8, 16, 24, 32, 40];
+
+// Emotion / category tags the plan assigns to each sticker
+export const STICKER_EMOTIONS: { id: StickerEmotion; nameKey: MessageKey }[] = [
+  { id: 'happy', nameKey: 'emotion.happy' },
+  { id: 'love', nameKey: 'emotion.love' },
+  { id: 'sad', nameKey: 'emotion.sad' },
+  { id: 'angry', nameKey: 'emotion.angry' },
+  { id: 'surprised', nameKey: 'emotion.surprised' },
+  { id: 'greeting', nameKey: 'emotion.greeting' },
+  { id: 'thanks', nameKey: 'emotion.thanks' },
+  { id: 'apology', nameKey: 'emotion.apology' },
+  { id: 'reply', nameKey: 'emotion.reply' },
+  { id: 'cheer', nameKey: 'emotion.cheer' },
+  { id: 'tired', nameKey: 'emotion.tired' },
+  { id: 'daily', nameKey: 'emotion.daily' },
+  { id: 'other', nameKey: 'emotion.other' },
+];
+
+// A set missing any of these feels incomplete in everyday chats
+export const CORE_EMOTIONS: StickerEmotion[] = ['happy', 'sad', 'angry', 'surprised', 'love', 'greeting', 'thanks', 'reply'];
+
+// Sheet layouts for static stickers: bigger grids save calls, single images look best
+export const GRID_LAYOUTS: { size: GridSize; name: string; hintKey: MessageKey }[] = [
+  { size: 1, name: '1 x 1', hintKey: 'grid.bestQuality' },
+  { size: 2, name: '2 x 2', hintKey: 'grid.balanced' },
+  { size: 3, name: '3 x 3', hintKey: 'grid.fewestCalls' },
+];
+
+export const DEFAULT_GRID_SIZE: GridSize = 2;
+
+export const CANDIDATE_COUNTS: CandidateCount[] = [1, 2, 3, 4];
+
+export const DEFAULT_CANDIDATE_COUNT: CandidateCount = 1;
+
+// Candidates of one caption are drawn as the cells of one grid call, with no filler cells
+export const CANDIDATE_GRID_LAYOUTS: Record<CandidateCount, { columns: number; rows: number }> = {
+  1: { columns: 1, rows: 1 },
+  2: { columns: 2, rows: 1 },
+  3: { columns: 3, rows: 1 },
+  4: { columns: 2, rows: 2 }
+};
+
+// Every reference photo goes into every image call, so keep the request small
+export const MAX_REFERENCE_IMAGES = 4;
+
+// Versions kept per sticker; the oldest unpinned ones are dropped to keep saved projects small
+export const MAX_STICKER_VERSIONS = 6;
+
+// Plan undo steps kept, and how close keystrokes in one field must be to count as one step
+export const MAX_PLAN_HISTORY = 50;
+export const PLAN_EDIT_MERGE_MS = 1000;
+
+// "Retry later" on a quota error waits this long, doubling on each further try up to the cap
+export const RETRY_LATER_BASE_MS = 30000;
+export const RETRY_LATER_MAX_MS = 5 * 60 * 1000;
+
+// Creators Market listing limits, in characters
+export const STORE_LISTING_LIMITS = {
+  title: 40,
+  description: 160,
+  copyright: 50,
+  tagsPerSticker: 9,
+};
+
+// LINE only accepts animated sets of 8, 16 or 24
+export const ANIMATED_STICKER_COUNTS: StickerCount[] = [8, 16, 24];
+
+// LINE animated sticker rules: max 320x270, 5-20 frames, 1-4 loops, total playback <= 4s.
+// The model draws the frames as one 3x3 sheet, so we get 9 frames per call.
+export const ANIMATION_SPEC = {
+  width: 320,
+  height: 270,
+  frameCount: 9,
+  sheetColumns: 3,
+  sheetRows: 3,
+  delayMs: 100,
+  plays: 4, // 9 frames x 100ms x 4 loops = 3.6s
+};
+
+// LINE Creators Market submission rules, checked before export
+export const LINE_RULES = {
+  static: {
+    maxWidth: 370,
+    maxHeight: 320,
+    setSizes: [8, 16, 24, 32, 40],
+  },
+  animated: {
+    maxWidth: 320,
+    maxHeight: 270,
+    minSide: 270, // At least one side must be 270px or more
+    maxFileBytes: 300 * 1024,
+    minFrames: 5,
+    maxFrames: 20,
+    minPlays: 1,
+    maxPlays: 4,
+    maxDurationMs: 4000,
+    setSizes: [8, 16, 24],
+  },
+  maxFileBytes: 1024 * 1024,
+  margin: 10,
+  main: { width: 240, height: 240 },
+  tab: { width: 96, height: 74 },
+};
+
+export const DEFAULT_REMOVAL_SETTINGS: BackgroundRemovalSettings = {
+  mode: 'flood',
+  tolerance: 24,
+  feather: 1,
+};
+
+// Picked up glyph by glyph for scripts the main font lacks (Thai, kana, Hangul, simplified Han)
+const SCRIPT_FALLBACK_FONTS = '"Noto Sans JP", "Noto Sans KR", "Noto Sans SC", "Noto Sans Thai"';
+
+export const CAPTION_FONTS: { id: string; nameKey: MessageKey; family: string; weight: number }[] = [
+  { id: 'sans', nameKey: 'font.sans', family: `"Noto Sans TC", ${SCRIPT_FALLBACK_FONTS}, sans-serif`, weight: 900 },
+  { id: 'serif', nameKey: 'font.serif', family: `"Noto Serif TC", "Noto Serif JP", "Noto Serif Thai", ${SCRIPT_FALLBACK_FONTS}, serif`, weight: 900 },
+  { id: 'rounded', nameKey: 'font.rounded', family: `"Arial Rounded MT Bold", "Noto Sans TC", ${SCRIPT_FALLBACK_FONTS}, sans-serif`, weight: 700 },
+  { id: 'handwriting', nameKey: 'font.handwriting', family: `"Comic Sans MS", "Noto Sans TC", ${SCRIPT_FALLBACK_FONTS}, cursive`, weight: 700 },
+];
+
+// name is shown in the UI, prompt is what the text model is asked for
+export const CAPTION_LANGUAGES: { id: CaptionLanguage; name: string; prompt: string }[] = [
+  { id: 'tc', name: '繁中', prompt: 'Traditional Chinese (繁體中文, Taiwan)' },
+  { id: 'en', name: 'English', prompt: 'English' },
+  { id: 'ja', name: '日本語', prompt: 'Japanese' },
+  { id: 'th', name: 'ไทย', prompt: 'Thai' },
+  { id: 'ko', name: '한국어', prompt: 'Korean' },
+  { id: 'sc', name: '简中', prompt: 'Simplified Chinese (简体中文)' },
+  { id: 'id', name: 'Indonesia', prompt: 'Indonesian (Bahasa Indonesia)' },
+];
+
+export const DEFAULT_LANGUAGES: CaptionLanguage[] = ['tc', 'en'];
+
+// Matches the original burned-in caption: bottom centre, dark fill, white outline, soft shadow
+export const DEFAULT_CAPTION_LAYOUT: CaptionLayout = {
+  visible: true,
+  x: 0.5,
+  y: 0.94,
+  rotation: 0,
+  fontId: 'sans',
+  fontSize: 34,
+  fill: '#333333',
+  stroke: '#ffffff',
+  strokeWidth: 6,
+  shadow: true,
+};
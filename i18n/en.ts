@@ -0,0 +1,395 @@
+import { Messages } from './zh-TW';
+
+const en: Messages = {
+  // Common
+  'common.listSeparator': ', ',
+  'common.close': 'Close',
+  'common.cancel': 'Cancel',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.apply': 'Apply',
+
+  // App shell
+  'app.myProjects': 'My projects',
+  'app.providerToggleHint': 'Switch between Gemini and offline mock (no API key needed)',
+  'app.providerMock': 'Offline mock',
+  'app.uiLanguage': 'Interface language',
+  'app.action.plan': 'Generating the plan',
+  'app.action.suggest': 'Suggesting captions',
+  'app.action.translateTo': 'Translating to {language}',
+  'app.action.translate': 'Translating',
+  'app.action.test': 'Test drawing',
+  'app.action.metadata': 'Drafting the store listing',
+  'app.action.characterSheet': 'Character sheet',
+  'app.noMoreSuggestions': 'No other non-duplicate suggestions left',
+  'app.uploadPhotoFirst': 'Please upload a photo first',
+  'app.projectNotFound': 'This project could not be found',
+  'app.openProjectFailed': 'Could not open the project',
+
+  // Setup form
+  'setup.tooManyPhotos': 'Up to {max} reference photos; only the first {room} will be added',
+  'setup.photoProcessingFailed': 'Could not process the image. Please try another photo',
+  'setup.uploadReferenceFirst': 'Please upload a reference photo first',
+  'setup.duplicateItem': '#{number} "{text}"',
+  'setup.step1': '1. Settings',
+  'setup.referencePhotos': 'Reference photos',
+  'setup.referencePhotosHint': 'front, side, full body, accessory close-ups',
+  'setup.removePhoto': 'Remove photo',
+  'setup.photoNotePlaceholder': 'Note (optional)',
+  'setup.photoNoteHint': 'e.g. white patch on the left side, usually wears a red collar',
+  'setup.uploadPhotos': 'Upload photos',
+  'setup.count': 'Number of stickers',
+  'setup.countOption': '{count}',
+  'setup.animatedCountLimit': 'Animated sets have at most 24 stickers',
+  'setup.mode': 'Sticker type',
+  'setup.modeStatic': 'Static',
+  'setup.modeAnimated': 'Animated APNG',
+  'setup.modeStaticHint': '320x320 static stickers',
+  'setup.modeAnimatedHint': '320x270 animated stickers, 9 frames each',
+  'setup.context': 'Theme (optional)',
+  'setup.contextPlaceholder': 'e.g. tired office worker, couple in love...',
+  'setup.style': 'Art style',
+  'setup.customStyles': 'Custom styles',
+  'setup.testLoading': 'Drawing a preview...',
+  'setup.closePreview': 'Close preview',
+  'setup.redrawPreviewHint': 'Redraw with the selected style',
+  'setup.redraw': 'Redraw',
+  'setup.previewBadge': 'Preview',
+  'setup.testAlt': 'Style preview',
+  'setup.testButton': '✨ Draw one to preview the style',
+  'setup.characterSheet': 'Character sheet (optional)',
+  'setup.sheetAlt': 'Character sheet',
+  'setup.sheetApplied': 'In use',
+  'setup.sheetLoading': 'Drawing the character sheet...',
+  'setup.sheetPending': 'Needs approval',
+  'setup.sheetStale': 'The style changed, so this sheet won\'t be used. Please redraw it',
+  'setup.sheetApprove': 'Use this sheet',
+  'setup.sheetDiscardHint': 'Discard this one',
+  'setup.sheetRemoveHint': 'Stop using a character sheet',
+  'setup.sheetDiscard': 'Discard',
+  'setup.sheetRemove': 'Remove',
+  'setup.sheetGenerate': 'Create character sheet',
+  'setup.sheetHint': 'Draws a front, side and back view first. Once approved, every batch follows it so the character stays consistent across the set.',
+  'setup.planLoading': 'AI is brainstorming...',
+  'setup.generatePlan': 'Generate captions',
+  'setup.regeneratePlan': 'Regenerate captions',
+  'setup.step2': '2. Captions and drawing',
+  'setup.emptyPlan': 'Set things up on the left, then click "Generate captions"',
+  'setup.importPlan': 'Import captions (CSV / JSON)',
+  'setup.importPlanHint': 'Use captions written in a spreadsheet instead of generating them',
+  'setup.importDuplicatesConfirm': 'The file has near-duplicate captions:\n{groups}\nImport anyway?',
+  'setup.importReplaceConfirm': 'Importing replaces the current {count} lines. Continue?',
+  'setup.importFailed': 'Import failed: {message}',
+  'setup.exportPlanHint': 'Download the captions to edit in a spreadsheet and import again',
+  'setup.undoPlan': 'Undo (Ctrl+Z)',
+  'setup.redoPlan': 'Redo (Ctrl+Shift+Z)',
+  'setup.editedByHand': 'Edited by hand',
+  'setup.regenerateEditedConfirm': '{count} lines were edited by hand and will be replaced (Ctrl+Z undoes this). Continue?',
+  'setup.switchEditedConfirm': 'Switching language overwrites these hand-edited lines:\n{lines}\nContinue? (Ctrl+Z undoes this)',
+  'setup.emptyPlanHint': 'The AI will plan {count} stickers for you',
+  'setup.duplicatesTitle': 'Heads up: some captions are the same or very similar',
+  'setup.duplicatesHint': 'Use "New caption" to change them so the stickers don\'t repeat.',
+  'setup.captionLanguages': 'Caption languages',
+  'setup.showLanguage': 'Show this language on the stickers',
+  'setup.bilingual': 'Chinese + English',
+  'setup.removeLanguage': 'Remove this language',
+  'setup.addLanguageHint': 'The AI translates every caption; each language is exported as its own pack',
+  'setup.addLanguage': '+ Add language',
+  'setup.missingTranslations': '{count} sticker(s) are missing translations or need them redone after an edit',
+  'setup.fillTranslations': 'Translate the rest',
+  'setup.emotionCoverage': 'Emotion mix',
+  'setup.missingEmotions': 'Missing common emotions: {emotions}. Change the category and drawing direction of a few lines to cover them.',
+  'setup.dominantEmotion': '"{emotion}" makes up over 40% of the set, which may feel repetitive.',
+  'setup.captionActions': 'New caption / more options',
+  'setup.action.replace': 'New caption',
+  'setup.action.alternatives': 'Give me three options',
+  'setup.action.funnier': 'Funnier',
+  'setup.action.politer': 'Politer',
+  'setup.action.shorter': 'Shorter',
+  'setup.keepOriginal': 'Keep the original',
+  'setup.emotion': 'Emotion category',
+  'setup.directionPlaceholder': 'Drawing direction; leave empty to follow the caption',
+  'setup.directionHint': 'What to draw (action, pose, props), e.g. bowing deeply with hands together',
+  'setup.gridSize': 'Stickers per drawing call',
+  'setup.gridCalls': 'About {count} API calls',
+  'setup.resumeHint': 'Keeps finished stickers and only draws the unfinished or failed ones',
+  'setup.resume': 'Resume last run ({count})',
+  'setup.candidates': 'Candidates per sticker',
+  'setup.candidatesHint': '{count} drafts per sticker to pick from, {calls} drawing calls in total',
+  'setup.start': 'Start drawing',
+  'setup.startAnimated': 'Start drawing animated stickers',
+
+  // Results grid
+  'results.untranslatedConfirm': '{count} stickers have no {language} caption, or one translated before the caption was edited, and will keep their current text. Export anyway?',
+  'results.validationFailed': 'Something went wrong while checking the files. Please try again',
+  'results.applyFailed': 'Could not apply. Please try again',
+  'results.editCaptionPrompt': 'Edit the caption, then redraw',
+  'results.editCaption': 'Edit caption',
+  'results.retryLater': 'Try later',
+  'results.retryLaterHint': 'Redraws on its own after the wait the server asks for; without one, the wait doubles each time the quota runs out again',
+  'results.retryScheduled': 'Redrawing in {seconds}s',
+  'results.retryCancelHint': 'Click to cancel the scheduled redraw',
+  'results.retry': 'Retry',
+  'results.redrawFailed': 'Redraw failed: {message}',
+  'results.titleGenerating': 'Generating',
+  'results.title': 'Results',
+  'results.generating': 'The AI is drawing... good pictures are worth the wait! ({completed}/{total})',
+  'results.batchProgress': 'Drawing {current} of {total} · about {minutes} min left',
+  'results.done': 'Done! {count} stickers in total',
+  'results.resumeHint': 'Only draws stickers that are unfinished or failed',
+  'results.resume': 'Continue ({count})',
+  'results.startOver': 'Start a new set',
+  'results.exportLanguageHint': 'One pack per language: same pictures, different captions',
+  'results.exportCurrent': 'Current captions',
+  'results.exportLanguage': '{language} pack',
+  'results.validating': 'Checking specs...',
+  'results.zipFailed': 'Something went wrong while building the ZIP. Please try again',
+  'results.download': 'Download pack (ZIP)',
+  'results.drawing': 'Drawing...',
+  'results.waiting': 'Waiting',
+  'results.redraw': 'Redraw',
+  'results.background': 'Background',
+  'results.touchUp': 'Touch up',
+  'results.captionLayout': 'Caption layout',
+  'results.pinVersion': 'Use this version',
+  'results.previousVersion': 'Previous version',
+  'results.nextVersion': 'Next version',
+  'results.versionInfo': 'Version {index}/{total} · {source} · {time}',
+  'results.sourceGrid': 'Grid slice',
+  'results.sourceSingle': 'Single',
+  'results.awaitingPick': '{count} waiting for a pick',
+  'results.keyboardHint': 'Keys: ← → switch sticker · ↑ ↓ browse versions · 1–4 pick a candidate · Enter keep the one shown',
+  'results.pickCandidate': 'Pick candidate {number}',
+
+  // Caption editor
+  'captionEditor.title': 'Caption layout · #{number}',
+  'captionEditor.dragHint': 'Drag on the image to move the caption',
+  'captionEditor.visible': 'Show caption',
+  'captionEditor.font': 'Font',
+  'captionEditor.fontSize': 'Size',
+  'captionEditor.rotation': 'Rotation',
+  'captionEditor.fill': 'Text color',
+  'captionEditor.stroke': 'Outline color',
+  'captionEditor.strokeWidth': 'Outline width',
+  'captionEditor.shadow': 'Shadow',
+  'captionEditor.reset': 'Reset to default',
+  'captionEditor.applyToAll': 'Apply to all stickers',
+
+  // Custom styles
+  'styles.defaultName': 'Custom style',
+  'styles.copyName': '{name} copy',
+  'styles.nameAndPromptRequired': 'Please enter a style name and prompt',
+  'styles.saveFailed': 'Could not save the style',
+  'styles.confirmDelete': 'Delete "{name}"?',
+  'styles.deleteFailed': 'Could not delete the style',
+  'styles.imageFailed': 'Could not process the image. Please try another one',
+  'styles.imported': 'Imported {count} style(s)',
+  'styles.importFailed': 'Import failed: {message}',
+  'styles.fileInvalidJson': 'The file is not valid JSON',
+  'styles.fileNoStyles': 'No style data found',
+  'styles.fileNothingToImport': 'The file has no styles that can be imported',
+  'styles.duplicate': 'Copy as a new style',
+  'styles.new': 'New',
+  'styles.importHint': 'Import from a JSON file',
+  'styles.import': 'Import',
+  'styles.exportHint': 'Export as a JSON file to share',
+  'styles.export': 'Export',
+  'styles.mine': 'My styles',
+  'styles.mineEmpty': 'No custom styles yet. Copy one of the built-in styles below to start.',
+  'styles.builtIn': 'Built-in styles',
+  'styles.selectToEdit': 'Select or create a style to edit',
+  'styles.name': 'Name',
+  'styles.namePlaceholder': 'e.g. Watercolor picture book',
+  'styles.prompt': 'Prompt (English works best)',
+  'styles.color': 'Color',
+  'styles.icon': 'Icon',
+  'styles.promptPlaceholder': 'e.g. watercolor picture book style, soft edges, pastel palette, white background',
+  'styles.exampleAlt': 'Example image',
+  'styles.example': 'Example image (optional; the model copies its look)',
+  'styles.uploadExample': 'Upload image',
+  'styles.removeExample': 'Remove example image',
+  'styles.create': 'Create',
+  'styles.save': 'Save',
+
+  // Background and touch-up editors
+  'backgroundEditor.title': 'Background removal · #{number}',
+  'backgroundEditor.original': 'Original',
+  'backgroundEditor.preview': 'Preview',
+  'backgroundEditor.mode': 'Method',
+  'backgroundEditor.flood': 'Connected to edge',
+  'backgroundEditor.threshold': 'All white',
+  'backgroundEditor.floodHint': 'Only removes white connected to the border, keeping whites inside such as eyes and teeth.',
+  'backgroundEditor.thresholdHint': 'Removes every near-white pixel (the old behaviour).',
+  'backgroundEditor.tolerance': 'Tolerance',
+  'backgroundEditor.feather': 'Edge feather',
+  'maskEditor.applyFailed': 'Could not apply. Please try again',
+  'maskEditor.title': 'Manual touch-up · #{number}',
+  'maskEditor.original': 'Original',
+  'maskEditor.preview': 'Preview',
+  'maskEditor.erase': 'Erase',
+  'maskEditor.restore': 'Restore',
+  'maskEditor.brush': 'Brush',
+  'maskEditor.zoomOut': 'Smaller',
+  'maskEditor.zoomIn': 'Larger',
+  'maskEditor.undoHint': 'Undo (Ctrl+Z)',
+  'maskEditor.undo': 'Undo',
+  'maskEditor.clearHint': 'Clear all manual edits',
+  'maskEditor.clear': 'Clear',
+  'maskEditor.legend': 'Red = erase, green = restore the original. The faded layer is the raw AI image.',
+  'maskEditor.allFramesHint': ' Edits apply to every frame.',
+
+  // Projects
+  'projects.defaultName': 'Sticker project {date}',
+  'projects.confirmDelete': 'Delete "{name}"? This cannot be undone.',
+  'projects.empty': 'No saved projects yet. Projects are saved automatically once captions are generated.',
+  'projects.progress': '{completed}/{total} done',
+  'projects.open': 'Open',
+  'projects.delete': 'Delete project',
+
+  // LINE validation
+  'validation.pass': 'Pass',
+  'validation.warn': 'Warning',
+  'validation.fail': 'Fail',
+  'validation.title': 'LINE submission check',
+  'validation.checkLine': '{rule}: {message}',
+  'validation.summaryFail': 'Some items break the rules; the set may be rejected in review.',
+  'validation.summaryWarn': 'Check the warnings before submitting.',
+  'validation.summaryPass': 'Everything meets LINE\'s rules!',
+  'validation.downloadAnyway': 'Download anyway',
+  'validation.download': 'Download ZIP',
+  'validation.rule.size': 'Size',
+  'validation.rule.fileSize': 'File size',
+  'validation.rule.content': 'Content',
+  'validation.rule.margin': 'Transparent margin',
+  'validation.rule.animation': 'Animation',
+  'validation.rule.frames': 'Frames',
+  'validation.rule.plays': 'Loops',
+  'validation.rule.duration': 'Duration',
+  'validation.rule.read': 'Read',
+  'validation.rule.count': 'Sticker count',
+  'validation.sizeExact': '{size}, must be {expected}',
+  'validation.sizeTooLarge': '{size}, larger than the {max} limit',
+  'validation.sizeTooSmall': '{size}, one side must be at least {min}px',
+  'validation.sizeOdd': '{size}, width and height must be even',
+  'validation.fileTooLarge': '{size}, over the {max} limit',
+  'validation.empty': 'The image is fully transparent',
+  'validation.marginOk': '{margin}px transparent margin on every side',
+  'validation.marginCrossed': '{count} pixels fall inside the {margin}px margin; the set may be rejected',
+  'validation.notApng': 'Not an APNG animation',
+  'validation.frames': '{count} frames',
+  'validation.framesOutOfRange': '{count} frames, must be {min}–{max}',
+  'validation.plays': '{count} loops',
+  'validation.playsOutOfRange': '{count} loops, must be {min}–{max}',
+  'validation.infinite': 'Infinite',
+  'validation.duration': '{seconds}s',
+  'validation.durationTooLong': '{seconds}s, must not exceed {max}s in total',
+  'validation.unreadable': 'Could not read the image',
+  'validation.count': '{count} stickers',
+  'validation.countNotAllowed': '{count} stickers, LINE only accepts {allowed}',
+  'validation.generated': 'Created',
+  'validation.missingMain': 'Main image is missing',
+  'validation.rule.listing': 'Listing ({language})',
+  'validation.withinLimits': 'Within LINE\'s limits',
+  'validation.missingField': '{field} is empty',
+  'validation.tooLong': '{field} has {count} characters, the limit is {limit}',
+  'validation.tooManyTags': '{stickers} have more than {limit} tags',
+  'validation.missingTab': 'Chat tab image is missing',
+
+  // Styles, emotions, fonts and layouts
+  'style.shojo_manga': 'Shojo manga',
+  'style.american_3d': 'American 3D',
+  'style.hand_drawn_sketch': 'Pencil sketch',
+  'style.chibi_cute': 'Cute chibi',
+  'style.ukiyo_e': 'Ukiyo-e',
+  'style.marker_doodle': 'Marker doodle',
+  'style.retro_pop': 'Retro pop',
+  'style.crayon': 'Crayon',
+  'emotion.happy': 'Happy',
+  'emotion.love': 'Love',
+  'emotion.sad': 'Sad',
+  'emotion.angry': 'Angry',
+  'emotion.surprised': 'Surprised',
+  'emotion.greeting': 'Greeting',
+  'emotion.thanks': 'Thanks',
+  'emotion.apology': 'Apology',
+  'emotion.reply': 'Reply',
+  'emotion.cheer': 'Cheer',
+  'emotion.tired': 'Tired',
+  'emotion.daily': 'Daily life',
+  'emotion.other': 'Other',
+  'font.sans': 'Sans',
+  'font.serif': 'Serif',
+  'font.rounded': 'Rounded',
+  'font.handwriting': 'Handwriting',
+  'grid.bestQuality': 'Best quality',
+  'grid.balanced': 'Balanced',
+  'grid.fewestCalls': 'Fewest calls',
+
+  // Generation errors
+  'error.failed': '{action} failed: {message}\n{hint}',
+  'error.auth.message': 'The API key is invalid or missing',
+  'error.auth.hint': 'Check that the VITE_API_KEY environment variable holds a key starting with "AIza", or switch to offline mock.',
+  'error.quota.message': 'The API quota has been reached',
+  'error.quota.hint': 'Quotas usually reset every minute or every day. Please try again later.',
+  'error.overloaded.message': 'The model is busy right now',
+  'error.overloaded.hint': 'The server is temporarily overloaded; retrying usually works.',
+  'error.safety.message': 'Blocked by the safety filter',
+  'error.safety.hint': 'The caption may have been flagged as sensitive. Edit it and redraw.',
+  'error.invalid_request.message': 'The request was rejected as invalid',
+  'error.invalid_request.hint': 'A reference photo may be too large or in an unsupported format. Try another photo or edit the caption.',
+  'error.no_image.message': 'The model returned no image',
+  'error.no_image.hint': 'The model sometimes replies with text only; redrawing once usually fixes it.',
+  'error.no_text.message': 'The model returned no text',
+  'error.no_text.hint': 'The reply was empty; trying again usually works.',
+  'error.duplicates.message': 'Every suggestion repeats an existing caption',
+  'error.duplicates.hint': 'Try again, or ask for a rewrite in another tone.',
+  'error.slicing.message': 'Slicing the sheet failed',
+  'error.slicing.hint': 'The model drew the wrong number of characters. Redrawing this one uses a single image instead.',
+  'error.processing.message': 'Image processing failed',
+  'error.processing.hint': 'Background removal or captioning failed. Please redraw this sticker.',
+  'error.unknown.message': 'Generation failed',
+  'error.unknown.hint': 'Something unexpected went wrong. Please try again.',
+
+  // Model and processing errors
+  'gemini.keyMissing': 'No API key is set. Check that the Vercel environment variable VITE_API_KEY is configured.',
+  'gemini.keyMalformed': 'The key you entered ({prefix}...) is malformed. Make sure you copied the API key starting with "AIza", not the Project ID.',
+  'gemini.keyInvalid': 'The API key is invalid. Check the Vercel environment variable VITE_API_KEY.',
+  'gemini.blocked': 'Generation was blocked (Safety: {reason})',
+  'gemini.noPlan': 'The AI returned no caption draft. Please try again.',
+  'gemini.planTooShort': 'The AI only came up with {got} distinct captions ({count} needed). Please try again.',
+  'gemini.noSuggestions': 'The AI returned no captions. Please try again.',
+  'gemini.suggestionsDuplicate': 'Every caption the AI suggested repeats an existing one. Please try again.',
+  'gemini.noMetadata': 'The AI returned no store listing. Please try again.',
+  'gemini.noTranslations': 'The AI returned no translations. Please try again.',
+  'gemini.noCharacterSheet': 'Generation failed: the model returned no character sheet',
+  'gemini.noImage': 'Generation failed: the model returned no image',
+  'gemini.noFrames': 'Generation failed: the model returned no animation frames',
+  'processing.sliceFailed': 'Slicing failed: the model drew {found} characters ({expected} expected). Please generate again',
+
+  // Plan files
+  'planFile.csvNoHeader': 'The first CSV row must name the columns ({columns})',
+  'planFile.invalidJson': 'Not a valid JSON file',
+  'planFile.jsonNoPlan': 'No captions found in the file (plan array)',
+  'planFile.emptyRows': 'Rows {rows} have no caption',
+  'planFile.badCount': '{count} rows, but a LINE set must have {allowed} stickers',
+
+  // Store listing
+  'metadata.open': 'Store listing',
+  'metadata.openHint': 'Draft the title, description, copyright and tags Creators Market asks for',
+  'metadata.heading': 'Store listing (LINE Creators Market)',
+  'metadata.hint': 'Drafted by the AI from the usage, style and captions. Edit anything.',
+  'metadata.draft': 'Draft with AI',
+  'metadata.redraft': 'Redraft',
+  'metadata.redraftConfirm': 'Redrafting replaces the titles, descriptions and tags (the copyright is kept). Continue?',
+  'metadata.empty': 'No listing yet. Click "Draft with AI" to start.',
+  'metadata.title': 'Title',
+  'metadata.description': 'Description',
+  'metadata.copyright': 'Copyright',
+  'metadata.copyrightHint': 'Change this to your own or your team\'s name. Shared by every language.',
+  'metadata.copyrightHalfWidth': 'The copyright may only use half-width letters, digits and symbols.',
+  'metadata.tags': 'Search tags',
+  'metadata.tagsPlaceholder': 'Separated by commas',
+  'metadata.zipNote': 'metadata.json and metadata.txt are added to the pack download.'
+};
+
+export default en;
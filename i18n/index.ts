@@ -0,0 +1,88 @@
+import { Locale } from '../types';
+import zhTW, { MessageKey, Messages } from './zh-TW';
+import en from './en';
+import ja from './ja';
+
+// ==========================================
+// UI Localization
+// Every user-facing string lives in a catalog; components and services call t().
+// Traditional Chinese is the source catalog, the others must have the same keys.
+// ==========================================
+
+export type { MessageKey };
+
+const LOCALE_STORAGE_KEY = 'ui_locale';
+
+export const LOCALES: { id: Locale; name: string }[] = [
+  { id: 'zh-TW', name: '繁體中文' },
+  { id: 'en', name: 'English' },
+  { id: 'ja', name: '日本語' }
+];
+
+const CATALOGS: Record<Locale, Messages> = {
+  'zh-TW': zhTW,
+  en,
+  ja
+};
+
+const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && value in CATALOGS;
+
+/**
+ * Resolve the initial UI language.
+ * Priority: saved choice > browser language > Traditional Chinese.
+ */
+const resolveInitialLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // localStorage can be unavailable (private mode); fall through
+  }
+
+  const browser = typeof navigator !== 'undefined' ? navigator.language.toLowerCase() : '';
+  if (browser.startsWith('ja')) return 'ja';
+  if (browser.startsWith('en')) return 'en';
+  return 'zh-TW';
+};
+
+let activeLocale: Locale = resolveInitialLocale();
+
+const applyDocumentLanguage = (locale: Locale) => {
+  if (typeof document !== 'undefined') document.documentElement.lang = locale;
+};
+
+applyDocumentLanguage(activeLocale);
+
+export const getLocale = (): Locale => activeLocale;
+
+// Callers re-render afterwards (App keeps the locale in state)
+export const setLocale = (locale: Locale) => {
+  activeLocale = locale;
+  applyDocumentLanguage(locale);
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch {
+    // Selection still applies for this session
+  }
+};
+
+/**
+ * The message for `key` in the active language, with {name} placeholders
+ * filled from `params`.
+ */
+export const t = (key: MessageKey, params?: Record<string, string | number>): string => {
+  const template = CATALOGS[activeLocale][key] ?? zhTW[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
+
+// Lists inside sentences, e.g. "開心、難過" / "Happy, Sad"
+export const formatList = (items: string[]) => items.join(t('common.listSeparator'));
+
+export const formatDateTime = (timestamp: number) => new Date(timestamp).toLocaleString(activeLocale);
+
+export const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString(activeLocale);
+
+export const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(activeLocale, { hour: '2-digit', minute: '2-digit' });
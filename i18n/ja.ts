@@ -0,0 +1,395 @@
+import { Messages } from './zh-TW';
+
+const ja: Messages = {
+  // Common
+  'common.listSeparator': '、',
+  'common.close': '閉じる',
+  'common.cancel': 'キャンセル',
+  'common.edit': '編集',
+  'common.delete': '削除',
+  'common.apply': '適用',
+
+  // App shell
+  'app.myProjects': 'マイプロジェクト',
+  'app.providerToggleHint': 'Gemini / オフラインモック（API キー不要）を切り替え',
+  'app.providerMock': 'オフラインモック',
+  'app.uiLanguage': '表示言語',
+  'app.action.plan': 'プランの作成',
+  'app.action.suggest': '候補の作成',
+  'app.action.translateTo': '{language}への翻訳',
+  'app.action.translate': '翻訳',
+  'app.action.test': '試し描き',
+  'app.action.metadata': '販売情報の下書き',
+  'app.action.characterSheet': 'キャラクターシート',
+  'app.noMoreSuggestions': '重複しない候補はもうありません',
+  'app.uploadPhotoFirst': '先に写真をアップロードしてください',
+  'app.projectNotFound': 'このプロジェクトが見つかりません',
+  'app.openProjectFailed': 'プロジェクトを開けませんでした',
+
+  // Setup form
+  'setup.tooManyPhotos': '参考写真は最大 {max} 枚です。最初の {room} 枚だけ追加します',
+  'setup.photoProcessingFailed': '画像を処理できませんでした。別の写真でお試しください',
+  'setup.uploadReferenceFirst': '先に参考写真をアップロードしてください',
+  'setup.duplicateItem': '#{number}「{text}」',
+  'setup.step1': '1. 設定',
+  'setup.referencePhotos': '参考写真',
+  'setup.referencePhotosHint': '正面・横顔・全身・小物のアップ',
+  'setup.removePhoto': '写真を削除',
+  'setup.photoNotePlaceholder': 'メモ（任意）',
+  'setup.photoNoteHint': '例：左側に白い斑点、いつも赤い首輪',
+  'setup.uploadPhotos': '写真を追加',
+  'setup.count': 'スタンプの数',
+  'setup.countOption': '{count}個',
+  'setup.animatedCountLimit': 'アニメーションスタンプは最大 24 個です',
+  'setup.mode': 'スタンプの種類',
+  'setup.modeStatic': '静止画',
+  'setup.modeAnimated': 'アニメ APNG',
+  'setup.modeStaticHint': '320x320 の静止画スタンプ',
+  'setup.modeAnimatedHint': '320x270 のアニメーションスタンプ（各 9 フレーム）',
+  'setup.context': 'テーマ（任意）',
+  'setup.contextPlaceholder': '例：疲れた会社員、ラブラブなカップル…',
+  'setup.style': '画風',
+  'setup.customStyles': 'カスタム画風',
+  'setup.testLoading': '試し描き中...',
+  'setup.closePreview': 'プレビューを閉じる',
+  'setup.redrawPreviewHint': '選択中の画風で描き直す',
+  'setup.redraw': '描き直す',
+  'setup.previewBadge': 'プレビュー',
+  'setup.testAlt': '試し描きプレビュー',
+  'setup.testButton': '✨ 1枚試し描き（画風プレビュー）',
+  'setup.characterSheet': 'キャラクターシート（任意）',
+  'setup.sheetAlt': 'キャラクターシート',
+  'setup.sheetApplied': '適用中',
+  'setup.sheetLoading': 'キャラクターシートを作成中...',
+  'setup.sheetPending': '未承認',
+  'setup.sheetStale': '画風が変わったため、このシートは使われません。描き直してください',
+  'setup.sheetApprove': 'これを使う',
+  'setup.sheetDiscardHint': 'この案を破棄',
+  'setup.sheetRemoveHint': 'キャラクターシートを使わない',
+  'setup.sheetDiscard': '破棄',
+  'setup.sheetRemove': '削除',
+  'setup.sheetGenerate': 'キャラクターシートを作成',
+  'setup.sheetHint': '正面・横・背面のシートを先に描きます。承認すると全バッチがこれを参照し、セット全体でキャラクターがそろいます。',
+  'setup.planLoading': 'AI が考え中...',
+  'setup.generatePlan': '文字案を作成',
+  'setup.regeneratePlan': '文字案を作り直す',
+  'setup.step2': '2. 文字案と描画',
+  'setup.emptyPlan': '左側で設定して「文字案を作成」を押してください',
+  'setup.importPlan': '文字案を読み込む (CSV / JSON)',
+  'setup.importPlanHint': 'スプレッドシートで書いた文字をそのまま使います（AI 生成なし）',
+  'setup.importDuplicatesConfirm': 'ファイルに似た文字があります：\n{groups}\nそれでも読み込みますか？',
+  'setup.importReplaceConfirm': '読み込むと今の {count} 行が置き換わります。よろしいですか？',
+  'setup.importFailed': '読み込みに失敗しました：{message}',
+  'setup.exportPlanHint': '文字案をダウンロードし、スプレッドシートで編集して読み込み直せます',
+  'setup.undoPlan': '元に戻す (Ctrl+Z)',
+  'setup.redoPlan': 'やり直す (Ctrl+Shift+Z)',
+  'setup.editedByHand': '手動で編集済み',
+  'setup.regenerateEditedConfirm': '{count} 行は手動で編集されています。作り直すと置き換わります（Ctrl+Z で元に戻せます）。よろしいですか？',
+  'setup.switchEditedConfirm': '言語を切り替えると、手動で編集した次の行が上書きされます：\n{lines}\nよろしいですか？（Ctrl+Z で元に戻せます）',
+  'setup.emptyPlanHint': 'AI が {count} 個のスタンプ内容を考えます',
+  'setup.duplicatesTitle': '注意：重複またはよく似た文字があります',
+  'setup.duplicatesHint': '「別の文にする」で変更して、スタンプの重複を避けましょう。',
+  'setup.captionLanguages': 'スタンプの文字言語',
+  'setup.showLanguage': 'この言語をスタンプに表示',
+  'setup.bilingual': '中国語＋英語',
+  'setup.removeLanguage': 'この言語を削除',
+  'setup.addLanguageHint': 'AI が全文字を翻訳し、書き出し時は言語ごとにパックを作ります',
+  'setup.addLanguage': '＋ 言語を追加',
+  'setup.missingTranslations': '{count} 個のスタンプに未翻訳、または修正後に翻訳し直す必要がある言語があります',
+  'setup.fillTranslations': '残りを翻訳',
+  'setup.emotionCoverage': '感情の内訳',
+  'setup.missingEmotions': 'よく使う感情が足りません：{emotions}。いくつかの分類と描画指示を変えて補いましょう。',
+  'setup.dominantEmotion': '「{emotion}」が4割を超えていて、単調になるかもしれません。',
+  'setup.captionActions': '別の文にする / その他',
+  'setup.action.replace': '別の文にする',
+  'setup.action.alternatives': '3つの候補を出す',
+  'setup.action.funnier': 'もっと面白く',
+  'setup.action.politer': 'もっと丁寧に',
+  'setup.action.shorter': 'もっと短く',
+  'setup.keepOriginal': '元のままにする',
+  'setup.emotion': '感情の分類',
+  'setup.directionPlaceholder': '描画指示（空欄なら文字から考えます）',
+  'setup.directionHint': '描画指示（動作・ポーズ・小物）。例：bowing deeply with hands together',
+  'setup.gridSize': '1回で描く数',
+  'setup.gridCalls': 'API 呼び出し 約 {count} 回',
+  'setup.resumeHint': '完成したスタンプは残し、未完成・失敗分だけ描きます',
+  'setup.resume': '前回の続きから ({count})',
+  'setup.candidates': 'スタンプごとの候補数',
+  'setup.candidatesHint': 'スタンプごとに {count} 枚の下書きから選べます。描画は計 {calls} 回',
+  'setup.start': '描画を開始',
+  'setup.startAnimated': 'アニメーションスタンプの描画を開始',
+
+  // Results grid
+  'results.untranslatedConfirm': '{count} 枚のスタンプに{language}の文字がないか、文字の修正後に翻訳し直していないため、今の文字のままになります。それでも書き出しますか？',
+  'results.validationFailed': 'ファイルの確認中にエラーが発生しました。もう一度お試しください',
+  'results.applyFailed': '適用できませんでした。もう一度お試しください',
+  'results.editCaptionPrompt': '文字を直して描き直します',
+  'results.editCaption': '文字を直す',
+  'results.retryLater': '後で再試行',
+  'results.retryLaterHint': 'サーバーが指定した時間だけ待ってから自動で描き直します。指定がなければ、再び上限に達するたびに待ち時間は倍になります',
+  'results.retryScheduled': '{seconds} 秒後に描き直し',
+  'results.retryCancelHint': 'クリックで予定した描き直しを取り消します',
+  'results.retry': '再試行',
+  'results.redrawFailed': '描き直しに失敗しました：{message}',
+  'results.titleGenerating': '生成中',
+  'results.title': '生成結果',
+  'results.generating': 'AI が描いています… 良い絵は待つ価値あり！({completed}/{total})',
+  'results.batchProgress': '{current} / {total} 回目の描画 · 残り約 {minutes} 分',
+  'results.done': '完成！全 {count} 枚',
+  'results.resumeHint': '未完成または失敗したスタンプだけを描きます',
+  'results.resume': '続きを生成 ({count})',
+  'results.startOver': '新しく作り直す',
+  'results.exportLanguageHint': '言語ごとに 1 パック。絵は同じで文字だけ違います',
+  'results.exportCurrent': '今の文字',
+  'results.exportLanguage': '{language}版',
+  'results.validating': '規格を確認中...',
+  'results.zipFailed': 'ZIP の作成中にエラーが発生しました。もう一度お試しください',
+  'results.download': 'パックをダウンロード (ZIP)',
+  'results.drawing': '描画中...',
+  'results.waiting': '待機中',
+  'results.redraw': '描き直す',
+  'results.background': '背景除去',
+  'results.touchUp': '手動修正',
+  'results.captionLayout': '文字レイアウト',
+  'results.pinVersion': 'この版を使う',
+  'results.previousVersion': '前の版',
+  'results.nextVersion': '次の版',
+  'results.versionInfo': '版 {index}/{total} · {source} · {time}',
+  'results.sourceGrid': 'グリッドから切り出し',
+  'results.sourceSingle': '単体で描画',
+  'results.awaitingPick': '{count} 枚が選択待ち',
+  'results.keyboardHint': 'キー：← → スタンプ切替 · ↑ ↓ 版を見る · 1–4 候補を選ぶ · Enter 表示中の版にする',
+  'results.pickCandidate': '候補 {number} を選ぶ',
+
+  // Caption editor
+  'captionEditor.title': '文字レイアウト · #{number}',
+  'captionEditor.dragHint': '画像をドラッグして文字の位置を調整',
+  'captionEditor.visible': '文字を表示',
+  'captionEditor.font': 'フォント',
+  'captionEditor.fontSize': 'サイズ',
+  'captionEditor.rotation': '回転',
+  'captionEditor.fill': '文字の色',
+  'captionEditor.stroke': 'フチの色',
+  'captionEditor.strokeWidth': 'フチの太さ',
+  'captionEditor.shadow': '影',
+  'captionEditor.reset': '初期設定に戻す',
+  'captionEditor.applyToAll': 'すべてのスタンプに適用',
+
+  // Custom styles
+  'styles.defaultName': 'カスタム画風',
+  'styles.copyName': '{name} のコピー',
+  'styles.nameAndPromptRequired': '画風の名前とプロンプトを入力してください',
+  'styles.saveFailed': '画風を保存できませんでした',
+  'styles.confirmDelete': '「{name}」を削除しますか？',
+  'styles.deleteFailed': '画風を削除できませんでした',
+  'styles.imageFailed': '画像を処理できませんでした。別の画像でお試しください',
+  'styles.imported': '{count} 個の画風を読み込みました',
+  'styles.importFailed': '読み込みに失敗しました: {message}',
+  'styles.fileInvalidJson': 'ファイルが有効な JSON ではありません',
+  'styles.fileNoStyles': '画風データが見つかりません',
+  'styles.fileNothingToImport': '読み込める画風がファイルにありません',
+  'styles.duplicate': '新しい画風として複製',
+  'styles.new': '新規',
+  'styles.importHint': 'JSON ファイルから読み込む',
+  'styles.import': '読み込む',
+  'styles.exportHint': 'JSON ファイルに書き出して共有',
+  'styles.export': '書き出す',
+  'styles.mine': 'マイ画風',
+  'styles.mineEmpty': 'カスタム画風はまだありません。下の標準画風を複製して始めましょう。',
+  'styles.builtIn': '標準画風',
+  'styles.selectToEdit': '編集する画風を選ぶか新規作成してください',
+  'styles.name': '名前',
+  'styles.namePlaceholder': '例：水彩絵本',
+  'styles.prompt': 'プロンプト（英語がおすすめ）',
+  'styles.color': '色',
+  'styles.icon': 'アイコン',
+  'styles.promptPlaceholder': '例：watercolor picture book style, soft edges, pastel palette, white background',
+  'styles.exampleAlt': '見本画像',
+  'styles.example': '見本画像（任意。モデルがこの画風を参考にします）',
+  'styles.uploadExample': '画像をアップロード',
+  'styles.removeExample': '見本画像を削除',
+  'styles.create': '作成',
+  'styles.save': '保存',
+
+  // Background and touch-up editors
+  'backgroundEditor.title': '背景除去の調整 · #{number}',
+  'backgroundEditor.original': '元画像',
+  'backgroundEditor.preview': 'プレビュー',
+  'backgroundEditor.mode': '除去方法',
+  'backgroundEditor.flood': 'フチから連続',
+  'backgroundEditor.threshold': '白をすべて',
+  'backgroundEditor.floodHint': 'フチにつながる白だけを除去し、目や歯など内側の白は残します。',
+  'backgroundEditor.thresholdHint': '白に近いピクセルをすべて除去します（旧方式）。',
+  'backgroundEditor.tolerance': '許容度',
+  'backgroundEditor.feather': 'フチのぼかし',
+  'maskEditor.applyFailed': '適用できませんでした。もう一度お試しください',
+  'maskEditor.title': '手動修正 · #{number}',
+  'maskEditor.original': '元画像',
+  'maskEditor.preview': 'プレビュー',
+  'maskEditor.erase': '消す',
+  'maskEditor.restore': '戻す',
+  'maskEditor.brush': 'ブラシ',
+  'maskEditor.zoomOut': '小さく',
+  'maskEditor.zoomIn': '大きく',
+  'maskEditor.undoHint': '元に戻す (Ctrl+Z)',
+  'maskEditor.undo': '元に戻す',
+  'maskEditor.clearHint': '手動修正をすべて消去',
+  'maskEditor.clear': '消去',
+  'maskEditor.legend': '赤 = 消す、緑 = 元に戻す。薄い下絵は AI の元画像です。',
+  'maskEditor.allFramesHint': '修正はすべてのフレームに適用されます。',
+
+  // Projects
+  'projects.defaultName': 'スタンププロジェクト {date}',
+  'projects.confirmDelete': '「{name}」を削除しますか？元に戻せません。',
+  'projects.empty': '保存済みのプロジェクトはありません。文字案を作成すると自動で保存されます。',
+  'projects.progress': '{completed}/{total} 個完成',
+  'projects.open': '開く',
+  'projects.delete': 'プロジェクトを削除',
+
+  // LINE validation
+  'validation.pass': '合格',
+  'validation.warn': '警告',
+  'validation.fail': '不合格',
+  'validation.title': 'LINE 申請規格チェック',
+  'validation.checkLine': '{rule}：{message}',
+  'validation.summaryFail': '規格に合わない項目があり、審査で却下される可能性があります。',
+  'validation.summaryWarn': '警告の項目を確認してから申請してください。',
+  'validation.summaryPass': 'すべての項目が LINE の規格を満たしています！',
+  'validation.downloadAnyway': 'それでもダウンロード',
+  'validation.download': 'ZIP をダウンロード',
+  'validation.rule.size': 'サイズ',
+  'validation.rule.fileSize': 'ファイルサイズ',
+  'validation.rule.content': '内容',
+  'validation.rule.margin': '透明な余白',
+  'validation.rule.animation': 'アニメーション',
+  'validation.rule.frames': 'フレーム数',
+  'validation.rule.plays': 'ループ回数',
+  'validation.rule.duration': '再生時間',
+  'validation.rule.read': '読み込み',
+  'validation.rule.count': 'スタンプ数',
+  'validation.sizeExact': '{size}、{expected} である必要があります',
+  'validation.sizeTooLarge': '{size}、上限 {max} を超えています',
+  'validation.sizeTooSmall': '{size}、少なくとも一辺は {min}px 以上必要です',
+  'validation.sizeOdd': '{size}、幅と高さは偶数である必要があります',
+  'validation.fileTooLarge': '{size}、上限 {max} を超えています',
+  'validation.empty': '画像が完全に透明で、内容がありません',
+  'validation.marginOk': '四辺に {margin}px の透明な余白があります',
+  'validation.marginCrossed': '{count} ピクセルが {margin}px の余白内にあり、審査で却下される可能性があります',
+  'validation.notApng': 'APNG アニメーションではありません',
+  'validation.frames': '{count} フレーム',
+  'validation.framesOutOfRange': '{count} フレーム、{min}–{max} フレームである必要があります',
+  'validation.plays': '{count} 回',
+  'validation.playsOutOfRange': '{count} 回、{min}–{max} 回である必要があります',
+  'validation.infinite': '無限',
+  'validation.duration': '{seconds} 秒',
+  'validation.durationTooLong': '{seconds} 秒、合計 {max} 秒以内である必要があります',
+  'validation.unreadable': '画像を読み込めません',
+  'validation.count': '{count} 枚',
+  'validation.countNotAllowed': '{count} 枚、LINE で使えるのは {allowed} 枚のみです',
+  'validation.generated': '作成済み',
+  'validation.missingMain': 'メイン画像がありません',
+  'validation.rule.listing': '販売情報（{language}）',
+  'validation.withinLimits': 'LINE の制限内です',
+  'validation.missingField': '{field}が未入力です',
+  'validation.tooLong': '{field}が {count} 文字、上限は {limit} 文字です',
+  'validation.tooManyTags': '{stickers} のタグが {limit} 個を超えています',
+  'validation.missingTab': 'トークルームタブ画像がありません',
+
+  // Styles, emotions, fonts and layouts
+  'style.shojo_manga': '少女漫画',
+  'style.american_3d': 'アメリカン 3D',
+  'style.hand_drawn_sketch': '手描きスケッチ',
+  'style.chibi_cute': 'ちびキャラ',
+  'style.ukiyo_e': '浮世絵',
+  'style.marker_doodle': 'マーカー',
+  'style.retro_pop': 'レトロポップ',
+  'style.crayon': 'クレヨン',
+  'emotion.happy': 'うれしい',
+  'emotion.love': '好き',
+  'emotion.sad': '悲しい',
+  'emotion.angry': '怒り',
+  'emotion.surprised': '驚き',
+  'emotion.greeting': 'あいさつ',
+  'emotion.thanks': '感謝',
+  'emotion.apology': 'おわび',
+  'emotion.reply': '返事',
+  'emotion.cheer': '応援',
+  'emotion.tired': '疲れた',
+  'emotion.daily': '日常',
+  'emotion.other': 'その他',
+  'font.sans': 'ゴシック',
+  'font.serif': '明朝',
+  'font.rounded': '丸ゴシック',
+  'font.handwriting': '手書き',
+  'grid.bestQuality': '最高画質',
+  'grid.balanced': 'バランス',
+  'grid.fewestCalls': '回数節約',
+
+  // Generation errors
+  'error.failed': '{action}に失敗しました: {message}\n{hint}',
+  'error.auth.message': 'API キーが無効か設定されていません',
+  'error.auth.hint': '環境変数 VITE_API_KEY に "AIza" で始まるキーが設定されているか確認するか、オフラインモックに切り替えてください。',
+  'error.quota.message': 'API の利用上限に達しました',
+  'error.quota.hint': '上限は通常1分ごとまたは1日ごとにリセットされます。しばらくしてから再試行してください。',
+  'error.overloaded.message': 'モデルが混み合っています',
+  'error.overloaded.hint': 'サーバーが一時的に過負荷です。再試行すれば通常は成功します。',
+  'error.safety.message': '安全フィルターによりブロックされました',
+  'error.safety.hint': '文字がセンシティブと判定された可能性があります。文字を修正して描き直してください。',
+  'error.invalid_request.message': 'リクエストの形式が正しくありません',
+  'error.invalid_request.hint': '参考写真が大きすぎるか非対応の形式の可能性があります。別の写真にするか文字を修正してください。',
+  'error.no_image.message': 'モデルが画像を返しませんでした',
+  'error.no_image.hint': 'モデルがテキストだけを返すことがあります。もう一度描き直してください。',
+  'error.no_text.message': 'モデルがテキストを返しませんでした',
+  'error.no_text.hint': '応答が空でした。もう一度試すと通常は成功します。',
+  'error.duplicates.message': '提案がすべて既存の文字と重複しました',
+  'error.duplicates.hint': 'もう一度試すか、別のトーンで書き直してもらいましょう。',
+  'error.slicing.message': 'シートの分割に失敗しました',
+  'error.slicing.hint': 'キャラクターの数が合いませんでした。この1枚を描き直すと単体で描画します。',
+  'error.processing.message': '画像処理に失敗しました',
+  'error.processing.hint': '背景除去または文字入れでエラーが発生しました。この1枚を描き直してください。',
+  'error.unknown.message': '生成に失敗しました',
+  'error.unknown.hint': '予期しないエラーが発生しました。もう一度お試しください。',
+
+  // Model and processing errors
+  'gemini.keyMissing': 'API キーが設定されていません。Vercel の環境変数 VITE_API_KEY を確認してください。',
+  'gemini.keyMalformed': '入力されたキー ({prefix}...) の形式が正しくありません。Project ID ではなく "AIza" で始まる API キーをコピーしてください。',
+  'gemini.keyInvalid': 'API キーが無効です。Vercel の環境変数 VITE_API_KEY を確認してください。',
+  'gemini.blocked': '生成がブロックされました (Safety: {reason})',
+  'gemini.noPlan': 'AI から文字案が返ってきませんでした。もう一度お試しください。',
+  'gemini.planTooShort': 'AI が作った重複しない文字は {got} 件だけでした（{count} 件必要）。もう一度お試しください。',
+  'gemini.noSuggestions': 'AI から文字が返ってきませんでした。もう一度お試しください。',
+  'gemini.suggestionsDuplicate': 'AI の提案はすべて既存の文字と重複していました。もう一度お試しください。',
+  'gemini.noMetadata': 'AI から販売情報が返ってきませんでした。もう一度お試しください。',
+  'gemini.noTranslations': 'AI から翻訳が返ってきませんでした。もう一度お試しください。',
+  'gemini.noCharacterSheet': '生成失敗：キャラクターシートが返ってきませんでした',
+  'gemini.noImage': '生成失敗：画像が返ってきませんでした',
+  'gemini.noFrames': '生成失敗：アニメーションのフレームが返ってきませんでした',
+  'processing.sliceFailed': '切り分け失敗：キャラクターが {found} 体描かれました（{expected} 体のはず）。もう一度生成してください',
+
+  // Plan files
+  'planFile.csvNoHeader': 'CSV の 1 行目は列名である必要があります（{columns}）',
+  'planFile.invalidJson': '有効な JSON ファイルではありません',
+  'planFile.jsonNoPlan': 'ファイルに文字案（plan 配列）がありません',
+  'planFile.emptyRows': '{rows} 行目に文字がありません',
+  'planFile.badCount': '{count} 行ありますが、LINE のセットは {allowed} 枚のみです',
+
+  // Store listing
+  'metadata.open': '販売情報',
+  'metadata.openHint': 'Creators Market に必要なタイトル・説明文・著作権表示・タグを作成',
+  'metadata.heading': '販売情報 (LINE Creators Market)',
+  'metadata.hint': '用途・スタイル・文字案から AI が下書きします。自由に編集できます。',
+  'metadata.draft': 'AI で下書き',
+  'metadata.redraft': '下書きし直す',
+  'metadata.redraftConfirm': '下書きし直すとタイトル・説明文・タグが置き換わります（著作権表示はそのまま）。よろしいですか？',
+  'metadata.empty': '販売情報はまだありません。「AI で下書き」から始めましょう。',
+  'metadata.title': 'タイトル',
+  'metadata.description': '説明文',
+  'metadata.copyright': '著作権表示',
+  'metadata.copyrightHint': 'ご自身かチームの名前に変えてください。全言語共通です。',
+  'metadata.copyrightHalfWidth': '著作権表示は半角英数字と記号のみ使えます。',
+  'metadata.tags': '検索タグ',
+  'metadata.tagsPlaceholder': 'カンマ区切り',
+  'metadata.zipNote': 'スタンプのダウンロードに metadata.json と metadata.txt が含まれます。'
+};
+
+export default ja;
@@ -0,0 +1,398 @@
+// Traditional Chinese, the source catalog: every other locale has exactly these keys.
+// {name} placeholders are filled in by t().
+const zhTW = {
+  // Common
+  'common.listSeparator': '、',
+  'common.close': '關閉',
+  'common.cancel': '取消',
+  'common.edit': '編輯',
+  'common.delete': '刪除',
+  'common.apply': '套用',
+
+  // App shell
+  'app.myProjects': '我的專案',
+  'app.providerToggleHint': '切換 Gemini / 離線模擬 (不需 API Key)',
+  'app.providerMock': '離線模擬中',
+  'app.uiLanguage': '介面語言',
+  'app.action.plan': '產生計畫',
+  'app.action.suggest': '產生建議',
+  'app.action.translateTo': '翻譯{language}',
+  'app.action.translate': '翻譯',
+  'app.action.test': '試畫',
+  'app.action.metadata': '草擬上架資訊',
+  'app.action.characterSheet': '角色設定圖',
+  'app.noMoreSuggestions': '沒有其他不重複的建議了',
+  'app.uploadPhotoFirst': '請先上傳照片',
+  'app.projectNotFound': '找不到這個專案',
+  'app.openProjectFailed': '開啟專案失敗',
+
+  // Setup form
+  'setup.tooManyPhotos': '最多 {max} 張參考照片，只會加入前 {room} 張',
+  'setup.photoProcessingFailed': '圖片處理失敗，請試著換一張照片',
+  'setup.uploadReferenceFirst': '請先上傳參考照片',
+  'setup.duplicateItem': '#{number}「{text}」',
+  'setup.step1': '1. 設定參數',
+  'setup.referencePhotos': '參考照片',
+  'setup.referencePhotosHint': '正面、側面、全身、配件特寫',
+  'setup.removePhoto': '移除照片',
+  'setup.photoNotePlaceholder': '備註 (選填)',
+  'setup.photoNoteHint': '例：左側有白色斑點、常戴紅色項圈',
+  'setup.uploadPhotos': '上傳照片',
+  'setup.count': '貼圖數量',
+  'setup.countOption': '{count}張',
+  'setup.animatedCountLimit': '動態貼圖最多 24 張',
+  'setup.mode': '貼圖類型',
+  'setup.modeStatic': '靜態',
+  'setup.modeAnimated': '動態 APNG',
+  'setup.modeStaticHint': '320x320 靜態貼圖',
+  'setup.modeAnimatedHint': '320x270 動態貼圖，每張 9 影格',
+  'setup.context': '情境 (選填)',
+  'setup.contextPlaceholder': '例：厭世上班族、熱戀情侶...',
+  'setup.style': '畫風選擇',
+  'setup.customStyles': '自訂畫風',
+  'setup.testLoading': '繪製試看圖中...',
+  'setup.closePreview': '關閉預覽',
+  'setup.redrawPreviewHint': '使用目前選擇的風格重畫',
+  'setup.redraw': '重畫',
+  'setup.previewBadge': '預覽結果',
+  'setup.testAlt': '試畫預覽',
+  'setup.testButton': '✨ 試畫一張 (預覽風格)',
+  'setup.characterSheet': '角色設定圖 (選用)',
+  'setup.sheetAlt': '角色設定圖',
+  'setup.sheetApplied': '已套用',
+  'setup.sheetLoading': '繪製角色設定圖中...',
+  'setup.sheetPending': '待確認',
+  'setup.sheetStale': '畫風已變更，這張設定圖不會套用，請重畫',
+  'setup.sheetApprove': '確認使用',
+  'setup.sheetDiscardHint': '捨棄這張',
+  'setup.sheetRemoveHint': '不使用設定圖',
+  'setup.sheetDiscard': '捨棄',
+  'setup.sheetRemove': '移除',
+  'setup.sheetGenerate': '產生角色設定圖',
+  'setup.sheetHint': '先畫一張正面、側面、背面的設定圖，確認後每一批都會參照它，讓整組貼圖的角色保持一致。',
+  'setup.planLoading': 'AI 構思中...',
+  'setup.generatePlan': '產生文字草稿',
+  'setup.regeneratePlan': '重新產生文字',
+  'setup.step2': '2. 文字草稿與生成',
+  'setup.emptyPlan': '請先在左側設定並點擊「產生文字草稿」',
+  'setup.importPlan': '匯入文案 (CSV / JSON)',
+  'setup.importPlanHint': '直接使用試算表寫好的文字，不經過 AI 產生',
+  'setup.importDuplicatesConfirm': '檔案中有相近的文字：\n{groups}\n仍要匯入嗎？',
+  'setup.importReplaceConfirm': '匯入會取代目前的 {count} 行文字，確定嗎？',
+  'setup.importFailed': '匯入失敗：{message}',
+  'setup.exportPlanHint': '下載文字草稿，可在試算表中編輯後再匯入',
+  'setup.undoPlan': '復原 (Ctrl+Z)',
+  'setup.redoPlan': '重做 (Ctrl+Shift+Z)',
+  'setup.editedByHand': '已手動修改',
+  'setup.regenerateEditedConfirm': '有 {count} 行文字是手動修改過的，重新產生會取代它們（可按 Ctrl+Z 復原）。確定嗎？',
+  'setup.switchEditedConfirm': '切換語言會蓋掉這些手動修改的文字：\n{lines}\n確定嗎？（可按 Ctrl+Z 復原）',
+  'setup.emptyPlanHint': 'AI 將為您規劃 {count} 組貼圖內容',
+  'setup.duplicatesTitle': '注意：偵測到重複或太相似的文字',
+  'setup.duplicatesHint': '建議用「換一句」修改以避免貼圖重複。',
+  'setup.captionLanguages': '貼圖文字語言',
+  'setup.showLanguage': '貼圖上顯示這個語言',
+  'setup.bilingual': '中英並列',
+  'setup.removeLanguage': '移除這個語言',
+  'setup.addLanguageHint': 'AI 會翻譯整組文字，匯出時每個語言各打包一份',
+  'setup.addLanguage': '＋ 新增語言',
+  'setup.missingTranslations': '{count} 張貼圖缺少部分語言的翻譯，或修改後需要重新翻譯',
+  'setup.fillTranslations': '補齊翻譯',
+  'setup.emotionCoverage': '情緒分布',
+  'setup.missingEmotions': '缺少常用情緒：{emotions}。可以修改幾張的類別與畫面描述補上。',
+  'setup.dominantEmotion': '「{emotion}」佔了超過四成，整組可能太單調。',
+  'setup.captionActions': '換一句 / 其他選項',
+  'setup.action.replace': '換一句',
+  'setup.action.alternatives': '給我三個選項',
+  'setup.action.funnier': '更好笑',
+  'setup.action.politer': '更禮貌',
+  'setup.action.shorter': '更簡短',
+  'setup.keepOriginal': '保留原本的',
+  'setup.emotion': '情緒類別',
+  'setup.directionPlaceholder': '畫面描述，留白則依文字發揮',
+  'setup.directionHint': '繪圖指示 (動作、姿勢、道具)，例：bowing deeply with hands together',
+  'setup.gridSize': '每次繪製張數',
+  'setup.gridCalls': '約 {count} 次 API 呼叫',
+  'setup.resumeHint': '保留已完成的貼圖，只繪製尚未完成或失敗的部分',
+  'setup.resume': '繼續上次進度 ({count})',
+  'setup.candidates': '每張貼圖的候選圖',
+  'setup.candidatesHint': '每張貼圖畫 {count} 張草稿讓你挑選，共 {calls} 次繪製',
+  'setup.start': '開始繪製',
+  'setup.startAnimated': '開始繪製動態貼圖',
+
+  // Results grid
+  'results.untranslatedConfirm': '{count} 張貼圖沒有{language}文字，或修改後還沒重新翻譯，會沿用目前的文字。仍要打包嗎？',
+  'results.validationFailed': '檢查檔案時發生錯誤，請再試一次',
+  'results.applyFailed': '套用失敗，請再試一次',
+  'results.editCaptionPrompt': '修改文字後重新繪製',
+  'results.editCaption': '修改文字',
+  'results.retryLater': '稍後再試',
+  'results.retryLaterHint': '依伺服器建議的時間等待後自動重繪；沒有建議時，每次再失敗等待會加倍',
+  'results.retryScheduled': '{seconds} 秒後重繪',
+  'results.retryCancelHint': '點擊取消排定的重繪',
+  'results.retry': '重試',
+  'results.redrawFailed': '重繪失敗：{message}',
+  'results.titleGenerating': '生成進行中',
+  'results.title': '生成結果',
+  'results.generating': 'AI 正在揮毫中... 請稍候，好圖值得等待！({completed}/{total})',
+  'results.batchProgress': '第 {current} / {total} 次繪製 · 預估剩餘約 {minutes} 分鐘',
+  'results.done': '生成完畢！共 {count} 張貼圖',
+  'results.resumeHint': '只繪製尚未完成或失敗的貼圖',
+  'results.resume': '繼續生成 ({count})',
+  'results.startOver': '重做一組',
+  'results.exportLanguageHint': '每個語言各打包一份，圖片相同、文字不同',
+  'results.exportCurrent': '目前文字',
+  'results.exportLanguage': '{language}版',
+  'results.validating': '檢查規格中...',
+  'results.zipFailed': '打包 ZIP 時發生錯誤，請再試一次',
+  'results.download': '下載打包 (ZIP)',
+  'results.drawing': '繪製中...',
+  'results.waiting': '等待中',
+  'results.redraw': '重繪此張',
+  'results.background': '去背調整',
+  'results.touchUp': '手動修圖',
+  'results.captionLayout': '文字排版',
+  'results.pinVersion': '使用這個版本',
+  'results.previousVersion': '上一個版本',
+  'results.nextVersion': '下一個版本',
+  'results.versionInfo': '版本 {index}/{total} · {source} · {time}',
+  'results.sourceGrid': '整張切圖',
+  'results.sourceSingle': '單張繪製',
+  'results.awaitingPick': '{count} 張等待挑選',
+  'results.keyboardHint': '鍵盤：← → 切換貼圖 · ↑ ↓ 瀏覽版本 · 1–4 挑選候選圖 · Enter 保留目前版本',
+  'results.pickCandidate': '選擇候選圖 {number}',
+
+  // Caption editor
+  'captionEditor.title': '文字排版 · #{number}',
+  'captionEditor.dragHint': '拖曳圖片調整文字位置',
+  'captionEditor.visible': '顯示文字',
+  'captionEditor.font': '字型',
+  'captionEditor.fontSize': '字級',
+  'captionEditor.rotation': '旋轉',
+  'captionEditor.fill': '文字顏色',
+  'captionEditor.stroke': '外框顏色',
+  'captionEditor.strokeWidth': '外框粗細',
+  'captionEditor.shadow': '陰影',
+  'captionEditor.reset': '恢復預設',
+  'captionEditor.applyToAll': '套用到全部貼圖',
+
+  // Custom styles
+  'styles.defaultName': '自訂畫風',
+  'styles.copyName': '{name} 副本',
+  'styles.nameAndPromptRequired': '請填寫畫風名稱與提示詞',
+  'styles.saveFailed': '儲存畫風失敗',
+  'styles.confirmDelete': '確定要刪除「{name}」嗎？',
+  'styles.deleteFailed': '刪除畫風失敗',
+  'styles.imageFailed': '圖片處理失敗，請換一張試試',
+  'styles.imported': '已匯入 {count} 個畫風',
+  'styles.importFailed': '匯入失敗: {message}',
+  'styles.fileInvalidJson': '檔案不是有效的 JSON',
+  'styles.fileNoStyles': '找不到畫風資料',
+  'styles.fileNothingToImport': '檔案中沒有可匯入的畫風',
+  'styles.duplicate': '複製為新畫風',
+  'styles.new': '新增',
+  'styles.importHint': '從 JSON 檔匯入',
+  'styles.import': '匯入',
+  'styles.exportHint': '匯出為 JSON 檔分享',
+  'styles.export': '匯出',
+  'styles.mine': '我的畫風',
+  'styles.mineEmpty': '還沒有自訂畫風，可以從下方內建畫風複製一個開始。',
+  'styles.builtIn': '內建畫風',
+  'styles.selectToEdit': '選擇或新增一個畫風來編輯',
+  'styles.name': '名稱',
+  'styles.namePlaceholder': '例：水彩繪本',
+  'styles.prompt': '提示詞 (英文效果較好)',
+  'styles.color': '顏色',
+  'styles.icon': '圖示',
+  'styles.promptPlaceholder': '例：watercolor picture book style, soft edges, pastel palette, white background',
+  'styles.exampleAlt': '範例圖',
+  'styles.example': '範例圖 (選填，模型會參考它的畫風)',
+  'styles.uploadExample': '上傳圖片',
+  'styles.removeExample': '移除範例圖',
+  'styles.create': '建立',
+  'styles.save': '儲存',
+
+  // Background and touch-up editors
+  'backgroundEditor.title': '去背調整 · #{number}',
+  'backgroundEditor.original': '原始圖',
+  'backgroundEditor.preview': '預覽',
+  'backgroundEditor.mode': '去背方式',
+  'backgroundEditor.flood': '邊緣連通',
+  'backgroundEditor.threshold': '全圖白色',
+  'backgroundEditor.floodHint': '只移除與邊框相連的白色，保留眼睛、牙齒等內部白色。',
+  'backgroundEditor.thresholdHint': '移除所有接近白色的像素（舊版行為）。',
+  'backgroundEditor.tolerance': '容許度',
+  'backgroundEditor.feather': '邊緣羽化',
+  'maskEditor.applyFailed': '套用失敗，請再試一次',
+  'maskEditor.title': '手動修圖 · #{number}',
+  'maskEditor.original': '原始圖',
+  'maskEditor.preview': '預覽',
+  'maskEditor.erase': '擦除',
+  'maskEditor.restore': '還原',
+  'maskEditor.brush': '筆刷',
+  'maskEditor.zoomOut': '縮小',
+  'maskEditor.zoomIn': '放大',
+  'maskEditor.undoHint': '復原 (Ctrl+Z)',
+  'maskEditor.undo': '復原',
+  'maskEditor.clearHint': '清除所有手動修改',
+  'maskEditor.clear': '清除',
+  'maskEditor.legend': '紅色 = 擦除，綠色 = 還原原圖。淡色底圖為 AI 原始圖。',
+  'maskEditor.allFramesHint': '修改會套用到每一個影格。',
+
+  // Projects
+  'projects.defaultName': '貼圖專案 {date}',
+  'projects.confirmDelete': '確定要刪除「{name}」嗎？此動作無法復原。',
+  'projects.empty': '還沒有儲存的專案，產生文字草稿後會自動儲存。',
+  'projects.progress': '{completed}/{total} 張完成',
+  'projects.open': '開啟',
+  'projects.delete': '刪除專案',
+
+  // LINE validation
+  'validation.pass': '通過',
+  'validation.warn': '警告',
+  'validation.fail': '不合格',
+  'validation.title': 'LINE 上架規格檢查',
+  'validation.checkLine': '{rule}：{message}',
+  'validation.summaryFail': '有項目不符合規格，送審可能被退件。',
+  'validation.summaryWarn': '建議檢查警告項目後再送審。',
+  'validation.summaryPass': '所有項目皆符合 LINE 規格！',
+  'validation.downloadAnyway': '仍要下載',
+  'validation.download': '下載 ZIP',
+  'validation.rule.size': '尺寸',
+  'validation.rule.fileSize': '檔案大小',
+  'validation.rule.content': '內容',
+  'validation.rule.margin': '透明邊界',
+  'validation.rule.animation': '動畫',
+  'validation.rule.frames': '影格數',
+  'validation.rule.plays': '循環次數',
+  'validation.rule.duration': '播放時間',
+  'validation.rule.read': '讀取',
+  'validation.rule.count': '貼圖數量',
+  'validation.sizeExact': '{size}，必須為 {expected}',
+  'validation.sizeTooLarge': '{size}，超過上限 {max}',
+  'validation.sizeTooSmall': '{size}，至少一邊需 {min}px 以上',
+  'validation.sizeOdd': '{size}，寬高必須為偶數',
+  'validation.fileTooLarge': '{size}，超過 {max} 上限',
+  'validation.empty': '圖片完全透明，沒有內容',
+  'validation.marginOk': '四周保留 {margin}px 透明邊界',
+  'validation.marginCrossed': '有 {count} 個像素落在 {margin}px 邊界內，可能被審核退件',
+  'validation.notApng': '不是 APNG 動態圖檔',
+  'validation.frames': '{count} 格',
+  'validation.framesOutOfRange': '{count} 格，需介於 {min}–{max} 格',
+  'validation.plays': '{count} 次',
+  'validation.playsOutOfRange': '{count} 次，需介於 {min}–{max} 次',
+  'validation.infinite': '無限',
+  'validation.duration': '{seconds} 秒',
+  'validation.durationTooLong': '{seconds} 秒，總長不可超過 {max} 秒',
+  'validation.unreadable': '無法讀取圖片',
+  'validation.count': '{count} 張',
+  'validation.countNotAllowed': '{count} 張，LINE 只接受 {allowed} 張',
+  'validation.generated': '已產生',
+  'validation.missingMain': '缺少主要圖片',
+  'validation.rule.listing': '{language}上架資訊',
+  'validation.withinLimits': '符合 LINE 的限制',
+  'validation.missingField': '{field}還沒填寫',
+  'validation.tooLong': '{field} {count} 字，上限 {limit} 字',
+  'validation.tooManyTags': '{stickers} 的標籤超過 {limit} 個',
+  'validation.missingTab': '缺少聊天室標籤圖片',
+
+  // Styles, emotions, fonts and layouts
+  'style.shojo_manga': '少女漫畫',
+  'style.american_3d': '美式 3D',
+  'style.hand_drawn_sketch': '手繪素描',
+  'style.chibi_cute': 'Q版可愛',
+  'style.ukiyo_e': '浮世繪',
+  'style.marker_doodle': '馬克筆',
+  'style.retro_pop': '美式復古',
+  'style.crayon': '蠟筆塗鴉',
+  'emotion.happy': '開心',
+  'emotion.love': '愛心',
+  'emotion.sad': '難過',
+  'emotion.angry': '生氣',
+  'emotion.surprised': '驚訝',
+  'emotion.greeting': '問候',
+  'emotion.thanks': '感謝',
+  'emotion.apology': '道歉',
+  'emotion.reply': '回覆',
+  'emotion.cheer': '加油',
+  'emotion.tired': '疲累',
+  'emotion.daily': '日常',
+  'emotion.other': '其他',
+  'font.sans': '黑體',
+  'font.serif': '明體',
+  'font.rounded': '圓體',
+  'font.handwriting': '手寫',
+  'grid.bestQuality': '畫質最佳',
+  'grid.balanced': '平衡',
+  'grid.fewestCalls': '最省次數',
+
+  // Generation errors
+  'error.failed': '{action}失敗: {message}\n{hint}',
+  'error.auth.message': 'API Key 無效或尚未設定',
+  'error.auth.hint': '請確認環境變數 VITE_API_KEY 是 "AIza" 開頭的金鑰，或切換到離線模擬。',
+  'error.quota.message': '已達 API 使用額度上限',
+  'error.quota.hint': '額度通常每分鐘或每日重置，請稍後再試。',
+  'error.overloaded.message': '模型目前忙碌中',
+  'error.overloaded.hint': '伺服器暫時過載，重試通常就會成功。',
+  'error.safety.message': '內容被安全機制阻擋',
+  'error.safety.hint': '這句文字可能被判定為敏感內容，修改文字後再重繪。',
+  'error.invalid_request.message': '請求格式有誤',
+  'error.invalid_request.hint': '參考圖片可能太大或格式不支援，請換一張照片或修改文字。',
+  'error.no_image.message': '模型沒有回傳圖片',
+  'error.no_image.hint': '模型偶爾只回傳文字，重繪一次即可。',
+  'error.no_text.message': '模型沒有回傳文字',
+  'error.no_text.hint': '回應是空的，通常再試一次就會成功。',
+  'error.duplicates.message': '建議的文字都和現有的重複',
+  'error.duplicates.hint': '再試一次，或換個語氣請 AI 改寫。',
+  'error.slicing.message': '切圖失敗',
+  'error.slicing.hint': '模型畫出的角色數量不對，重繪此張會改用單張繪製。',
+  'error.processing.message': '圖片處理失敗',
+  'error.processing.hint': '去背或加字時發生錯誤，請重繪此張。',
+  'error.unknown.message': '生成失敗',
+  'error.unknown.hint': '發生未預期的錯誤，請再試一次。',
+
+  // Model and processing errors
+  'gemini.keyMissing': 'API Key 尚未設定。請確認 Vercel 環境變數 VITE_API_KEY 已正確設定。',
+  'gemini.keyMalformed': '您輸入的 Key ({prefix}...) 格式錯誤。請確認您複製的是 "AIza" 開頭的 API Key，而不是 Project ID。',
+  'gemini.keyInvalid': 'API Key 無效。請檢查 Vercel 環境變數 VITE_API_KEY。',
+  'gemini.blocked': '生成被阻擋 (Safety: {reason})',
+  'gemini.noPlan': 'AI 沒有回傳文字草稿，請再試一次。',
+  'gemini.planTooShort': 'AI 只產生了 {got} 組不重複的文字（需要 {count} 組），請再試一次。',
+  'gemini.noSuggestions': 'AI 沒有回傳文字，請再試一次。',
+  'gemini.suggestionsDuplicate': 'AI 提供的文字都和現有的重複，請再試一次。',
+  'gemini.noMetadata': 'AI 沒有回傳上架資訊，請再試一次。',
+  'gemini.noTranslations': 'AI 沒有回傳翻譯，請再試一次。',
+  'gemini.noCharacterSheet': '生成失敗：模型未回傳角色設定圖',
+  'gemini.noImage': '生成失敗：模型未回傳圖片',
+  'gemini.noFrames': '生成失敗：模型未回傳動畫影格',
+  'processing.sliceFailed': '切圖失敗：模型畫了 {found} 個角色（應為 {expected} 個），請重新生成',
+
+  // Plan files
+  'planFile.csvNoHeader': 'CSV 第一列需為欄位名稱（{columns}）',
+  'planFile.invalidJson': '不是有效的 JSON 檔案',
+  'planFile.jsonNoPlan': '檔案中找不到文字草稿（plan 陣列）',
+  'planFile.emptyRows': '第 {rows} 列沒有任何文字',
+  'planFile.badCount': '共 {count} 列，LINE 貼圖組只能是 {allowed} 張',
+
+  // Store listing
+  'metadata.open': '上架資訊',
+  'metadata.openHint': '草擬 Creators Market 需要的標題、說明、版權與標籤',
+  'metadata.heading': '上架資訊 (LINE Creators Market)',
+  'metadata.hint': '依用途、風格和文字草稿由 AI 草擬，可直接修改。',
+  'metadata.draft': 'AI 草擬',
+  'metadata.redraft': '重新草擬',
+  'metadata.redraftConfirm': '重新草擬會取代目前的標題、說明與標籤（版權保留），確定嗎？',
+  'metadata.empty': '還沒有上架資訊，點「AI 草擬」開始。',
+  'metadata.title': '標題',
+  'metadata.description': '說明',
+  'metadata.copyright': '版權標示',
+  'metadata.copyrightHint': '請改成你的名字或團隊名稱，所有語言共用。',
+  'metadata.copyrightHalfWidth': '版權標示只能使用半形英數字與符號。',
+  'metadata.tags': '搜尋標籤',
+  'metadata.tagsPlaceholder': '以逗號分隔',
+  'metadata.zipNote': '下載貼圖包時會一併附上 metadata.json 與 metadata.txt。'
+};
+
+export type MessageKey = keyof typeof zhTW;
+export type Messages = Record<MessageKey, string>;
+
+export default zhTW;
@@ -1,6 +1,12 @@
 
-import { GoogleGenAI, Type, HarmCategory, HarmBlockThreshold } from "@google/genai";
-import { StickerPlanItem } from '../types';
+import { GoogleGenAI, Type, HarmCategory, HarmBlockThreshold, GenerateContentResponse } from "@google/genai";
+import { CaptionLanguage, CaptionMap, CaptionSuggestion, CaptionTone, ReferenceImage, StickerEmotion, StickerPlanItem, StickerPrompt, StickerProvider, StoreMetadata } from '../types';
+import { CAPTION_LANGUAGES, STICKER_EMOTIONS, STORE_LISTING_LIMITS } from '../constants';
+import { isNearDuplicate } from '../utils/captionSimilarity';
+import { getSourceCaptions } from '../utils/captionLanguages';
+import { GenerationError, toGenerationError } from './generationErrors';
+import { t } from '../i18n';
+import { configureScheduler, getCallIntervalMs, getRetryDelayMs, pauseModel, scheduleModelCall } from './requestScheduler';
 
 // ==========================================
 // API KEY Configuration
@@ -12,12 +18,12 @@ const getAI = () => {
   const apiKey = (import.meta as any).env.VITE_API_KEY;
 
   if (!apiKey) {
-    throw new Error("API Key 尚未設定。請確認 Vercel 環境變數 VITE_API_KEY 已正確設定。");
+    throw new GenerationError('auth', t('gemini.keyMissing'));
   }
 
   // Basic Validation
   if (apiKey.startsWith("gen-lang-client") || !apiKey.startsWith("AIza")) {
-    throw new Error(`您輸入的 Key (${apiKey.substring(0, 10)}...) 格式錯誤。請確認您複製的是 "AIza" 開頭的 API Key，而不是 Project ID。`);
+    throw new GenerationError('auth', t('gemini.keyMalformed', { prefix: apiKey.substring(0, 10) }));
   }
 
   return new GoogleGenAI({ apiKey });
@@ -27,19 +33,32 @@ const getAI = () => {
 // UTILITIES: Retry & Model Fallback
 // ==========================================
 
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
 // List of models to try in order. If the first one fails (Quota/429), try the next.
 // gemini-2.0-flash-exp often has separate quotas or is less congested.
 const IMAGE_MODELS = ['gemini-2.5-flash-image', 'gemini-2.0-flash-exp'];
+const TEXT_MODEL = 'gemini-2.5-flash';
+
+// Free-tier friendly pace; override the image rate with VITE_IMAGE_CALLS_PER_MINUTE
+const IMAGE_CALLS_PER_MINUTE = Number((import.meta as any).env?.VITE_IMAGE_CALLS_PER_MINUTE) || 6;
+
+configureScheduler({
+  rates: {
+    [IMAGE_MODELS[0]]: { perMinute: IMAGE_CALLS_PER_MINUTE, burst: 1 },
+    [IMAGE_MODELS[1]]: { perMinute: IMAGE_CALLS_PER_MINUTE, burst: 1 },
+    [TEXT_MODEL]: { perMinute: 10, burst: 2 }
+  }
+});
 
 /**
- * Tries to execute an image generation function.
- * If it fails with 429/503/Quota, it waits and retries.
+ * Tries to execute an image generation function through the request scheduler.
+ * Aborting `signal` cancels the request in flight and any queued retry.
+ * If it fails with 429/503/Quota, the model is paused (for the server's retry hint
+ * when there is one) and the call is queued again.
  * If it persists, it switches to the next model in the list.
  */
 async function retryWithModelFallback<T>(
-  operation: (modelName: string) => Promise<T>
+  operation: (modelName: string) => Promise<T>,
+  signal?: AbortSignal
 ): Promise<T> {
   let lastError: any;
 
@@ -48,24 +67,26 @@ async function retryWithModelFallback<T>(
     for (let attempt = 1; attempt <= 3; attempt++) {
       try {
         console.log(`Attempting generation with model: ${model} (Try ${attempt}/3)`);
-        return await operation(model);
+        return await scheduleModelCall(model, () => operation(model), signal);
       } catch (error: any) {
-        lastError = error;
-        const msg = error.message || '';
+        // Cancelled: stop right away instead of backing off and retrying
+        if (signal?.aborted) throw signal.reason;
+
+        const genError = toGenerationError(error);
+        lastError = genError;
+        const msg = genError.detail || genError.message;
         
-        // Check for retryable errors
-        const isRetryable = 
-          msg.includes('429') || 
-          msg.includes('503') || 
-          msg.includes('RESOURCE_EXHAUSTED') ||
-          msg.includes('quota') ||
-          msg.includes('Overloaded');
+        // Only capacity errors are worth retrying here; other retryable kinds
+        // (no image, slicing) are left to the user's "重繪此張"
+        const isRetryable = genError.kind === 'quota' || genError.kind === 'overloaded';
 
         if (isRetryable) {
+          // Pausing the model also holds back every other queued call to it
+          const delay = getRetryDelayMs(error) ?? attempt * 5000 + 2000; // 7s, 12s, etc.
+          pauseModel(model, delay);
+
           if (attempt < 3) {
-            const delay = attempt * 5000 + 2000; // 7s, 12s, etc.
             console.warn(`Error with ${model}: ${msg}. Retrying in ${delay}ms...`);
-            await wait(delay);
             continue; // Retry same model
           } else {
             console.warn(`Model ${model} exhausted retries. Switching model...`);
@@ -74,7 +95,7 @@ async function retryWithModelFallback<T>(
           }
         } else {
           // Non-retryable error (e.g. Safety, Invalid Request), throw immediately
-          throw error;
+          throw genError;
         }
       }
     }
@@ -84,43 +105,295 @@ async function retryWithModelFallback<T>(
   throw lastError;
 }
 
+const SAFETY_SETTINGS = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+];
+
+// Finish / block reasons that mean the content itself was refused, so editing the caption can help.
+// Others (RECITATION, OTHER, ...) are treated as a missing image and simply redrawn.
+const BLOCKING_REASONS = new Set<string>([
+  'SAFETY',
+  'PROHIBITED_CONTENT',
+  'BLOCKLIST',
+  'SPII',
+  'IMAGE_SAFETY',
+  'IMAGE_PROHIBITED_CONTENT'
+]);
+
+/**
+ * Pulls the first inline image out of a generateContent response.
+ * Throws with the finish reason if the model returned no image.
+ */
+const extractImage = (response: GenerateContentResponse, emptyMessage: string): string => {
+  const partsResponse = response.candidates?.[0]?.content?.parts;
+
+  if (partsResponse) {
+    for (const part of partsResponse) {
+      if (part.inlineData && part.inlineData.data) {
+        return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+      }
+    }
+  }
+
+  const finishReason = response.promptFeedback?.blockReason ?? response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_REASONS.has(finishReason)) {
+     throw new GenerationError('safety', t('gemini.blocked', { reason: finishReason }), { finishReason });
+  }
+  throw new GenerationError('no_image', emptyMessage, { detail: finishReason });
+};
+
 // ==========================================
 // SERVICES
 // ==========================================
 
+// Large sets (32/40) often come back short or with repeats, so we top up in extra rounds.
+const PLAN_MAX_ROUNDS = 3;
+
+const EMOTION_IDS = STICKER_EMOTIONS.map(e => e.id);
+
+interface PlanResponseItem {
+  text_tc: string;
+  text_en: string;
+  direction: string;
+  emotion: StickerEmotion;
+}
+
+// Shared by the plan and single-line suggestions
+const PLAN_ITEM_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      text_tc: { type: Type.STRING },
+      text_en: { type: Type.STRING },
+      direction: { type: Type.STRING },
+      emotion: { type: Type.STRING, enum: EMOTION_IDS }
+    },
+    required: ["text_tc", "text_en", "direction", "emotion"]
+  }
+};
+
+const toCaptionSuggestion = (item: PlanResponseItem): CaptionSuggestion => ({
+  captions: { tc: item.text_tc, en: item.text_en },
+  direction: (item.direction || '').trim(),
+  emotion: EMOTION_IDS.includes(item.emotion) ? item.emotion : 'other'
+});
+
 /**
  * Step 1: Generate a plan (Text Only)
+ * Always returns exactly `count` unique captions, or throws.
  */
 export const generateStickerPlan = async (
   count: number,
-  context: string
+  context: string,
+  signal?: AbortSignal
 ): Promise<StickerPlanItem[]> => {
   const ai = getAI();
-  const model = 'gemini-2.5-flash'; // Text model is usually fine
-  
+  const model = TEXT_MODEL; // Text model is usually fine
+
+  const collected: PlanResponseItem[] = [];
+
+  try {
+    for (let round = 1; round <= PLAN_MAX_ROUNDS && collected.length < count; round++) {
+      const needed = count - collected.length;
+      const avoidList = collected.map(item => item.text_tc).join('、');
+
+      const systemPrompt = `
+        You are a creative assistant helping to design a LINE sticker set.
+        The user wants ${count} stickers${collected.length > 0 ? `; ${collected.length} are already written, so produce the remaining ${needed}` : ''}.
+        Context/Usage: ${context || 'General daily conversation'}.
+        
+        Output a JSON list of EXACTLY ${needed} objects. Each object must have:
+        - "text_tc": The sticker caption in Traditional Chinese (繁體中文).
+        - "text_en": The sticker caption in English.
+        - "direction": A short drawing direction in English: the pose, action or props that show the caption (e.g. "bowing deeply with hands together", "hiding under a blanket, only eyes showing").
+        - "emotion": One tag for the sticker, one of: ${EMOTION_IDS.join(', ')}.
+        - "original_lang": Which language was primary (usually 'tc' for this request).
+        
+        CRITICAL INSTRUCTIONS FOR TEXT:
+        1. Do NOT include emojis or symbols in the text string (e.g. no ❤️, no ✨). Words only.
+        2. Use expressive punctuation (e.g. !!, ??) is okay.
+        3. Keep text short and punchy.
+        4. Every caption must be unique. Do not repeat a caption or reuse the same phrase with different punctuation.
+        ${avoidList ? `5. These captions already exist, do NOT reuse them or close variants: ${avoidList}` : ''}
+        
+        The stickers should cover common emotions: happiness, sadness, anger, love, greeting, goodbye, shock, laughter, etc.
+        Give every sticker a different pose; do not reuse the same direction.
+        ${count > 24 ? 'This is a large set, so also cover replies (OK, no, wait), daily life (eating, sleeping, working), and seasonal greetings.' : ''}
+      `;
+
+      const response = await scheduleModelCall(model, () => ai.models.generateContent({
+        model: model,
+        contents: "Generate the sticker plan now.",
+        config: {
+          abortSignal: signal,
+          systemInstruction: systemPrompt,
+          responseMimeType: "application/json",
+          responseSchema: PLAN_ITEM_SCHEMA
+        }
+      }), signal);
+
+      const rawJson = response.text;
+      if (!rawJson) throw new GenerationError('no_text', t('gemini.noPlan'));
+
+      const parsed = JSON.parse(rawJson);
+
+      for (const item of parsed) {
+        const text: string = item.text_tc || '';
+        if (!text.trim() || collected.some(c => isNearDuplicate(c.text_tc, text))) continue;
+        collected.push(item);
+        if (collected.length === count) break;
+      }
+    }
+
+    if (collected.length < count) {
+      throw new GenerationError('unknown', t('gemini.planTooShort', { got: collected.length, count }));
+    }
+    
+    return collected.map((item, index) => ({
+      id: index,
+      text: `${item.text_tc} (${item.text_en})`,
+      ...toCaptionSuggestion(item)
+    }));
+  } catch (error: any) {
+    if (signal?.aborted) throw signal.reason;
+    console.error("Plan Generation Error:", error);
+    const genError = toGenerationError(error);
+    if (genError.kind === 'auth') {
+        throw new GenerationError('auth', t('gemini.keyInvalid'), { detail: genError.detail });
+    }
+    throw genError;
+  }
+};
+
+const TONE_INSTRUCTIONS: Record<CaptionTone, string> = {
+  funnier: 'Make it funnier and more playful (a pun, exaggeration or cheeky twist).',
+  politer: 'Make it politer and softer, suitable for coworkers or elders.',
+  shorter: 'Make it shorter: at most 4 Chinese characters and 3 English words.'
+};
+
+/**
+ * Step 1a: New ideas for a single plan line.
+ * With a tone the line is rewritten; without one, different captions are proposed.
+ * Suggestions too close to another line of the plan are dropped.
+ */
+export const suggestCaptions = async (
+  target: StickerPlanItem,
+  plan: StickerPlanItem[],
+  context: string,
+  count: number,
+  tone: CaptionTone | null = null,
+  signal?: AbortSignal
+): Promise<CaptionSuggestion[]> => {
+  const ai = getAI();
+  const model = TEXT_MODEL;
+
+  const others = plan.filter(item => item.id !== target.id);
+  // A rewrite may stay close to the current caption; a replacement may not
+  const taken = [...others.map(item => item.captions.tc ?? item.text), ...(tone ? [] : [target.captions.tc ?? target.text])];
+  const requested = count + 2; // Spare options in case some turn out to be duplicates
+
   const systemPrompt = `
-    You are a creative assistant helping to design a LINE sticker set.
-    The user wants ${count} stickers.
+    You are a creative assistant helping to edit one line of a LINE sticker set.
     Context/Usage: ${context || 'General daily conversation'}.
     
-    Output a JSON list of objects. Each object must have:
+    The current caption is "${target.captions.tc ?? target.text}" (${target.captions.en ?? ''}), drawn as: ${target.direction || 'not specified'}.
+    ${tone
+      ? `Rewrite it. ${TONE_INSTRUCTIONS[tone]} Keep the same meaning and emotion.`
+      : 'Replace it with a different idea that still fits the set.'}
+    
+    Output a JSON list of EXACTLY ${requested} options. Each object must have:
     - "text_tc": The sticker caption in Traditional Chinese (繁體中文).
     - "text_en": The sticker caption in English.
-    - "original_lang": Which language was primary (usually 'tc' for this request).
+    - "direction": A short drawing direction in English (pose, action or props).
+    - "emotion": One tag for the sticker, one of: ${EMOTION_IDS.join(', ')}.
     
     CRITICAL INSTRUCTIONS FOR TEXT:
-    1. Do NOT include emojis or symbols in the text string (e.g. no ❤️, no ✨). Words only.
-    2. Use expressive punctuation (e.g. !!, ??) is okay.
-    3. Keep text short and punchy.
+    1. Do NOT include emojis or symbols in the text string. Words only; expressive punctuation (!!, ??) is okay.
+    2. Keep text short and punchy.
+    3. Every option must be different from the others.
+    ${others.length > 0 ? `4. These captions are already in the set, do NOT reuse them or close variants: ${others.map(item => item.captions.tc ?? item.text).join('、')}` : ''}
+  `;
+
+  try {
+    const response = await scheduleModelCall(model, () => ai.models.generateContent({
+      model: model,
+      contents: "Suggest the captions now.",
+      config: {
+        abortSignal: signal,
+        systemInstruction: systemPrompt,
+        responseMimeType: "application/json",
+        responseSchema: PLAN_ITEM_SCHEMA
+      }
+    }), signal);
+
+    const rawJson = response.text;
+    if (!rawJson) throw new GenerationError('no_text', t('gemini.noSuggestions'));
+
+    const suggestions: CaptionSuggestion[] = [];
+    for (const item of JSON.parse(rawJson) as PlanResponseItem[]) {
+      const text = item.text_tc || '';
+      const existing = [...taken, ...suggestions.map(s => s.captions.tc ?? '')];
+      if (!text.trim() || existing.some(caption => isNearDuplicate(caption, text))) continue;
+      suggestions.push(toCaptionSuggestion(item));
+    }
+
+    if (suggestions.length === 0) {
+      throw new GenerationError('duplicates', t('gemini.suggestionsDuplicate'));
+    }
+    return suggestions.slice(0, count);
+  } catch (error: any) {
+    if (signal?.aborted) throw signal.reason;
+    console.error("Caption Suggestion Error:", error);
+    throw toGenerationError(error);
+  }
+};
+
+/**
+ * Step 1b: Captions in more languages, adapted for each market rather than
+ * translated word by word. Returns only the requested languages.
+ */
+export const translateCaptions = async (
+  items: StickerPlanItem[],
+  languages: CaptionLanguage[],
+  context: string,
+  signal?: AbortSignal
+): Promise<Record<number, CaptionMap>> => {
+  if (items.length === 0 || languages.length === 0) return {};
+  const ai = getAI();
+  const model = TEXT_MODEL;
+
+  const targets = CAPTION_LANGUAGES.filter(lang => languages.includes(lang.id));
+  const source = items.map(item => ({
+    id: item.id,
+    text_tc: getSourceCaptions(item).tc,
+    text_en: getSourceCaptions(item).en ?? '',
+    direction: item.direction
+  }));
+
+  const systemPrompt = `
+    You are localizing the captions of a LINE sticker set.
+    Context/Usage: ${context || 'General daily conversation'}.
+    
+    For every input item output an object with its "id" and the caption in:
+    ${targets.map(lang => `- "${lang.id}": ${lang.prompt}`).join('\n    ')}
     
-    The stickers should cover common emotions: happiness, sadness, anger, love, greeting, goodbye, shock, laughter, etc.
+    CRITICAL INSTRUCTIONS FOR TEXT:
+    1. Write what a native speaker would put on a chat sticker, not a literal translation.
+    2. Keep the meaning and emotion; the drawing stays the same, so it must still match the direction.
+    3. Do NOT include emojis or symbols. Words only; expressive punctuation (!!, ??) is okay.
+    4. Keep text short and punchy.
   `;
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await scheduleModelCall(model, () => ai.models.generateContent({
       model: model,
-      contents: "Generate the sticker plan now.",
+      contents: JSON.stringify(source),
       config: {
+        abortSignal: signal,
         systemInstruction: systemPrompt,
         responseMimeType: "application/json",
         responseSchema: {
@@ -128,84 +401,316 @@ export const generateStickerPlan = async (
           items: {
             type: Type.OBJECT,
             properties: {
-              text_tc: { type: Type.STRING },
-              text_en: { type: Type.STRING }
+              id: { type: Type.INTEGER },
+              ...Object.fromEntries(targets.map(lang => [lang.id, { type: Type.STRING }]))
             },
-            required: ["text_tc", "text_en"]
+            required: ["id", ...targets.map(lang => lang.id)]
           }
         }
       }
-    });
+    }), signal);
 
     const rawJson = response.text;
-    if (!rawJson) throw new Error("No response from Gemini");
+    if (!rawJson) throw new GenerationError('no_text', t('gemini.noTranslations'));
+
+    const translations: Record<number, CaptionMap> = {};
+    for (const item of JSON.parse(rawJson) as ({ id: number } & CaptionMap)[]) {
+      if (!items.some(i => i.id === item.id)) continue;
+      const captions: CaptionMap = {};
+      for (const lang of targets) {
+        const text = (item[lang.id] || '').trim();
+        if (text) captions[lang.id] = text;
+      }
+      translations[item.id] = captions;
+    }
+    return translations;
+  } catch (error: any) {
+    if (signal?.aborted) throw signal.reason;
+    console.error("Caption Translation Error:", error);
+    throw toGenerationError(error);
+  }
+};
 
-    const parsed = JSON.parse(rawJson);
+/**
+ * Step 3: Creators Market listing drafts, once the set is drawn.
+ * Titles and descriptions are written for each sales language; tags are
+ * short English search words per sticker. The caller trims to LINE's limits.
+ */
+export const generateStoreMetadata = async (
+  plan: StickerPlanItem[],
+  languages: CaptionLanguage[],
+  context: string,
+  stylePrompt: string,
+  signal?: AbortSignal
+): Promise<StoreMetadata> => {
+  const ai = getAI();
+  const model = TEXT_MODEL;
+
+  const targets = CAPTION_LANGUAGES.filter(lang => languages.includes(lang.id));
+  const stickers = plan.map(item => ({
+    id: item.id,
+    text_tc: item.captions.tc ?? item.text,
+    text_en: item.captions.en ?? '',
+    direction: item.direction,
+    emotion: item.emotion
+  }));
+  const { title, description, copyright, tagsPerSticker } = STORE_LISTING_LIMITS;
+
+  const systemPrompt = `
+    You are writing the LINE Creators Market listing for a sticker set of ${plan.length} stickers.
+    Context/Usage: ${context || 'General daily conversation'}.
+    Art style: ${stylePrompt || 'not specified'}.
+    The input is the list of stickers (caption and what is drawn).
     
-    return parsed.map((item: any, index: number) => ({
-      id: index,
-      text: `${item.text_tc} (${item.text_en})`,
-      originalTc: item.text_tc,
-      originalEn: item.text_en
-    }));
+    Output a JSON object with:
+    - "listings": one object per language below, each with "lang", "title" and "description".
+      ${targets.map(lang => `- "${lang.id}": ${lang.prompt}`).join('\n      ')}
+    - "copyright": A copyright line, e.g. "(C) ${new Date().getFullYear()} Mochi Studio", naming a short brand that fits the character.
+    - "tags": one object per sticker with its "id" and "tags", the words a buyer would search to find it.
+    
+    CRITICAL LIMITS (LINE rejects anything longer):
+    1. title: at most ${title} characters. Name the character or theme; no quotes, no emojis.
+    2. description: at most ${description} characters. Say who the set is for and when to use it, in a natural native tone.
+    3. copyright: at most ${copyright} characters, half-width letters, digits and symbols only.
+    4. tags: at most ${tagsPerSticker} per sticker, one or two English words each, lower case.
+    5. Do NOT mention other brands, characters or LINE itself.
+  `;
+
+  try {
+    const response = await scheduleModelCall(model, () => ai.models.generateContent({
+      model: model,
+      contents: JSON.stringify(stickers),
+      config: {
+        abortSignal: signal,
+        systemInstruction: systemPrompt,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            listings: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  lang: { type: Type.STRING, enum: targets.map(lang => lang.id) },
+                  title: { type: Type.STRING },
+                  description: { type: Type.STRING }
+                },
+                required: ["lang", "title", "description"]
+              }
+            },
+            copyright: { type: Type.STRING },
+            tags: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  id: { type: Type.INTEGER },
+                  tags: { type: Type.ARRAY, items: { type: Type.STRING } }
+                },
+                required: ["id", "tags"]
+              }
+            }
+          },
+          required: ["listings", "copyright", "tags"]
+        }
+      }
+    }), signal);
+
+    const rawJson = response.text;
+    if (!rawJson) throw new GenerationError('no_text', t('gemini.noMetadata'));
+
+    const parsed = JSON.parse(rawJson) as {
+      listings: { lang: CaptionLanguage; title: string; description: string }[];
+      copyright: string;
+      tags: { id: number; tags: string[] }[];
+    };
+    return {
+      listings: Object.fromEntries(
+        parsed.listings
+          .filter(listing => languages.includes(listing.lang))
+          .map(({ lang, title, description }) => [lang, { title: title || '', description: description || '' }])
+      ),
+      copyright: parsed.copyright || '',
+      tags: Object.fromEntries(parsed.tags.filter(entry => plan.some(item => item.id === entry.id)).map(entry => [entry.id, entry.tags ?? []]))
+    };
   } catch (error: any) {
-    console.error("Plan Generation Error:", error);
-    if (error.message?.includes("400") || error.message?.includes("API key")) {
-        throw new Error("API Key 無效。請檢查 Vercel 環境變數 VITE_API_KEY。");
-    }
-    throw error;
+    if (signal?.aborted) throw signal.reason;
+    console.error("Store Metadata Error:", error);
+    throw toGenerationError(error);
+  }
+};
+
+const toInlinePart = (base64: string) => ({
+  inlineData: {
+    mimeType: base64.substring(base64.indexOf(":") + 1, base64.indexOf(";")),
+    data: base64.split(',')[1]
   }
+});
+
+/**
+ * The character's photos, each followed by its note, then one instruction
+ * telling the model to combine them (different angles of the same subject).
+ */
+const appendCharacterReferences = (parts: any[], referenceImages: ReferenceImage[], instruction: string) => {
+  if (referenceImages.length === 0) return;
+
+  referenceImages.forEach((ref, index) => {
+    parts.push(toInlinePart(ref.data));
+    const note = ref.note.trim();
+    parts.push({
+      text: `REFERENCE PHOTO ${index + 1}/${referenceImages.length}${note ? `: ${note}` : ''}`
+    });
+  });
+
+  parts.push({
+    text: referenceImages.length > 1
+      ? `${instruction} All ${referenceImages.length} reference photos show the SAME subject from different angles or close-ups; combine their details (markings, colours, accessories).`
+      : instruction
+  });
+};
+
+// A custom style's example image: copy its look, not its content
+const appendStyleReference = (parts: any[], styleReferenceBase64: string | null) => {
+  if (!styleReferenceBase64) return;
+
+  parts.push(toInlinePart(styleReferenceBase64));
+  parts.push({
+    text: "STYLE REFERENCE: Copy the art style of this example image (line work, colouring, shading, proportions). Do NOT copy its characters, objects or background."
+  });
+};
+
+// The approved character sheet: the one design every sticker must reproduce
+const appendCharacterSheet = (parts: any[], characterSheetBase64: string | null) => {
+  if (!characterSheetBase64) return;
+
+  parts.push(toInlinePart(characterSheetBase64));
+  parts.push({
+    text: "CHARACTER SHEET: This is the approved design of the character, already in the final art style. Every drawing MUST match it exactly (fur/hair colour, markings, outfit, accessories, proportions). Only pose and expression may change."
+  });
+};
+
+/**
+ * Step 1b (optional): Generate a character turnaround sheet.
+ * Once approved it is sent with every image call so the character doesn't drift between batches.
+ */
+export const generateCharacterSheet = async (
+  stylePrompt: string,
+  referenceImages: ReferenceImage[],
+  styleReferenceBase64: string | null = null,
+  signal?: AbortSignal
+): Promise<string> => {
+  const ai = getAI();
+
+  const sheetPrompt = `
+    Generate a character turnaround sheet for a LINE sticker set.
+    
+    Layout:
+    - The SAME character shown 4 times side by side: front view, three-quarter view, side view, back view.
+    - Full body, neutral standing pose, calm neutral expression.
+    
+    Style Guidelines: ${stylePrompt}
+    
+    Composition Rules:
+    - Background must be solid white (#FFFFFF).
+    - Identical colours, markings, outfit and proportions in every view.
+    - NO text, labels or grid lines.
+  `;
+
+  const parts: any[] = [];
+
+  appendCharacterReferences(
+    parts,
+    referenceImages,
+    "STRICT: The character MUST match the provided reference images (same breed/person, key features, colors, accessories), adapted to the requested art style."
+  );
+  appendStyleReference(parts, styleReferenceBase64);
+  parts.push({ text: sheetPrompt });
+
+  return retryWithModelFallback(async (modelName) => {
+    const response = await ai.models.generateContent({
+      model: modelName,
+      contents: { parts: parts },
+      config: {
+        abortSignal: signal,
+        imageConfig: { aspectRatio: "16:9" },
+        safetySettings: SAFETY_SETTINGS
+      }
+    });
+
+    return extractImage(response, t('gemini.noCharacterSheet'));
+  }, signal);
+};
+
+// Filler expressions for cells without a caption (the model still has to draw a full grid)
+const FILLER_EXPRESSIONS = ['Happy', 'Sad', 'Angry', 'Excited', 'Surprised', 'Sleepy', 'Laughing', 'Shy', 'Thinking'];
+
+const describeCell = (index: number, columns: number, rows: number) => {
+  if (columns === 2 && rows === 2) return ['Top-Left', 'Top-Right', 'Bottom-Left', 'Bottom-Right'][index];
+  if (rows === 1) return `Position ${index + 1} from the left`;
+  return `Row ${Math.floor(index / columns) + 1}, Column ${(index % columns) + 1}`;
+};
+
+// Closest supported output shape for the grid: square, or wide for a single row of cells
+const gridAspectRatio = (columns: number, rows: number) => {
+  if (columns === rows) return '1:1';
+  return columns / rows >= 3 ? '21:9' : '16:9';
 };
 
+// Caption plus the planned pose, when there is one
+const describePrompt = (prompt: StickerPrompt) =>
+  prompt.direction.trim() ? `${prompt.text} (pose: ${prompt.direction.trim()})` : prompt.text;
+
 /**
- * Step 2a: Generate a 2x2 GRID of stickers (4 stickers in 1 image)
+ * Step 2a: Generate a GRID of stickers (columns x rows poses in 1 image)
  * This is the batching strategy to save API calls and time.
  */
 export const generateStickerGrid = async (
-  captions: string[], // Array of up to 4 captions
+  prompts: StickerPrompt[], // Up to columns x rows stickers
   stylePrompt: string,
-  referenceImageBase64: string | null
+  referenceImages: ReferenceImage[],
+  columns: number,
+  rows: number,
+  styleReferenceBase64: string | null = null,
+  characterSheetBase64: string | null = null,
+  signal?: AbortSignal
 ): Promise<string> => {
   const ai = getAI();
+  const cellCount = columns * rows;
+  const layout = `${columns}x${rows}`;
+
+  const meanings = Array.from({ length: cellCount }, (_, i) =>
+    `${i + 1}. ${describeCell(i, columns, rows)}: ${prompts[i] ? describePrompt(prompts[i]) : FILLER_EXPRESSIONS[i % FILLER_EXPRESSIONS.length]}`
+  ).join('\n    ');
 
   // Construct a prompt that asks for a grid layout
   const gridPrompt = `
-    Generate a single character design sheet featuring 4 distinct expressions/poses arranged in a 2x2 grid layout.
+    Generate a single character design sheet featuring ${cellCount} distinct expressions/poses arranged in a ${layout} grid layout.
     
-    The 4 expressions should correspond to these meanings:
-    1. Top-Left: ${captions[0] || 'Happy'}
-    2. Top-Right: ${captions[1] || 'Sad'}
-    3. Bottom-Left: ${captions[2] || 'Angry'}
-    4. Bottom-Right: ${captions[3] || 'Excited'}
+    The ${cellCount} expressions should correspond to these meanings (read left-to-right, top-to-bottom):
+    ${meanings}
     
     Style Guidelines: ${stylePrompt}
     
     Composition Rules:
-    - Output must be a 2x2 grid.
-    - Each quadrant contains ONE character pose.
+    - Output must be a ${layout} grid.
+    - Each cell contains ONE character pose, kept fully inside its cell.
     - Background must be solid white (#FFFFFF).
     - Do NOT draw grid lines if possible, just arrange them neatly.
-    - Character must be consistent across all 4 poses.
+    - Character must be consistent across all ${cellCount} poses.
     - NO text inside the grid.
   `;
 
   const parts: any[] = [];
   
-  if (referenceImageBase64) {
-    const data = referenceImageBase64.split(',')[1];
-    const mimeType = referenceImageBase64.substring(
-      referenceImageBase64.indexOf(":") + 1, 
-      referenceImageBase64.indexOf(";")
-    );
-
-    parts.push({
-      inlineData: { mimeType: mimeType, data: data }
-    });
-    parts.push({
-      text: "STRICT: The character in the grid MUST match the provided reference image (same breed/person, accessories)."
-    });
-  }
-
+  appendCharacterReferences(
+    parts,
+    referenceImages,
+    "STRICT: The character in the grid MUST match the provided reference images (same breed/person, accessories)."
+  );
+
+  appendStyleReference(parts, styleReferenceBase64);
+  appendCharacterSheet(parts, characterSheetBase64);
   parts.push({ text: gridPrompt });
 
   // Use the Retry+Fallback Wrapper
@@ -214,55 +719,39 @@ export const generateStickerGrid = async (
       model: modelName,
       contents: { parts: parts },
       config: {
-        imageConfig: { aspectRatio: "1:1" },
-        safetySettings: [
-          { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-          { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-          { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-          { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-        ]
+        abortSignal: signal,
+        imageConfig: { aspectRatio: gridAspectRatio(columns, rows) },
+        safetySettings: SAFETY_SETTINGS
       }
     });
 
-    let base64Image = '';
-    const partsResponse = response.candidates?.[0]?.content?.parts;
-    
-    if (partsResponse) {
-      for (const part of partsResponse) {
-        if (part.inlineData && part.inlineData.data) {
-          base64Image = `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
-          break;
-        }
-      }
-    }
-
-    if (!base64Image) {
-      if (response.candidates?.[0]?.finishReason) {
-         throw new Error(`生成被阻擋 (Safety: ${response.candidates[0].finishReason})`);
-      }
-      throw new Error("生成失敗：模型未回傳圖片");
-    }
-
-    return base64Image;
-  });
+    return extractImage(response, t('gemini.noImage'));
+  }, signal);
 };
 
 /**
  * Step 2b: Generate a single image (Fallback or Regenerate Single)
  */
 export const generateSingleStickerImage = async (
-  textCaption: string,
+  prompt: StickerPrompt,
   stylePrompt: string,
-  referenceImageBase64: string | null
+  referenceImages: ReferenceImage[],
+  styleReferenceBase64: string | null = null,
+  characterSheetBase64: string | null = null,
+  signal?: AbortSignal
 ): Promise<string> => {
   const ai = getAI();
+  const textCaption = prompt.text;
+  const direction = prompt.direction.trim();
   
   const finalPrompt = `
     Generate a LINE sticker image based on this meaning: "${textCaption}".
     
     Instructions:
     1. Understand the meaning and emotion of the caption "${textCaption}" (Ignore the English part if present, focus on the Traditional Chinese meaning).
-    2. Draw a character performing an action or showing an expression that perfectly matches this caption.
+    2. ${direction
+      ? `Draw the character ${direction}.`
+      : 'Draw a character performing an action or showing an expression that perfectly matches this caption.'}
     3. Style: ${stylePrompt}.
     4. Composition: Character centered, Sticker art style, High contrast.
     5. Background: Solid pure white (#FFFFFF) for easy removal.
@@ -274,25 +763,14 @@ export const generateSingleStickerImage = async (
 
   const parts: any[] = [];
   
-  if (referenceImageBase64) {
-    const data = referenceImageBase64.split(',')[1];
-    const mimeType = referenceImageBase64.substring(
-      referenceImageBase64.indexOf(":") + 1, 
-      referenceImageBase64.indexOf(";")
-    );
-
-    parts.push({
-      inlineData: {
-        mimeType: mimeType,
-        data: data
-      }
-    });
-
-    parts.push({
-      text: "STRICT INSTRUCTION: The output character MUST look exactly like the subject in the provided reference image (same breed/person, same key features, colors, and accessories), but adapted to the requested art style."
-    });
-  }
-
+  appendCharacterReferences(
+    parts,
+    referenceImages,
+    "STRICT INSTRUCTION: The output character MUST look exactly like the subject in the provided reference images (same breed/person, same key features, colors, and accessories), but adapted to the requested art style."
+  );
+
+  appendStyleReference(parts, styleReferenceBase64);
+  appendCharacterSheet(parts, characterSheetBase64);
   parts.push({ text: finalPrompt });
 
   // Use the Retry+Fallback Wrapper
@@ -303,37 +781,96 @@ export const generateSingleStickerImage = async (
         parts: parts
       },
       config: {
+        abortSignal: signal,
         imageConfig: {
           aspectRatio: "1:1"
         },
-        safetySettings: [
-          { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-          { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-          { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-          { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-        ]
+        safetySettings: SAFETY_SETTINGS
       }
     });
 
-    let base64Image = '';
-    const partsResponse = response.candidates?.[0]?.content?.parts;
+    return extractImage(response, t('gemini.noImage'));
+  }, signal);
+};
+
+/**
+ * Step 2c: Generate an animation frame sheet for one sticker (Animated mode)
+ * The frames come back as a single image laid out row by row, which we slice locally.
+ */
+export const generateAnimationSheet = async (
+  prompt: StickerPrompt,
+  stylePrompt: string,
+  referenceImages: ReferenceImage[],
+  frameCount: number,
+  columns: number,
+  styleReferenceBase64: string | null = null,
+  characterSheetBase64: string | null = null,
+  signal?: AbortSignal
+): Promise<string> => {
+  const ai = getAI();
+  const rows = Math.ceil(frameCount / columns);
+  const textCaption = prompt.text;
+  const direction = prompt.direction.trim();
+
+  const sheetPrompt = `
+    Generate an animation sprite sheet for a LINE animated sticker meaning: "${textCaption}".
     
-    if (partsResponse) {
-      for (const part of partsResponse) {
-        if (part.inlineData && part.inlineData.data) {
-          base64Image = `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
-          break;
-        }
-      }
-    }
+    Layout:
+    - ${frameCount} sequential frames arranged in a ${columns}x${rows} grid, read left-to-right, top-to-bottom.
+    - Every frame shows the SAME character at the SAME size and position; only the motion changes.
+    - The last frame must flow smoothly back into the first frame (seamless loop).
+    
+    Animation:
+    - ${direction
+      ? `The character ${direction}, as a short, lively looping motion.`
+      : `A short, lively action or expression that matches the meaning of "${textCaption}" (focus on the Traditional Chinese meaning).`}
+    
+    Style Guidelines: ${stylePrompt}
+    
+    Composition Rules:
+    - Background must be solid white (#FFFFFF).
+    - Do NOT draw grid lines or frame borders.
+    - Keep the whole character inside its own cell; nothing may cross into a neighbouring frame.
+    - NO text inside the sheet.
+  `;
+
+  const parts: any[] = [];
+
+  appendCharacterReferences(
+    parts,
+    referenceImages,
+    "STRICT: The character in every frame MUST match the provided reference images (same breed/person, accessories)."
+  );
 
-    if (!base64Image) {
-      if (response.candidates?.[0]?.finishReason) {
-         throw new Error(`生成被阻擋 (Safety: ${response.candidates[0].finishReason})`);
+  appendStyleReference(parts, styleReferenceBase64);
+  appendCharacterSheet(parts, characterSheetBase64);
+  parts.push({ text: sheetPrompt });
+
+  return retryWithModelFallback(async (modelName) => {
+    const response = await ai.models.generateContent({
+      model: modelName,
+      contents: { parts: parts },
+      config: {
+        abortSignal: signal,
+        imageConfig: { aspectRatio: "1:1" },
+        safetySettings: SAFETY_SETTINGS
       }
-      throw new Error("生成失敗：模型未回傳圖片 (No image generated).");
-    }
+    });
 
-    return base64Image;
-  });
+    return extractImage(response, t('gemini.noFrames'));
+  }, signal);
+};
+
+export const geminiProvider: StickerProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  batchDelayMs: getCallIntervalMs(IMAGE_MODELS[0]),
+  generateStickerPlan,
+  suggestCaptions,
+  translateCaptions,
+  generateStoreMetadata,
+  generateCharacterSheet,
+  generateStickerGrid,
+  generateSingleStickerImage,
+  generateAnimationSheet
 };
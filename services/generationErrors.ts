@@ -0,0 +1,94 @@
+import { GenerationErrorKind } from '../types';
+import { t } from '../i18n';
+import { getRetryDelayMs } from './requestScheduler';
+
+// ==========================================
+// Generation Error Taxonomy
+// Providers and the local pipeline throw GenerationError so the UI can explain
+// what went wrong (in the UI language) and offer the right next step.
+// ==========================================
+
+// What the results screen offers next to a failed sticker
+export type ErrorAction = 'retry' | 'retry_later' | 'edit_caption' | 'none';
+
+// Message and hint are in the catalog as error.<kind>.message / error.<kind>.hint
+interface ErrorKindInfo {
+  action: ErrorAction;
+  retryable: boolean; // Worth trying the same request again without changes
+}
+
+export const ERROR_KINDS: Record<GenerationErrorKind, ErrorKindInfo> = {
+  auth: { action: 'none', retryable: false },
+  quota: { action: 'retry_later', retryable: true },
+  overloaded: { action: 'retry', retryable: true },
+  safety: { action: 'edit_caption', retryable: false },
+  invalid_request: { action: 'edit_caption', retryable: false },
+  no_image: { action: 'retry', retryable: true },
+  no_text: { action: 'retry', retryable: true },
+  duplicates: { action: 'retry', retryable: true },
+  slicing: { action: 'retry', retryable: true },
+  processing: { action: 'retry', retryable: true },
+  unknown: { action: 'retry', retryable: true }
+};
+
+// Default explanation when the thrower doesn't give a specific one
+export const getErrorMessage = (kind: GenerationErrorKind) => t(`error.${kind}.message`);
+
+export const getErrorHint = (kind: GenerationErrorKind) => t(`error.${kind}.hint`);
+
+// Alert text for a failed action, e.g. "產生計畫失敗: <message>" plus the next step
+export const describeFailure = (action: string, error: GenerationError) =>
+  t('error.failed', { action, message: error.message, hint: getErrorHint(error.kind) });
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly retryable: boolean;
+  readonly finishReason?: string; // Safety blocks: the model's finish/block reason
+  readonly detail?: string; // Raw upstream message, for the console and tooltips
+  readonly retryAfterMs?: number; // The server's own retry hint, when it gave one
+
+  constructor(
+    kind: GenerationErrorKind,
+    message: string = getErrorMessage(kind),
+    options: { finishReason?: string; detail?: string; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.retryable = ERROR_KINDS[kind].retryable;
+    this.finishReason = options.finishReason;
+    this.detail = options.detail;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Turns anything thrown by an SDK or the browser into a GenerationError,
+ * using the HTTP status / error code found in the message.
+ */
+export const toGenerationError = (error: unknown, fallbackKind: GenerationErrorKind = 'unknown'): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  const detail = error instanceof Error ? error.message : String(error);
+  // Only numbers given as an HTTP status or error code ("got status: 403", "code":429), not any 403 in the text
+  const hasStatus = (codes: string) => new RegExp(`\\b(?:status|code)\\b["\\s:]*(?:${codes})\\b`, 'i').test(detail);
+  const kindOf = (): GenerationErrorKind => {
+    if (/API_KEY_INVALID|API key not valid|PERMISSION_DENIED|UNAUTHENTICATED/.test(detail) || hasStatus('401|403')) return 'auth';
+    if (/RESOURCE_EXHAUSTED|quota/i.test(detail) || hasStatus('429')) return 'quota';
+    if (/UNAVAILABLE|overloaded/i.test(detail) || hasStatus('500|503')) return 'overloaded';
+    if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST/.test(detail)) return 'safety';
+    if (/INVALID_ARGUMENT/.test(detail) || hasStatus('400')) return 'invalid_request';
+    return fallbackKind;
+  };
+
+  return new GenerationError(kindOf(), undefined, { detail, retryAfterMs: getRetryDelayMs(error) ?? undefined });
+};
+
+// Runs a local canvas step (slicing, background removal, captions); failures become 'processing'
+export const asProcessingStep = async <T>(step: () => Promise<T>): Promise<T> => {
+  try {
+    return await step();
+  } catch (error) {
+    throw toGenerationError(error, 'processing');
+  }
+};
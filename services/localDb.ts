@@ -0,0 +1,54 @@
+// ==========================================
+// Local Database (IndexedDB)
+// Projects and custom styles hold base64 images, which quickly outgrow localStorage.
+// ==========================================
+
+const DB_NAME = 'line-sticker-studio';
+const DB_VERSION = 2;
+
+export const PROJECTS_STORE = 'projects';
+export const STYLES_STORE = 'styles';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        const store = db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+      // v2: custom art styles
+      if (!db.objectStoreNames.contains(STYLES_STORE)) {
+        db.createObjectStore(STYLES_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Wraps a single-request transaction in a promise
+export const runStoreRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,334 @@
+import { CaptionLanguage, CaptionMap, CaptionSuggestion, CaptionTone, ReferenceImage, StickerEmotion, StickerPlanItem, StickerPrompt, StickerProvider, StoreMetadata } from '../types';
+import { isNearDuplicate } from '../utils/captionSimilarity';
+import { getSourceCaptions } from '../utils/captionLanguages';
+
+// ==========================================
+// Offline Mock Backend
+// Deterministic canned data so the whole flow can run without an API key.
+// ==========================================
+
+const MOCK_LATENCY_MS = 400;
+
+// Simulated latency; rejects as soon as the run is cancelled, like a real request
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const CANNED_CAPTIONS: { tc: string; en: string; direction: string; emotion: StickerEmotion }[] = [
+  { tc: '早安', en: 'Good Morning', direction: 'waving one hand with a sleepy yawn', emotion: 'greeting' },
+  { tc: '謝謝', en: 'Thank You', direction: 'bowing with hands together', emotion: 'thanks' },
+  { tc: '好的', en: 'OK', direction: 'making an OK sign with one hand', emotion: 'reply' },
+  { tc: '哈哈哈', en: 'LOL', direction: 'laughing hard, holding belly', emotion: 'happy' },
+  { tc: '生氣了', en: 'So Angry', direction: 'arms crossed, puffed cheeks', emotion: 'angry' },
+  { tc: '好難過', en: 'So Sad', direction: 'sitting and crying with tears streaming', emotion: 'sad' },
+  { tc: '愛你', en: 'Love You', direction: 'making a heart shape with both arms', emotion: 'love' },
+  { tc: '晚安', en: 'Good Night', direction: 'hugging a pillow, eyes closed', emotion: 'greeting' },
+  { tc: '加油', en: 'You Got This', direction: 'raising a fist, cheering', emotion: 'cheer' },
+  { tc: '真的假的', en: 'Really??', direction: 'leaning forward with wide eyes', emotion: 'surprised' },
+  { tc: '辛苦了', en: 'Good Job', direction: 'patting a shoulder gently', emotion: 'thanks' },
+  { tc: '對不起', en: 'Sorry', direction: 'bowing deeply with hands together', emotion: 'apology' },
+  { tc: '等等我', en: 'Wait For Me', direction: 'running with one arm reaching forward', emotion: 'daily' },
+  { tc: '肚子餓', en: 'Hungry', direction: 'holding an empty bowl, drooling', emotion: 'daily' },
+  { tc: '好累', en: 'So Tired', direction: 'lying flat on the floor', emotion: 'tired' },
+  { tc: '讚啦', en: 'Awesome', direction: 'giving a big thumbs up', emotion: 'happy' },
+  { tc: '拜託', en: 'Please', direction: 'hands clasped, pleading eyes', emotion: 'reply' },
+  { tc: '嚇死我了', en: 'Scared Me', direction: 'jumping back in fright', emotion: 'surprised' },
+  { tc: '收到', en: 'Got It', direction: 'saluting', emotion: 'reply' },
+  { tc: '不要', en: 'No Way', direction: 'crossing arms in an X', emotion: 'reply' },
+  { tc: '想你', en: 'Miss You', direction: 'hugging a plush toy, looking wistful', emotion: 'love' },
+  { tc: '恭喜', en: 'Congrats', direction: 'throwing confetti', emotion: 'happy' },
+  { tc: '在忙', en: 'Busy', direction: 'typing fast at a laptop', emotion: 'daily' },
+  { tc: '掰掰', en: 'Bye Bye', direction: 'waving goodbye while walking away', emotion: 'greeting' },
+  { tc: '好喔', en: 'Sure', direction: 'nodding with a small smile', emotion: 'reply' },
+  { tc: '沒問題', en: 'No Problem', direction: 'patting chest confidently', emotion: 'reply' },
+  { tc: '我來了', en: 'On My Way', direction: 'dashing in with a speed trail', emotion: 'daily' },
+  { tc: '吃飯了嗎', en: 'Eaten Yet?', direction: 'holding up chopsticks and a bowl', emotion: 'greeting' },
+  { tc: '下班囉', en: 'Off Work', direction: 'stretching arms up happily', emotion: 'daily' },
+  { tc: '好冷', en: 'So Cold', direction: 'shivering wrapped in a scarf', emotion: 'daily' },
+  { tc: '好熱', en: 'So Hot', direction: 'fanning face, sweating', emotion: 'daily' },
+  { tc: '生日快樂', en: 'Happy Birthday', direction: 'holding a birthday cake', emotion: 'happy' },
+  { tc: '新年快樂', en: 'Happy New Year', direction: 'holding a red envelope', emotion: 'greeting' },
+  { tc: '害羞', en: 'Shy', direction: 'covering blushing face with hands', emotion: 'love' },
+  { tc: '無言', en: 'Speechless', direction: 'blank stare with a sweat drop', emotion: 'tired' },
+  { tc: '偷看', en: 'Peeking', direction: 'peeking out from behind a wall', emotion: 'daily' },
+  { tc: '抱抱', en: 'Hugs', direction: 'arms wide open for a hug', emotion: 'love' },
+  { tc: '衝啊', en: "Let's Go", direction: 'charging forward with a raised fist', emotion: 'cheer' },
+  { tc: '怎麼辦', en: 'What Now', direction: 'holding head with both hands, panicking', emotion: 'surprised' },
+  { tc: '放假啦', en: 'Holiday!', direction: 'jumping with joy', emotion: 'happy' }
+];
+
+const PALETTE = ['#f9a8d4', '#93c5fd', '#fcd34d', '#86efac', '#c4b5fd', '#fdba74', '#5eead4', '#fca5a5'];
+
+// Small stable string hash so the same caption always draws the same way
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+/**
+ * Draws a simple round character into the given cell.
+ * Body colour and mouth shape are derived from the caption.
+ */
+const drawMockCharacter = (
+  ctx: CanvasRenderingContext2D,
+  cellX: number,
+  cellY: number,
+  cellSize: number,
+  seed: string,
+  bounce = 0 // Vertical offset as a fraction of the cell, used for animation frames
+) => {
+  const hash = hashString(seed);
+  const cx = cellX + cellSize / 2;
+  const cy = cellY + cellSize / 2 - bounce * cellSize;
+  const radius = cellSize * 0.32;
+
+  // Body
+  ctx.fillStyle = PALETTE[hash % PALETTE.length];
+  ctx.strokeStyle = '#1e293b';
+  ctx.lineWidth = cellSize * 0.02;
+  ctx.beginPath();
+  ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+
+  // Eyes
+  const eyeOffsetX = radius * 0.38;
+  const eyeY = cy - radius * 0.15;
+  ctx.fillStyle = '#1e293b';
+  [-1, 1].forEach(side => {
+    ctx.beginPath();
+    ctx.arc(cx + side * eyeOffsetX, eyeY, radius * 0.09, 0, Math.PI * 2);
+    ctx.fill();
+  });
+
+  // Mouth: smile, frown or open
+  const mouthY = cy + radius * 0.3;
+  ctx.beginPath();
+  switch (hash % 3) {
+    case 0:
+      ctx.arc(cx, mouthY - radius * 0.15, radius * 0.3, 0.15 * Math.PI, 0.85 * Math.PI);
+      ctx.stroke();
+      break;
+    case 1:
+      ctx.arc(cx, mouthY + radius * 0.2, radius * 0.3, 1.15 * Math.PI, 1.85 * Math.PI);
+      ctx.stroke();
+      break;
+    default:
+      ctx.ellipse(cx, mouthY, radius * 0.14, radius * 0.18, 0, 0, Math.PI * 2);
+      ctx.fill();
+  }
+};
+
+const renderMockSheet = (seeds: string[], columns: number, bounces: number[] = []): string => {
+  const cellSize = 512;
+  const rows = Math.ceil(seeds.length / columns);
+  const canvas = document.createElement('canvas');
+  canvas.width = cellSize * columns;
+  canvas.height = cellSize * Math.max(rows, columns);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Cannot get canvas context');
+
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  seeds.forEach((seed, index) => {
+    const col = index % columns;
+    const row = Math.floor(index / columns);
+    drawMockCharacter(ctx, col * cellSize, row * cellSize, cellSize, seed, bounces[index]);
+  });
+
+  return canvas.toDataURL('image/png');
+};
+
+// ==========================================
+// SERVICES
+// ==========================================
+
+export const generateStickerPlan = async (
+  count: number,
+  _context: string,
+  signal?: AbortSignal
+): Promise<StickerPlanItem[]> => {
+  await wait(MOCK_LATENCY_MS, signal);
+
+  return Array.from({ length: count }, (_, index) => {
+    const caption = CANNED_CAPTIONS[index % CANNED_CAPTIONS.length];
+    return {
+      id: index,
+      text: `${caption.tc} (${caption.en})`,
+      captions: { tc: caption.tc, en: caption.en },
+      direction: caption.direction,
+      emotion: caption.emotion
+    };
+  });
+};
+
+// Canned rewrites so every tone visibly changes the caption
+const MOCK_TONES: Record<CaptionTone, (tc: string, en: string) => { tc: string; en: string }> = {
+  funnier: (tc, en) => ({ tc: `${tc}啦啦啦`, en: `${en} lol` }),
+  politer: (tc, en) => ({ tc: `不好意思，${tc}`, en: `Excuse me, ${en}` }),
+  shorter: (tc, en) => ({ tc: Array.from(tc).slice(0, 2).join(''), en: en.split(' ')[0] })
+};
+
+export const suggestCaptions = async (
+  target: StickerPlanItem,
+  plan: StickerPlanItem[],
+  _context: string,
+  count: number,
+  tone: CaptionTone | null = null,
+  signal?: AbortSignal
+): Promise<CaptionSuggestion[]> => {
+  await wait(MOCK_LATENCY_MS, signal);
+
+  if (tone) {
+    const { tc, en } = MOCK_TONES[tone](target.captions.tc ?? target.text, target.captions.en ?? '');
+    return [{ captions: { tc, en }, direction: target.direction, emotion: target.emotion }];
+  }
+
+  // Unused canned captions, skipping anything close to a line already in the plan
+  return CANNED_CAPTIONS
+    .filter(caption => !plan.some(item => isNearDuplicate(item.captions.tc ?? item.text, caption.tc)))
+    .slice(0, count)
+    .map(caption => ({
+      captions: { tc: caption.tc, en: caption.en },
+      direction: caption.direction,
+      emotion: caption.emotion
+    }));
+};
+
+// Marks each caption with something in the target script so the switch and packs are visibly different
+const MOCK_TRANSLATIONS: Record<CaptionLanguage, (tc: string, en: string) => string> = {
+  tc: tc => tc,
+  en: (_tc, en) => en,
+  ja: tc => `${tc}です`,
+  th: (_tc, en) => `${en} นะ`,
+  ko: (_tc, en) => `${en} 요`,
+  sc: tc => `${tc}（简）`,
+  id: (_tc, en) => `${en} ya`
+};
+
+export const translateCaptions = async (
+  items: StickerPlanItem[],
+  languages: CaptionLanguage[],
+  _context: string,
+  signal?: AbortSignal
+): Promise<Record<number, CaptionMap>> => {
+  await wait(MOCK_LATENCY_MS, signal);
+
+  return Object.fromEntries(items.map(item => {
+    const { tc, en } = getSourceCaptions(item);
+    return [item.id, Object.fromEntries(languages.map(lang => [lang, MOCK_TRANSLATIONS[lang](tc, en ?? tc)]))];
+  }));
+};
+
+// A listing built from the captions themselves, so each language reads differently
+export const generateStoreMetadata = async (
+  plan: StickerPlanItem[],
+  languages: CaptionLanguage[],
+  context: string,
+  _stylePrompt: string,
+  signal?: AbortSignal
+): Promise<StoreMetadata> => {
+  await wait(MOCK_LATENCY_MS, signal);
+
+  const captionsIn = (lang: CaptionLanguage) => plan.map(item => item.captions[lang] ?? item.text);
+  return {
+    listings: Object.fromEntries(languages.map(lang => [lang, {
+      title: `${context || 'Mock'}: ${captionsIn(lang).slice(0, 2).join(' / ')}`,
+      description: captionsIn(lang).join(', ')
+    }])),
+    copyright: `(C) ${new Date().getFullYear()} Mock Studio`,
+    tags: Object.fromEntries(plan.map(item => [
+      item.id,
+      [item.emotion, ...(item.captions.en ?? '').toLowerCase().split(/\W+/).filter(Boolean)]
+    ]))
+  };
+};
+
+// Front, three-quarter, side and back views of one neutral character
+export const generateCharacterSheet = async (
+  stylePrompt: string,
+  _referenceImages: ReferenceImage[],
+  _styleReferenceBase64: string | null = null,
+  signal?: AbortSignal
+): Promise<string> => {
+  await wait(MOCK_LATENCY_MS, signal);
+  return renderMockSheet(Array.from({ length: 4 }, () => `character|${stylePrompt}`), 2);
+};
+
+export const generateStickerGrid = async (
+  prompts: StickerPrompt[],
+  stylePrompt: string,
+  _referenceImages: ReferenceImage[],
+  columns: number,
+  rows: number,
+  _styleReferenceBase64: string | null = null,
+  _characterSheetBase64: string | null = null,
+  signal?: AbortSignal
+): Promise<string> => {
+  await wait(MOCK_LATENCY_MS, signal);
+  // Directions are part of the seed so candidate takes of one caption look different
+  const seeds = Array.from({ length: columns * rows }, (_, i) =>
+    prompts[i] ? `${prompts[i].text}|${prompts[i].direction}|${stylePrompt}` : `${i}|${stylePrompt}`
+  );
+  return renderMockSheet(seeds, columns);
+};
+
+export const generateSingleStickerImage = async (
+  prompt: StickerPrompt,
+  stylePrompt: string,
+  _referenceImages: ReferenceImage[],
+  _styleReferenceBase64: string | null = null,
+  _characterSheetBase64: string | null = null,
+  signal?: AbortSignal
+): Promise<string> => {
+  await wait(MOCK_LATENCY_MS, signal);
+  return renderMockSheet([`${prompt.text}|${stylePrompt}`], 1);
+};
+
+export const generateAnimationSheet = async (
+  prompt: StickerPrompt,
+  stylePrompt: string,
+  _referenceImages: ReferenceImage[],
+  frameCount: number,
+  columns: number,
+  _styleReferenceBase64: string | null = null,
+  _characterSheetBase64: string | null = null,
+  signal?: AbortSignal
+): Promise<string> => {
+  await wait(MOCK_LATENCY_MS, signal);
+  const seed = `${prompt.text}|${stylePrompt}`;
+  // One full hop per loop so the APNG loops seamlessly
+  const bounces = Array.from({ length: frameCount }, (_, i) => Math.sin((i / frameCount) * Math.PI) * 0.1);
+  return renderMockSheet(Array(frameCount).fill(seed), columns, bounces);
+};
+
+export const mockProvider: StickerProvider = {
+  id: 'mock',
+  name: '離線模擬',
+  batchDelayMs: 0,
+  generateStickerPlan,
+  suggestCaptions,
+  translateCaptions,
+  generateStoreMetadata,
+  generateCharacterSheet,
+  generateStickerGrid,
+  generateSingleStickerImage,
+  generateAnimationSheet
+};
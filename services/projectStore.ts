@@ -0,0 +1,131 @@
+import { AppState, GeneratedSticker, SavedProject, ProjectSummary, StickerPlanItem, VersionSource } from '../types';
+import { DEFAULT_CAPTION_LAYOUT, DEFAULT_GRID_SIZE, DEFAULT_LANGUAGES } from '../constants';
+import { PROJECTS_STORE, runStoreRequest } from './localDb';
+import { formatDate, t } from '../i18n';
+import { addVersion, createVersion } from '../utils/stickerVersions';
+
+// ==========================================
+// Project Persistence
+// ==========================================
+
+const runRequest = <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => runStoreRequest(PROJECTS_STORE, mode, action);
+
+export const createProjectId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Snapshot the persistent part of AppState.
+ * Transient flags (isThinking, progress) are left out.
+ */
+export const toSavedProject = (state: AppState, createdAt?: number): SavedProject | null => {
+  if (!state.projectId) return null;
+  const now = Date.now();
+  return {
+    id: state.projectId,
+    name: state.usageContext.trim() || t('projects.defaultName', { date: formatDate(createdAt ?? now) }),
+    createdAt: createdAt ?? now,
+    updatedAt: now,
+    step: state.step,
+    referenceImages: state.referenceImages,
+    characterSheet: state.characterSheet,
+    selectedStyleId: state.selectedStyleId,
+    count: state.count,
+    mode: state.mode,
+    gridSize: state.gridSize,
+    candidateCount: state.candidateCount,
+    usageContext: state.usageContext,
+    languages: state.languages,
+    stickerPlan: state.stickerPlan,
+    results: state.results,
+    storeMetadata: state.storeMetadata
+  };
+};
+
+export const saveProject = async (project: SavedProject): Promise<void> => {
+  await runRequest('readwrite', store => store.put(project));
+};
+
+// Projects saved before the caption editor only stored the caption tilt (radians)
+type LegacySticker = GeneratedSticker & { textAngle?: number };
+
+const migrateCaption = ({ textAngle, ...sticker }: LegacySticker): GeneratedSticker => {
+  if (sticker.caption || textAngle === undefined) return sticker;
+  return { ...sticker, caption: { ...DEFAULT_CAPTION_LAYOUT, rotation: textAngle * (180 / Math.PI) } };
+};
+
+// Stickers saved before version history: the art they have becomes their only, pinned version
+const migrateVersions = (sticker: GeneratedSticker, source: VersionSource, savedAt: number): GeneratedSticker => {
+  if (sticker.versions) return sticker;
+  const empty = { ...sticker, versions: [] };
+  if (!sticker.imageUrl || !sticker.processedUrl) return empty;
+  const { imageUrl, processedUrl, frames, caption, removal, maskUrl } = sticker;
+  return addVersion(empty, createVersion({ imageUrl, processedUrl, frames, caption, removal, maskUrl }, sticker.text, source, savedAt));
+};
+
+// Plans saved before multi-language captions kept only the Chinese and English versions
+type LegacyPlanItem = StickerPlanItem & { originalTc?: string; originalEn?: string };
+
+const migratePlanItem = ({ originalTc, originalEn, ...item }: LegacyPlanItem): StickerPlanItem => ({
+  ...item,
+  captions: item.captions ?? { tc: originalTc ?? item.text, en: originalEn ?? item.text },
+  // Plans from before drawing directions: the image prompts fall back to the caption
+  direction: item.direction ?? '',
+  emotion: item.emotion ?? 'other'
+});
+
+// Projects saved before multiple reference photos held a single image
+type LegacyProject = SavedProject & { referenceImage?: string | null };
+
+const migrateProject = ({ referenceImage, ...project }: LegacyProject): SavedProject => ({
+  ...project,
+  referenceImages: project.referenceImages ?? (referenceImage ? [{ id: 'ref-0', data: referenceImage, note: '' }] : []),
+  languages: project.languages ?? DEFAULT_LANGUAGES,
+  stickerPlan: project.stickerPlan.map(migratePlanItem)
+});
+
+/**
+ * Loads a project. Anything that was mid-generation when the page closed
+ * comes back as 'pending' so it can be resumed.
+ */
+export const loadProject = async (id: string): Promise<SavedProject | null> => {
+  const stored = await runRequest<LegacyProject | undefined>('readonly', store => store.get(id));
+  if (!stored) return null;
+  const project = migrateProject(stored);
+  // Grid layouts only apply to static sets; animated stickers are drawn one per call
+  const legacySource: VersionSource = project.mode === 'static' && (project.gridSize ?? DEFAULT_GRID_SIZE) > 1 ? 'grid' : 'single';
+
+  return {
+    ...project,
+    step: project.step === 'generating' ? 'complete' : project.step,
+    results: project.results
+      .map(migrateCaption)
+      .map(r => migrateVersions(r, legacySource, project.updatedAt))
+      .map(r => (r.status === 'generating' ? { ...r, status: 'pending' } : r))
+  };
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await runRequest<LegacyProject[]>('readonly', store => store.getAll());
+
+  return projects
+    .map(migrateProject)
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map(p => ({
+      id: p.id,
+      name: p.name,
+      updatedAt: p.updatedAt,
+      mode: p.mode,
+      thumbnail: p.results.find(r => r.status === 'success')?.processedUrl || p.referenceImages[0]?.data || null,
+      total: p.stickerPlan.length,
+      completed: p.results.filter(r => r.status === 'success').length
+    }));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,171 @@
+// ==========================================
+// Request Scheduler
+// Every model call goes through one queue. A token bucket per model sets the pace,
+// a cap limits how many calls are in flight, and a server retry hint pauses that
+// model for everyone, including runs, single regenerations and test previews.
+// ==========================================
+
+export interface RateLimit {
+  perMinute: number; // Sustained calls per minute
+  burst: number; // Calls that may start back-to-back after an idle period
+}
+
+export interface SchedulerConfig {
+  maxConcurrent: number;
+  defaultRate: RateLimit;
+  rates: Record<string, RateLimit>; // Per model name
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  pausedUntil: number;
+}
+
+interface QueuedCall {
+  model: string;
+  start: () => void;
+}
+
+const readEnvNumber = (key: string, fallback: number) => {
+  const value = Number((import.meta as any).env?.[key]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+let config: SchedulerConfig = {
+  maxConcurrent: readEnvNumber('VITE_MAX_CONCURRENT_CALLS', 2),
+  defaultRate: { perMinute: 10, burst: 1 },
+  rates: {}
+};
+
+const buckets = new Map<string, Bucket>();
+const queue: QueuedCall[] = [];
+let inFlight = 0;
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+const rateFor = (model: string) => config.rates[model] ?? config.defaultRate;
+
+// Tops the bucket up for the time that passed since it was last touched
+const refill = (model: string, now: number): Bucket => {
+  const rate = rateFor(model);
+  const bucket = buckets.get(model) ?? { tokens: rate.burst, updatedAt: now, pausedUntil: 0 };
+  bucket.tokens = Math.min(rate.burst, bucket.tokens + ((now - bucket.updatedAt) * rate.perMinute) / 60000);
+  bucket.updatedAt = now;
+  buckets.set(model, bucket);
+  return bucket;
+};
+
+/**
+ * Starts every queued call that is allowed to run now, oldest first.
+ * A blocked model doesn't hold up calls for other models.
+ */
+const pump = () => {
+  if (wakeTimer) {
+    clearTimeout(wakeTimer);
+    wakeTimer = null;
+  }
+
+  const now = Date.now();
+  let nextWake = Infinity;
+
+  for (let i = 0; i < queue.length && inFlight < config.maxConcurrent; ) {
+    const call = queue[i];
+    const bucket = refill(call.model, now);
+
+    if (bucket.pausedUntil > now) {
+      nextWake = Math.min(nextWake, bucket.pausedUntil);
+      i++;
+      continue;
+    }
+    if (bucket.tokens < 1) {
+      const msPerToken = 60000 / rateFor(call.model).perMinute;
+      nextWake = Math.min(nextWake, now + (1 - bucket.tokens) * msPerToken);
+      i++;
+      continue;
+    }
+
+    bucket.tokens -= 1;
+    queue.splice(i, 1);
+    inFlight++;
+    call.start();
+  }
+
+  if (queue.length > 0 && inFlight < config.maxConcurrent && nextWake < Infinity) {
+    wakeTimer = setTimeout(pump, Math.max(nextWake - now, 0));
+  }
+};
+
+export const configureScheduler = (patch: Partial<SchedulerConfig>) => {
+  config = { ...config, ...patch, rates: { ...config.rates, ...patch.rates } };
+  pump();
+};
+
+export const getSchedulerConfig = (): SchedulerConfig => config;
+
+/**
+ * Queues a model call and resolves with its result once it has run.
+ * Aborting `signal` drops a call that hasn't started yet; a running call
+ * is expected to pass the signal on to its own request.
+ */
+export const scheduleModelCall = <T>(model: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      const index = queue.indexOf(call);
+      if (index === -1) return; // Already running
+      queue.splice(index, 1);
+      reject(signal?.reason);
+      pump();
+    };
+
+    const call: QueuedCall = {
+      model,
+      start: () => {
+        signal?.removeEventListener('abort', onAbort);
+        Promise.resolve()
+          .then(task)
+          .then(resolve, reject)
+          .finally(() => {
+            inFlight--;
+            pump();
+          });
+      }
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queue.push(call);
+    pump();
+  });
+
+/**
+ * Holds back every queued call for `model` (e.g. after a 429 with a retry hint).
+ * An existing longer pause is kept.
+ */
+export const pauseModel = (model: string, ms: number) => {
+  const bucket = refill(model, Date.now());
+  bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + ms);
+  pump();
+};
+
+/**
+ * Reads the server's retry hint from an error, in ms.
+ * Gemini puts it in the message ("Please retry in 17.3s.") or in RetryInfo ("retryDelay": "17s").
+ */
+export const getRetryDelayMs = (error: any): number | null => {
+  const msg = String(error?.message ?? '');
+  const match =
+    msg.match(/retry in ([\d.]+)\s*s/i) ||
+    msg.match(/"retryDelay"\s*:\s*"([\d.]+)s"/) ||
+    msg.match(/retry-after:?\s*([\d.]+)/i);
+  if (!match) return null;
+
+  const seconds = parseFloat(match[1]);
+  return Number.isFinite(seconds) ? Math.ceil(seconds * 1000) : null;
+};
+
+// Steady-state spacing between calls to one model, used for ETAs
+export const getCallIntervalMs = (model: string) => 60000 / rateFor(model).perMinute;
@@ -0,0 +1,80 @@
+import { ProviderId, StickerProvider } from '../types';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockService';
+
+// ==========================================
+// Provider Selection
+// The app talks to this module only; it forwards to whichever backend is active.
+// ==========================================
+
+const PROVIDER_STORAGE_KEY = 'sticker_provider';
+
+export const PROVIDERS: Record<ProviderId, StickerProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider
+};
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && value in PROVIDERS;
+
+/**
+ * Resolve the initial provider.
+ * Priority: ?provider= URL param > saved choice > VITE_STICKER_PROVIDER > gemini.
+ */
+const resolveInitialProvider = (): ProviderId => {
+  try {
+    const fromUrl = new URLSearchParams(window.location.search).get('provider');
+    if (isProviderId(fromUrl)) return fromUrl;
+
+    const saved = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (isProviderId(saved)) return saved;
+  } catch {
+    // localStorage can be unavailable (private mode); fall through
+  }
+
+  const fromEnv = (import.meta as any).env?.VITE_STICKER_PROVIDER;
+  return isProviderId(fromEnv) ? fromEnv : 'gemini';
+};
+
+let activeProviderId: ProviderId = resolveInitialProvider();
+
+export const getActiveProviderId = (): ProviderId => activeProviderId;
+
+export const getActiveProvider = (): StickerProvider => PROVIDERS[activeProviderId];
+
+export const setActiveProvider = (id: ProviderId) => {
+  activeProviderId = id;
+  try {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+  } catch {
+    // Selection still applies for this session
+  }
+};
+
+// ==========================================
+// SERVICES (forwarded to the active provider)
+// ==========================================
+
+export const generateStickerPlan: StickerProvider['generateStickerPlan'] = (count, context, signal) =>
+  getActiveProvider().generateStickerPlan(count, context, signal);
+
+export const suggestCaptions: StickerProvider['suggestCaptions'] = (target, plan, context, count, tone, signal) =>
+  getActiveProvider().suggestCaptions(target, plan, context, count, tone, signal);
+
+export const translateCaptions: StickerProvider['translateCaptions'] = (items, languages, context, signal) =>
+  getActiveProvider().translateCaptions(items, languages, context, signal);
+
+export const generateStoreMetadata: StickerProvider['generateStoreMetadata'] = (plan, languages, context, stylePrompt, signal) =>
+  getActiveProvider().generateStoreMetadata(plan, languages, context, stylePrompt, signal);
+
+export const generateCharacterSheet: StickerProvider['generateCharacterSheet'] = (stylePrompt, referenceImages, styleReferenceBase64, signal) =>
+  getActiveProvider().generateCharacterSheet(stylePrompt, referenceImages, styleReferenceBase64, signal);
+
+export const generateStickerGrid: StickerProvider['generateStickerGrid'] = (prompts, stylePrompt, referenceImages, columns, rows, styleReferenceBase64, characterSheetBase64, signal) =>
+  getActiveProvider().generateStickerGrid(prompts, stylePrompt, referenceImages, columns, rows, styleReferenceBase64, characterSheetBase64, signal);
+
+export const generateSingleStickerImage: StickerProvider['generateSingleStickerImage'] = (prompt, stylePrompt, referenceImages, styleReferenceBase64, characterSheetBase64, signal) =>
+  getActiveProvider().generateSingleStickerImage(prompt, stylePrompt, referenceImages, styleReferenceBase64, characterSheetBase64, signal);
+
+export const generateAnimationSheet: StickerProvider['generateAnimationSheet'] = (prompt, stylePrompt, referenceImages, frameCount, columns, styleReferenceBase64, characterSheetBase64, signal) =>
+  getActiveProvider().generateAnimationSheet(prompt, stylePrompt, referenceImages, frameCount, columns, styleReferenceBase64, characterSheetBase64, signal);
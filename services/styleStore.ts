@@ -0,0 +1,99 @@
+import { CustomStyle, StickerStyle } from '../types';
+import { STICKER_STYLES, STYLE_COLORS, STYLE_ICONS } from '../constants';
+import { STYLES_STORE, runStoreRequest } from './localDb';
+import { createProjectId } from './projectStore';
+import { t } from '../i18n';
+
+// ==========================================
+// Custom Art Styles
+// Saved in IndexedDB (they may carry an example image) and shared as JSON files.
+// ==========================================
+
+const STYLE_FILE_VERSION = 1;
+const DEFAULT_ICON_ID = 'palette';
+
+const runRequest = <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => runStoreRequest(STYLES_STORE, mode, action);
+
+export const createStyleId = () => `custom_${createProjectId()}`;
+
+export const listCustomStyles = async (): Promise<CustomStyle[]> => {
+  const styles = await runRequest<CustomStyle[]>('readonly', store => store.getAll());
+  return styles.sort((a, b) => a.updatedAt - b.updatedAt);
+};
+
+export const saveCustomStyle = async (style: CustomStyle): Promise<void> => {
+  await runRequest('readwrite', store => store.put(style));
+};
+
+export const deleteCustomStyle = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+export const toStickerStyle = (style: CustomStyle): StickerStyle => ({
+  id: style.id,
+  name: style.name,
+  promptModifier: style.promptModifier,
+  previewColor: style.previewColor,
+  icon: STYLE_ICONS[style.iconId] ?? STYLE_ICONS[DEFAULT_ICON_ID],
+  referenceImage: style.referenceImage,
+  isCustom: true
+});
+
+// Built-in styles named in the current UI language
+export const getBuiltInStyles = (): StickerStyle[] =>
+  STICKER_STYLES.map(({ nameKey, ...style }) => ({ ...style, name: t(nameKey) }));
+
+// Built-ins first, then the user's own styles
+export const getAllStyles = (customStyles: CustomStyle[]): StickerStyle[] => [
+  ...getBuiltInStyles(),
+  ...customStyles.map(toStickerStyle)
+];
+
+export const findStyle = (id: string, customStyles: CustomStyle[]): StickerStyle | undefined =>
+  getAllStyles(customStyles).find(s => s.id === id);
+
+export const exportStylesFile = (styles: CustomStyle[]): Blob =>
+  new Blob([JSON.stringify({ version: STYLE_FILE_VERSION, styles }, null, 2)], { type: 'application/json' });
+
+/**
+ * Reads a shared style file. Imported styles always get fresh ids so they
+ * never overwrite a local style; unknown icons and colours fall back to defaults.
+ */
+export const parseStylesFile = (json: string): CustomStyle[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error(t('styles.fileInvalidJson'));
+  }
+
+  const list = Array.isArray(data) ? data : (data as { styles?: unknown })?.styles;
+  if (!Array.isArray(list)) {
+    throw new Error(t('styles.fileNoStyles'));
+  }
+
+  const now = Date.now();
+  const styles = list
+    .filter((s): s is Record<string, unknown> =>
+      !!s && typeof s === 'object' && typeof s.name === 'string' && typeof s.promptModifier === 'string'
+    )
+    .map((s, i): CustomStyle => ({
+      id: createStyleId(),
+      name: (s.name as string).trim().slice(0, 20) || t('styles.defaultName'),
+      promptModifier: (s.promptModifier as string).trim(),
+      previewColor: STYLE_COLORS.includes(s.previewColor as string) ? (s.previewColor as string) : STYLE_COLORS[0],
+      iconId: typeof s.iconId === 'string' && s.iconId in STYLE_ICONS ? s.iconId : DEFAULT_ICON_ID,
+      referenceImage: typeof s.referenceImage === 'string' && s.referenceImage.startsWith('data:image/')
+        ? s.referenceImage
+        : undefined,
+      updatedAt: now + i
+    }));
+
+  if (styles.length === 0) {
+    throw new Error(t('styles.fileNothingToImport'));
+  }
+  return styles;
+};
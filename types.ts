@@ -7,34 +7,319 @@ export interface StickerStyle {
   promptModifier: string;
   previewColor: string;
   icon: LucideIcon;
+  referenceImage?: string; // Example image the model should copy the look of
+  isCustom?: boolean;
 }
 
+// A user-defined style as stored locally and shared as JSON (icons are stored by key)
+export interface CustomStyle {
+  id: string;
+  name: string;
+  promptModifier: string;
+  previewColor: string; // One of STYLE_COLORS
+  iconId: string; // Key of STYLE_ICONS
+  referenceImage?: string;
+  updatedAt: number;
+}
+
+// One photo of the character; several angles/close-ups can be attached
+export interface ReferenceImage {
+  id: string;
+  data: string; // Base64, resized with resizeImageFile
+  note: string; // Optional hint for the model, e.g. "left side has a white patch"
+}
+
+// Canonical turnaround of the character in the chosen style, approved before a run
+export interface CharacterSheet {
+  imageUrl: string; // Base64
+  styleId: string; // Style it was drawn in; a sheet from another style isn't sent
+}
+
+export type StickerEmotion =
+  | 'happy'
+  | 'love'
+  | 'sad'
+  | 'angry'
+  | 'surprised'
+  | 'greeting'
+  | 'thanks'
+  | 'apology'
+  | 'reply'
+  | 'cheer'
+  | 'tired'
+  | 'daily'
+  | 'other';
+
+// Caption languages for LINE's main markets
+export type CaptionLanguage = 'tc' | 'en' | 'ja' | 'th' | 'ko' | 'sc' | 'id';
+
+// Caption per language; tc and en come with the plan, the rest are translated on demand
+export type CaptionMap = Partial<Record<CaptionLanguage, string>>;
+
 export interface StickerPlanItem {
   id: number;
-  text: string;
-  originalTc: string; // Store original Chinese for toggling
-  originalEn: string; // Store original English for toggling
+  text: string; // Caption drawn on the sticker (one language, or "tc (en)")
+  captions: CaptionMap; // Every language's version, for switching and per-language packs
+  direction: string; // What to draw (pose/action, English), e.g. "bowing deeply with hands together"
+  emotion: StickerEmotion; // Category used for the coverage summary
+  edited?: boolean; // Caption typed by hand; switching language or regenerating asks before replacing it
+  staleLanguages?: CaptionLanguage[]; // Captions translated from text that has since been edited
+}
+
+// Creators Market listing text for one sales language
+export interface StoreListing {
+  title: string;
+  description: string;
 }
 
+// What Creators Market asks for besides the images; drafted by the text model, then edited
+export interface StoreMetadata {
+  listings: Partial<Record<CaptionLanguage, StoreListing>>; // One per sales language
+  copyright: string; // One line for the whole set; LINE only takes half-width characters
+  tags: Record<number, string[]>; // Search tags per sticker (plan item id)
+}
+
+// A replacement caption for one plan line
+export type CaptionSuggestion = Pick<StickerPlanItem, 'captions' | 'direction' | 'emotion'>;
+
+export type CaptionTone = 'funnier' | 'politer' | 'shorter';
+
+// What the image calls need to know about one sticker
+export type StickerPrompt = Pick<StickerPlanItem, 'text' | 'direction'>;
+
+export type GenerationErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'overloaded'
+  | 'safety'
+  | 'invalid_request'
+  | 'no_image'
+  | 'no_text' // A text call (plan, captions, listing) came back empty
+  | 'duplicates' // Every suggested caption repeats one already in the set
+  | 'slicing'
+  | 'processing'
+  | 'unknown';
+
 export interface GeneratedSticker {
   id: number;
   text: string;
   imageUrl: string; // The raw image from AI
   processedUrl: string; // The 320x320 png with text and transparency
   status: 'pending' | 'generating' | 'success' | 'error';
-  error?: string; // Reason for failure
+  errorDetail?: string; // Finish reason or upstream message; the UI text comes from errorKind
+  errorKind?: GenerationErrorKind;
+  retryAfterMs?: number; // Server's retry hint for a quota error, used by "retry later"
+  frames?: string[]; // Animated mode: processed 320x270 frames (processedUrl holds the APNG)
+  removal?: BackgroundRemovalSettings; // Settings used for processedUrl, reused on re-render
+  caption?: CaptionLayout; // Caption placement/style used for processedUrl
+  maskUrl?: string; // Manual erase/restore touch-ups, applied on every re-render
+  versions: StickerVersion[]; // Every drawing attempt, oldest first
+  activeVersionId?: string; // Pinned version; its render is mirrored onto the fields above
+  candidateIds?: string[]; // Versions from the last candidate run, shown side by side until one is picked
+}
+
+// Everything a successful render writes onto a GeneratedSticker
+// (new art never inherits the manual mask painted for the previous art)
+export type RenderedSticker = Pick<GeneratedSticker, 'imageUrl' | 'processedUrl' | 'frames' | 'caption' | 'removal' | 'maskUrl'>;
+
+// Where a version's raw art came from
+export type VersionSource = 'grid' | 'single';
+
+// One drawing attempt, kept so a worse redraw never replaces a better one
+export interface StickerVersion extends RenderedSticker {
+  id: string;
+  text: string; // Caption it was drawn with
+  source: VersionSource;
+  createdAt: number;
+}
+
+export interface CaptionLayout {
+  visible: boolean;
+  x: number; // 0-1, horizontal centre of the text
+  y: number; // 0-1, bottom edge of the text
+  rotation: number; // Degrees
+  fontId: string; // See CAPTION_FONTS
+  fontSize: number; // px; shrinks automatically if the text is too wide
+  fill: string;
+  stroke: string;
+  strokeWidth: number; // 0 = no outline
+  shadow: boolean;
+}
+
+export interface BackgroundRemovalSettings {
+  mode: 'flood' | 'threshold'; // flood = only white connected to the border
+  tolerance: number; // 0-255 distance from pure white still treated as background
+  feather: number; // Edge softening in px (flood mode only)
 }
 
-export type StickerCount = 8 | 16 | 24;
+export type StickerMode = 'static' | 'animated';
+
+// Stickers per side of one generated sheet (1 = one image per call)
+export type GridSize = 1 | 2 | 3;
+
+// Drafts drawn per sticker in one call; the user picks one
+export type CandidateCount = 1 | 2 | 3 | 4;
+
+export type StickerCount = 8 | 16 | 24 | 32 | 40;
+
+export type ProviderId = 'gemini' | 'mock';
+
+// UI language (caption languages are CaptionLanguage)
+export type Locale = 'zh-TW' | 'en' | 'ja';
+
+/**
+ * A backend able to plan and draw stickers.
+ * Gemini talks to the real API; the mock backend returns canned data offline.
+ */
+export interface StickerProvider {
+  id: ProviderId;
+  name: string;
+  batchDelayMs: number; // Expected spacing between image calls (paced by the request scheduler), for ETAs
+  // Every call takes an optional AbortSignal; aborting rejects with the signal's reason
+  generateStickerPlan: (count: number, context: string, signal?: AbortSignal) => Promise<StickerPlanItem[]>;
+  // New ideas for one plan line; the rest of the plan is passed so nothing is repeated
+  suggestCaptions: (
+    target: StickerPlanItem,
+    plan: StickerPlanItem[],
+    context: string,
+    count: number,
+    tone?: CaptionTone | null,
+    signal?: AbortSignal
+  ) => Promise<CaptionSuggestion[]>;
+  // Fills in the given languages for each item, keyed by item id
+  translateCaptions: (
+    items: StickerPlanItem[],
+    languages: CaptionLanguage[],
+    context: string,
+    signal?: AbortSignal
+  ) => Promise<Record<number, CaptionMap>>;
+  // Store listing drafts for each sales language, from the plan, context and art style
+  generateStoreMetadata: (
+    plan: StickerPlanItem[],
+    languages: CaptionLanguage[],
+    context: string,
+    stylePrompt: string,
+    signal?: AbortSignal
+  ) => Promise<StoreMetadata>;
+  // Image calls also take the approved character sheet (see CharacterSheet) as an extra reference
+  generateCharacterSheet: (
+    stylePrompt: string,
+    referenceImages: ReferenceImage[],
+    styleReferenceBase64?: string | null,
+    signal?: AbortSignal
+  ) => Promise<string>;
+  generateStickerGrid: (
+    prompts: StickerPrompt[],
+    stylePrompt: string,
+    referenceImages: ReferenceImage[],
+    columns: number,
+    rows: number,
+    styleReferenceBase64?: string | null,
+    characterSheetBase64?: string | null,
+    signal?: AbortSignal
+  ) => Promise<string>;
+  generateSingleStickerImage: (
+    prompt: StickerPrompt,
+    stylePrompt: string,
+    referenceImages: ReferenceImage[],
+    styleReferenceBase64?: string | null,
+    characterSheetBase64?: string | null,
+    signal?: AbortSignal
+  ) => Promise<string>;
+  generateAnimationSheet: (
+    prompt: StickerPrompt,
+    stylePrompt: string,
+    referenceImages: ReferenceImage[],
+    frameCount: number,
+    columns: number,
+    styleReferenceBase64?: string | null,
+    characterSheetBase64?: string | null,
+    signal?: AbortSignal
+  ) => Promise<string>;
+}
+
+// Earlier and undone plans, newest last
+// The plan and its languages go back together, so an undone translation takes its language with it
+export interface PlanSnapshot {
+  plan: StickerPlanItem[];
+  languages: CaptionLanguage[];
+}
+
+export interface PlanHistory {
+  past: PlanSnapshot[];
+  future: PlanSnapshot[];
+  mergeKey: string | null; // Edits with the same key in quick succession (typing in one field) are one step
+  changedAt: number;
+}
 
 export interface AppState {
   step: 'setup' | 'review' | 'generating' | 'complete';
-  referenceImage: string | null; // Base64
+  projectId: string | null; // IndexedDB key, assigned once a plan exists
+  referenceImages: ReferenceImage[]; // Character photos, sent with every image call
+  characterSheet: CharacterSheet | null; // Optional anchor, sent with every image call once approved
   selectedStyleId: string;
   count: StickerCount;
+  mode: StickerMode;
+  gridSize: GridSize; // Static mode only; animated stickers are always one per call
+  candidateCount: CandidateCount; // Static mode only; above 1 each sticker gets its own call
   usageContext: string;
+  languages: CaptionLanguage[]; // Markets the set is made for; each can be exported as its own pack
   stickerPlan: StickerPlanItem[];
+  planHistory: PlanHistory; // Undo/redo for the plan; not saved with the project
   results: GeneratedSticker[];
+  storeMetadata: StoreMetadata | null; // Listing text for Creators Market, drafted after generation
   isThinking: boolean;
+  isGenerating: boolean; // A batch run is in progress
   progress: number;
+  totalBatches: number; // Model calls needed for the current run
+}
+
+export type ValidationStatus = 'pass' | 'warn' | 'fail';
+
+export interface ValidationCheck {
+  rule: string; // Short rule name (localized), e.g. "Size"
+  status: ValidationStatus;
+  message: string;
+}
+
+export interface FileValidation {
+  fileName: string;
+  status: ValidationStatus; // Worst status among checks
+  checks: ValidationCheck[];
+}
+
+export interface PackValidation {
+  status: ValidationStatus;
+  packChecks: ValidationCheck[]; // Set-level rules (sticker count, required files)
+  files: FileValidation[];
+}
+
+export interface SavedProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  step: AppState['step'];
+  referenceImages: ReferenceImage[];
+  characterSheet?: CharacterSheet | null; // Missing in projects saved before anchor sheets
+  selectedStyleId: string;
+  count: StickerCount;
+  mode: StickerMode;
+  gridSize?: GridSize; // Missing in projects saved before grid layouts were configurable
+  candidateCount?: CandidateCount; // Missing in projects saved before candidate runs
+  usageContext: string;
+  languages?: CaptionLanguage[]; // Missing in projects saved before multi-language captions
+  stickerPlan: StickerPlanItem[];
+  results: GeneratedSticker[];
+  storeMetadata?: StoreMetadata | null; // Missing in projects saved before listing drafts
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  mode: StickerMode;
+  thumbnail: string | null;
+  total: number;
+  completed: number;
 }
@@ -0,0 +1,198 @@
+/**
+ * Minimal in-browser APNG assembler.
+ * Takes same-sized PNG frames (as data URLs, e.g. from canvas.toDataURL)
+ * and stitches their IDAT data into one animated PNG.
+ */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = (): Uint32Array => {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+};
+
+const crc32 = (bytes: Uint8Array): number => {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.split(',')[1]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+const readChunks = (bytes: Uint8Array): PngChunk[] => {
+  for (let i = 0; i < PNG_SIGNATURE.length; i++) {
+    if (bytes[i] !== PNG_SIGNATURE[i]) throw new Error('Not a PNG image');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    chunks.push({ type, data });
+    offset += 12 + length; // length + type + data + crc
+    if (type === 'IEND') break;
+  }
+
+  return chunks;
+};
+
+const writeChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+};
+
+const uint32 = (value: number): Uint8Array => {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value);
+  return out;
+};
+
+export interface ApngOptions {
+  delayMs: number; // Display time of every frame
+  plays: number; // Loop count, 0 = infinite
+}
+
+/**
+ * Assembles PNG frames into an APNG data URL.
+ * All frames must share the same dimensions and colour type.
+ */
+export const assembleApng = (frames: string[], options: ApngOptions): string => {
+  if (frames.length === 0) throw new Error('No frames to assemble');
+
+  const framesChunks = frames.map(frame => readChunks(dataUrlToBytes(frame)));
+  const ihdr = framesChunks[0].find(c => c.type === 'IHDR');
+  if (!ihdr) throw new Error('Missing IHDR chunk');
+
+  const ihdrView = new DataView(ihdr.data.buffer, ihdr.data.byteOffset, ihdr.data.byteLength);
+  const width = ihdrView.getUint32(0);
+  const height = ihdrView.getUint32(4);
+
+  const parts: Uint8Array[] = [new Uint8Array(PNG_SIGNATURE), writeChunk('IHDR', ihdr.data)];
+
+  // acTL: number of frames + number of plays
+  const actl = new Uint8Array(8);
+  actl.set(uint32(frames.length), 0);
+  actl.set(uint32(options.plays), 4);
+  parts.push(writeChunk('acTL', actl));
+
+  let sequence = 0;
+
+  framesChunks.forEach((chunks, frameIndex) => {
+    // fcTL: full-canvas frame, delay expressed as delayMs/1000
+    const fctl = new Uint8Array(26);
+    const fctlView = new DataView(fctl.buffer);
+    fctlView.setUint32(0, sequence++);
+    fctlView.setUint32(4, width);
+    fctlView.setUint32(8, height);
+    fctlView.setUint32(12, 0); // x offset
+    fctlView.setUint32(16, 0); // y offset
+    fctlView.setUint16(20, Math.round(options.delayMs));
+    fctlView.setUint16(22, 1000);
+    fctl[24] = 1; // dispose_op: APNG_DISPOSE_OP_BACKGROUND
+    fctl[25] = 0; // blend_op: APNG_BLEND_OP_SOURCE
+    parts.push(writeChunk('fcTL', fctl));
+
+    chunks
+      .filter(c => c.type === 'IDAT')
+      .forEach(idat => {
+        if (frameIndex === 0) {
+          // First frame doubles as the static fallback image
+          parts.push(writeChunk('IDAT', idat.data));
+        } else {
+          const fdat = new Uint8Array(4 + idat.data.length);
+          fdat.set(uint32(sequence++), 0);
+          fdat.set(idat.data, 4);
+          parts.push(writeChunk('fdAT', fdat));
+        }
+      });
+  });
+
+  parts.push(writeChunk('IEND', new Uint8Array(0)));
+
+  const totalLength = parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(totalLength);
+  let offset = 0;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+
+  return bytesToDataUrl(out, 'image/png');
+};
+
+export interface ApngInfo {
+  frameCount: number;
+  plays: number; // 0 = infinite
+  durationMs: number; // One loop
+}
+
+/**
+ * Reads the animation control chunks of a PNG.
+ * Returns null for a plain (non-animated) PNG.
+ */
+export const readApngInfo = (dataUrl: string): ApngInfo | null => {
+  const chunks = readChunks(dataUrlToBytes(dataUrl));
+  const actl = chunks.find(c => c.type === 'acTL');
+  if (!actl) return null;
+
+  const actlView = new DataView(actl.data.buffer, actl.data.byteOffset, actl.data.byteLength);
+  let durationMs = 0;
+
+  chunks
+    .filter(c => c.type === 'fcTL')
+    .forEach(fctl => {
+      const view = new DataView(fctl.data.buffer, fctl.data.byteOffset, fctl.data.byteLength);
+      const delayNum = view.getUint16(20);
+      const delayDen = view.getUint16(22) || 100; // Spec: 0 denominator means 1/100s
+      durationMs += (delayNum / delayDen) * 1000;
+    });
+
+  return {
+    frameCount: actlView.getUint32(0),
+    plays: actlView.getUint32(4),
+    durationMs: Math.round(durationMs)
+  };
+};
@@ -0,0 +1,188 @@
+import { BackgroundRemovalSettings } from '../types';
+
+/**
+ * Background removal on raw RGBA pixels (mutates `imageData` in place).
+ *
+ * 'threshold' is the original global key: every near-white pixel becomes transparent.
+ * 'flood' only removes white that is connected to the canvas border, so white eyes,
+ * teeth and highlights inside the outline survive. It then cleans the light fringe
+ * left by anti-aliasing and optionally feathers the alpha edge.
+ */
+export const removeBackground = (imageData: ImageData, settings: BackgroundRemovalSettings) => {
+  if (settings.mode === 'threshold') {
+    removeByThreshold(imageData, settings.tolerance);
+    return;
+  }
+
+  const background = floodFillBackground(imageData, settings.tolerance);
+  const { data } = imageData;
+  for (let p = 0; p < background.length; p++) {
+    if (background[p]) data[p * 4 + 3] = 0;
+  }
+
+  defringe(imageData, background);
+  if (settings.feather > 0) featherEdge(imageData, background, settings.feather);
+};
+
+// How far a pixel is from pure white (0 = white, 255 = a fully saturated channel)
+export const distanceFromWhite = (data: Uint8ClampedArray, i: number) =>
+  255 - Math.min(data[i], data[i + 1], data[i + 2]);
+
+const removeByThreshold = (imageData: ImageData, tolerance: number) => {
+  const { data } = imageData;
+  for (let i = 0; i < data.length; i += 4) {
+    if (distanceFromWhite(data, i) <= tolerance) {
+      data[i + 3] = 0;
+    }
+  }
+};
+
+/**
+ * Marks every pixel reachable from the border through transparent or near-white pixels.
+ * Returns a mask with 1 for background.
+ */
+const floodFillBackground = (imageData: ImageData, tolerance: number): Uint8Array => {
+  const { width, height, data } = imageData;
+  const mask = new Uint8Array(width * height);
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+
+  const isBackgroundColor = (p: number) => {
+    const i = p * 4;
+    return data[i + 3] === 0 || distanceFromWhite(data, i) <= tolerance;
+  };
+
+  const visit = (p: number) => {
+    if (mask[p] || !isBackgroundColor(p)) return;
+    mask[p] = 1;
+    queue[tail++] = p;
+  };
+
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+
+  while (head < tail) {
+    const p = queue[head++];
+    const x = p % width;
+    if (x > 0) visit(p - 1);
+    if (x < width - 1) visit(p + 1);
+    if (p >= width) visit(p - width);
+    if (p < width * (height - 1)) visit(p + width);
+  }
+
+  return mask;
+};
+
+const touchesBackground = (mask: Uint8Array, width: number, height: number, p: number) => {
+  const x = p % width;
+  const y = (p - x) / width;
+  return (
+    (x > 0 && mask[p - 1] === 1) ||
+    (x < width - 1 && mask[p + 1] === 1) ||
+    (y > 0 && mask[p - width] === 1) ||
+    (y < height - 1 && mask[p + width] === 1)
+  );
+};
+
+/**
+ * Anti-aliased outline pixels are part line colour, part white background.
+ * For the pixels bordering the removed area we turn that white share into
+ * transparency ("colour to alpha"), which removes the grey halo.
+ */
+const defringe = (imageData: ImageData, background: Uint8Array) => {
+  const { width, height, data } = imageData;
+
+  for (let p = 0; p < background.length; p++) {
+    if (background[p] || !touchesBackground(background, width, height, p)) continue;
+
+    const i = p * 4;
+    const alpha = distanceFromWhite(data, i) / 255;
+    if (alpha >= 1) continue;
+    if (alpha === 0) {
+      data[i + 3] = 0;
+      continue;
+    }
+
+    for (let c = 0; c < 3; c++) {
+      data[i + c] = Math.round((data[i + c] - (1 - alpha) * 255) / alpha);
+    }
+    data[i + 3] = Math.round(data[i + 3] * alpha);
+  }
+};
+
+/**
+ * Softens the cut-out edge: alpha ramps up over `radius` pixels inward
+ * from the removed background.
+ */
+const featherEdge = (imageData: ImageData, background: Uint8Array, radius: number) => {
+  const { width, height, data } = imageData;
+
+  // Distance (in px, chessboard metric) from the background, capped at radius + 1
+  const limit = radius + 1;
+  const distance = new Uint8Array(width * height).fill(limit);
+  for (let p = 0; p < background.length; p++) {
+    if (background[p]) distance[p] = 0;
+  }
+  for (let step = 1; step <= radius; step++) {
+    for (let p = 0; p < distance.length; p++) {
+      if (distance[p] !== limit) continue;
+      const x = p % width;
+      const y = (p - x) / width;
+      for (let dy = -1; dy <= 1 && distance[p] === limit; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          if (distance[ny * width + nx] === step - 1) {
+            distance[p] = step;
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  for (let p = 0; p < distance.length; p++) {
+    const d = distance[p];
+    if (d === 0 || d === limit) continue;
+    const i = p * 4;
+    data[i + 3] = Math.round(data[i + 3] * (d / limit));
+  }
+};
+
+// Manual mask colours: red paints "erase", green paints "restore"
+export const MASK_ERASE_COLOR = 'rgb(255, 0, 0)';
+export const MASK_RESTORE_COLOR = 'rgb(0, 255, 0)';
+
+/**
+ * Applies a hand-painted mask on top of the automatic removal.
+ * Erase (red) fades the pixel out; restore (green) brings back the original pixel.
+ * The mask's alpha controls how strongly each stroke applies.
+ */
+export const applyManualMask = (
+  imageData: ImageData,
+  original: Uint8ClampedArray,
+  mask: Uint8ClampedArray
+) => {
+  const { data } = imageData;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const strength = mask[i + 3] / 255;
+    if (strength === 0) continue;
+
+    if (mask[i] > mask[i + 1]) {
+      data[i + 3] = Math.round(data[i + 3] * (1 - strength));
+    } else {
+      for (let c = 0; c < 4; c++) {
+        data[i + c] = Math.round(data[i + c] * (1 - strength) + original[i + c] * strength);
+      }
+    }
+  }
+};
@@ -0,0 +1,79 @@
+import { CaptionLanguage, CaptionMap, StickerPlanItem } from '../types';
+import { CAPTION_LANGUAGES } from '../constants';
+
+// ==========================================
+// Caption Languages
+// Which language a plan line shows, and which translations are still missing.
+// ==========================================
+
+// 'both' is the bilingual "繁中 (English)" caption the plan starts with
+export type CaptionDisplay = CaptionLanguage | 'both';
+
+export const getLanguageName = (lang: CaptionLanguage) =>
+  CAPTION_LANGUAGES.find(l => l.id === lang)?.name ?? lang;
+
+/**
+ * The caption text for one display choice, or null when that language
+ * hasn't been translated yet.
+ */
+export const formatCaption = (captions: CaptionMap, display: CaptionDisplay): string | null => {
+  if (display === 'both') {
+    return captions.tc && captions.en ? `${captions.tc} (${captions.en})` : null;
+  }
+  return captions[display] ?? null;
+};
+
+/**
+ * The display choice the line's text currently matches, or null once it
+ * has been edited by hand.
+ */
+export const detectCaptionDisplay = (item: StickerPlanItem): CaptionDisplay | null => {
+  if (item.text === formatCaption(item.captions, 'both')) return 'both';
+  return CAPTION_LANGUAGES.find(l => item.captions[l.id] === item.text)?.id ?? null;
+};
+
+// The languages every translation is made from
+const SOURCE_LANGUAGES: CaptionLanguage[] = ['tc', 'en'];
+
+// "早安 (Good morning)" -> { tc: '早安', en: 'Good morning' }; null once the brackets are gone
+const splitBilingual = (text: string): CaptionMap | null => {
+  const match = text.match(/^(.+?)\s*\((.+)\)\s*$/s);
+  const tc = match?.[1].trim();
+  const en = match?.[2].trim();
+  return tc && en ? { tc, en } : null;
+};
+
+/**
+ * A new text for the line. The languages it shows take the edit, so their
+ * packs get it too. Changing 繁中 or English, which the rest are translated
+ * from, marks the other captions stale until they are translated again; a
+ * bilingual edit that can't be split back into the two marks all of them.
+ */
+export const withCaptionText = (
+  item: StickerPlanItem,
+  text: string
+): Pick<StickerPlanItem, 'text' | 'captions' | 'staleLanguages'> => {
+  const display = detectCaptionDisplay(item);
+  const edited: CaptionMap = display && display !== 'both' ? { [display]: text } : splitBilingual(text) ?? {};
+  const captions = { ...item.captions, ...edited };
+  const sourceChanged = Object.keys(edited).length === 0
+    || SOURCE_LANGUAGES.some(lang => edited[lang] !== undefined && edited[lang] !== item.captions[lang]);
+  const stale = CAPTION_LANGUAGES
+    .map(l => l.id)
+    .filter(lang => !edited[lang] && (item.staleLanguages?.includes(lang) || (sourceChanged && captions[lang])));
+  return { text, captions, staleLanguages: stale.length > 0 ? stale : undefined };
+};
+
+// The caption a language pack should use: null when missing or translated from an older text
+export const getFreshCaption = (item: StickerPlanItem, lang: CaptionLanguage) =>
+  item.staleLanguages?.includes(lang) ? null : item.captions[lang] ?? null;
+
+// What translations start from; a stale 繁中 caption gives way to the edited text
+export const getSourceCaptions = (item: StickerPlanItem) => ({
+  tc: getFreshCaption(item, 'tc') ?? item.text,
+  en: getFreshCaption(item, 'en')
+});
+
+// Lines lacking, or holding a stale caption in, at least one of the languages
+export const findMissingCaptions = (plan: StickerPlanItem[], languages: CaptionLanguage[]) =>
+  plan.filter(item => languages.some(lang => !getFreshCaption(item, lang)));
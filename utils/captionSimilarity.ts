@@ -0,0 +1,73 @@
+import { StickerPlanItem } from '../types';
+
+// ==========================================
+// Caption similarity
+// Catches near-duplicates ("早安" / "早安啊!!") that exact string matching misses.
+// ==========================================
+
+export const normalizeCaption = (text: string) => text.trim().toLowerCase().replace(/[\s!?！？。，,.~～]+/g, '');
+
+const bigrams = (text: string): string[] => {
+  const chars = Array.from(text);
+  if (chars.length < 2) return chars;
+  return chars.slice(1).map((char, i) => chars[i] + char);
+};
+
+// Dice coefficient over character bigrams; works for Chinese and English alike
+const bigramSimilarity = (a: string, b: string): number => {
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const remaining = [...right];
+  let shared = 0;
+  for (const gram of left) {
+    const index = remaining.indexOf(gram);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+};
+
+/**
+ * Same caption after dropping spaces/punctuation, one caption mostly containing
+ * the other, or captions sharing most of their character pairs.
+ */
+export const isNearDuplicate = (a: string, b: string): boolean => {
+  const left = normalizeCaption(a);
+  const right = normalizeCaption(b);
+  if (!left || !right) return false;
+  if (left === right) return true;
+
+  const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+  if (shorter.length >= 2 && longer.includes(shorter) && shorter.length / longer.length >= 0.5) return true;
+
+  return bigramSimilarity(left, right) >= 0.75;
+};
+
+/**
+ * Groups plan items whose captions are near-duplicates of each other.
+ * Only groups with two or more items are returned, as lists of item ids.
+ */
+export const findNearDuplicates = (plan: StickerPlanItem[]): number[][] => {
+  const groupOf = new Map<number, number[]>();
+
+  plan.forEach((item, i) => {
+    for (const other of plan.slice(i + 1)) {
+      if (!isNearDuplicate(item.text, other.text)) continue;
+
+      // Merge both items' groups (chains like A~B, B~C end up in one group)
+      const group = groupOf.get(item.id) ?? [item.id];
+      const merged = groupOf.get(other.id) ?? [other.id];
+      if (group === merged) continue;
+      merged.forEach(id => {
+        if (!group.includes(id)) group.push(id);
+      });
+      group.forEach(id => groupOf.set(id, group));
+    }
+  });
+
+  return Array.from(new Set(groupOf.values()));
+};
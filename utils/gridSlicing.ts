@@ -0,0 +1,257 @@
+import { distanceFromWhite } from './backgroundRemoval';
+
+/**
+ * Content-aware slicing of a multi-pose grid (raw RGBA pixels, no canvas).
+ *
+ * Instead of cutting fixed quadrants we look for the drawn figures themselves:
+ * non-white pixels are grouped into connected components (after a small dilation,
+ * so a hand or a floating heart that barely touches the body still belongs to it),
+ * small pieces are attached to the nearest figure, and the figures are ordered
+ * row by row to match the TL, TR, BL, BR layout the prompt asked for.
+ */
+
+export interface FigureBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  area: number; // Foreground pixels
+}
+
+export interface GridSliceResult {
+  figureCount: number; // Figures found, compared against columns x rows by the caller
+  crops: ImageData[]; // Row-major; empty when the figure count doesn't match the grid
+}
+
+interface Component extends FigureBox {
+  owner: number; // Index into the figure list, -1 for specks that are ignored
+}
+
+// A component smaller than this share of the largest one is treated as a prop, not a figure
+const MIN_FIGURE_SHARE = 0.15;
+// Components below this share of the image are noise (JPEG dust, stray dots)
+const NOISE_SHARE = 0.0002;
+// Gaps narrower than this share of the short side are bridged before labelling
+const JOIN_SHARE = 0.01;
+// White space kept around each figure, as a share of the short side
+const MARGIN_SHARE = 0.03;
+
+/**
+ * Square dilation of a binary mask, done as a horizontal then a vertical running window.
+ */
+const dilate = (mask: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+  if (radius <= 0) return mask;
+
+  const horizontal = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let count = 0;
+    for (let x = 0; x < Math.min(radius, width); x++) count += mask[row + x];
+    for (let x = 0; x < width; x++) {
+      if (x + radius < width) count += mask[row + x + radius];
+      if (x - radius - 1 >= 0) count -= mask[row + x - radius - 1];
+      horizontal[row + x] = count > 0 ? 1 : 0;
+    }
+  }
+
+  const result = new Uint8Array(mask.length);
+  for (let x = 0; x < width; x++) {
+    let count = 0;
+    for (let y = 0; y < Math.min(radius, height); y++) count += horizontal[y * width + x];
+    for (let y = 0; y < height; y++) {
+      if (y + radius < height) count += horizontal[(y + radius) * width + x];
+      if (y - radius - 1 >= 0) count -= horizontal[(y - radius - 1) * width + x];
+      result[y * width + x] = count > 0 ? 1 : 0;
+    }
+  }
+  return result;
+};
+
+/**
+ * Labels the connected regions of the dilated mask. Boxes and areas are measured
+ * on the original foreground so the halo added by dilation doesn't count.
+ */
+const labelComponents = (
+  foreground: Uint8Array,
+  joined: Uint8Array,
+  width: number,
+  height: number
+): { labels: Int32Array; components: Component[] } => {
+  const labels = new Int32Array(width * height).fill(-1);
+  const queue = new Int32Array(width * height);
+  const components: Component[] = [];
+
+  for (let start = 0; start < joined.length; start++) {
+    if (!joined[start] || labels[start] !== -1) continue;
+
+    const label = components.length;
+    let minX = width, minY = height, maxX = -1, maxY = -1, area = 0;
+    let head = 0;
+    let tail = 0;
+    labels[start] = label;
+    queue[tail++] = start;
+
+    while (head < tail) {
+      const p = queue[head++];
+      const x = p % width;
+      const y = (p - x) / width;
+
+      if (foreground[p]) {
+        area++;
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+
+      const visit = (q: number) => {
+        if (joined[q] && labels[q] === -1) {
+          labels[q] = label;
+          queue[tail++] = q;
+        }
+      };
+      if (x > 0) visit(p - 1);
+      if (x < width - 1) visit(p + 1);
+      if (y > 0) visit(p - width);
+      if (y < height - 1) visit(p + width);
+    }
+
+    components.push({ x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1, area, owner: -1 });
+  }
+
+  return { labels, components };
+};
+
+// Gap between two boxes (0 when they overlap)
+const boxDistance = (a: FigureBox, b: FigureBox) => {
+  const dx = Math.max(a.x - (b.x + b.width), b.x - (a.x + a.width), 0);
+  const dy = Math.max(a.y - (b.y + b.height), b.y - (a.y + a.height), 0);
+  return Math.hypot(dx, dy);
+};
+
+const unionBox = (a: FigureBox, b: FigureBox): FigureBox => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+    area: a.area + b.area
+  };
+};
+
+/**
+ * Sorts figures into reading order: split into rows of `columns` by vertical centre,
+ * then left to right within each row.
+ */
+const toReadingOrder = (indices: number[], figures: FigureBox[], columns: number): number[] => {
+  const centreX = (i: number) => figures[i].x + figures[i].width / 2;
+  const centreY = (i: number) => figures[i].y + figures[i].height / 2;
+
+  const byRow = [...indices].sort((a, b) => centreY(a) - centreY(b));
+  const ordered: number[] = [];
+  for (let r = 0; r < byRow.length; r += columns) {
+    ordered.push(...byRow.slice(r, r + columns).sort((a, b) => centreX(a) - centreX(b)));
+  }
+  return ordered;
+};
+
+/**
+ * Crops a square around one figure, at least one grid cell in size so every sticker
+ * keeps the same scale. Pixels that belong to other figures are painted white.
+ */
+const cropFigure = (
+  imageData: ImageData,
+  labels: Int32Array,
+  components: Component[],
+  figure: FigureBox,
+  figureIndex: number,
+  minSide: number,
+  margin: number
+): ImageData => {
+  const { width, height, data } = imageData;
+  const side = Math.ceil(Math.max(minSide, figure.width + margin * 2, figure.height + margin * 2));
+  const left = Math.round(figure.x + figure.width / 2 - side / 2);
+  const top = Math.round(figure.y + figure.height / 2 - side / 2);
+
+  const crop = new ImageData(side, side);
+  const out = crop.data;
+  out.fill(255);
+
+  for (let cy = 0; cy < side; cy++) {
+    const sy = top + cy;
+    if (sy < 0 || sy >= height) continue;
+    for (let cx = 0; cx < side; cx++) {
+      const sx = left + cx;
+      if (sx < 0 || sx >= width) continue;
+
+      const p = sy * width + sx;
+      const label = labels[p];
+      const owner = label === -1 ? -1 : components[label].owner;
+      if (owner !== -1 && owner !== figureIndex) continue;
+
+      const i = p * 4;
+      const o = (cy * side + cx) * 4;
+      out[o] = data[i];
+      out[o + 1] = data[i + 1];
+      out[o + 2] = data[i + 2];
+      out[o + 3] = data[i + 3];
+    }
+  }
+
+  return crop;
+};
+
+export const sliceGridByContent = (
+  imageData: ImageData,
+  columns: number,
+  rows: number,
+  tolerance: number
+): GridSliceResult => {
+  const { width, height, data } = imageData;
+  const shortSide = Math.min(width, height);
+
+  const foreground = new Uint8Array(width * height);
+  for (let p = 0; p < foreground.length; p++) {
+    const i = p * 4;
+    if (data[i + 3] > 0 && distanceFromWhite(data, i) > tolerance) foreground[p] = 1;
+  }
+
+  const joined = dilate(foreground, width, height, Math.round(shortSide * JOIN_SHARE));
+  const { labels, components } = labelComponents(foreground, joined, width, height);
+
+  const largest = components.reduce((max, c) => Math.max(max, c.area), 0);
+  const noiseArea = width * height * NOISE_SHARE;
+
+  // Big components are figures; mid-sized ones are props attached to the nearest figure
+  const figures: FigureBox[] = [];
+  components.forEach(c => {
+    if (c.area >= largest * MIN_FIGURE_SHARE) {
+      c.owner = figures.length;
+      figures.push({ x: c.x, y: c.y, width: c.width, height: c.height, area: c.area });
+    }
+  });
+  components.forEach(c => {
+    if (c.owner !== -1 || c.area < noiseArea || figures.length === 0) return;
+    let nearest = 0;
+    figures.forEach((f, i) => {
+      if (boxDistance(c, f) < boxDistance(c, figures[nearest])) nearest = i;
+    });
+    c.owner = nearest;
+    figures[nearest] = unionBox(figures[nearest], c);
+  });
+
+  if (figures.length !== columns * rows) {
+    return { figureCount: figures.length, crops: [] };
+  }
+
+  const minSide = Math.min(width / columns, height / rows);
+  const margin = shortSide * MARGIN_SHARE;
+  const order = toReadingOrder(figures.map((_, i) => i), figures, columns);
+
+  return {
+    figureCount: figures.length,
+    crops: order.map(i => cropFigure(imageData, labels, components, figures[i], i, minSide, margin))
+  };
+};
@@ -1,20 +1,67 @@
+import { assembleApng } from './apng';
+import { removeBackground, applyManualMask } from './backgroundRemoval';
+import { sliceGridByContent } from './gridSlicing';
+import { GenerationError } from '../services/generationErrors';
+import { t } from '../i18n';
+import { BackgroundRemovalSettings, CaptionLayout, GeneratedSticker, StickerMode } from '../types';
+import { ANIMATION_SPEC, CAPTION_FONTS, DEFAULT_CAPTION_LAYOUT, DEFAULT_REMOVAL_SETTINGS } from '../constants';
+
+export interface ProcessOptions {
+  width?: number; // Output width, defaults to 320
+  height?: number; // Output height, defaults to 320
+  caption?: CaptionLayout; // Caption placement and style, default layout with a random tilt when omitted
+  removal?: BackgroundRemovalSettings; // Defaults to DEFAULT_REMOVAL_SETTINGS
+  mask?: string; // Manual touch-up mask (see applyManualMask), same size as the output
+  signal?: AbortSignal; // Cancelled runs skip the pixel work and reject with the signal's reason
+}
+
+// Space kept around the art so the caption and LINE's margin fit
+const STICKER_PADDING = 20;
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+/**
+ * Where the raw art lands on the output canvas (contain fit inside the padding).
+ * Editors use this to line their overlays up with processStickerImage.
+ */
+export const getStickerDrawRect = (imgWidth: number, imgHeight: number, width: number, height: number) => {
+  const scale = Math.min((width - STICKER_PADDING * 2) / imgWidth, (height - STICKER_PADDING * 2) / imgHeight);
+  const w = imgWidth * scale;
+  const h = imgHeight * scale;
+  return { x: (width - w) / 2, y: (height - h) / 2, width: w, height: h };
+};
 
 /**
  * Processes the raw AI image:
- * 1. Resizes to 320x320.
- * 2. Removes white background (Approximate chroma key).
+ * 1. Resizes to 320x320 (or the requested size).
+ * 2. Removes white background (edge flood fill or global threshold).
  * 3. Adds the text caption with a stroke.
  */
 export const processStickerImage = async (
   base64Image: string,
-  text: string
+  text: string,
+  options: ProcessOptions = {}
 ): Promise<string> => {
+  const maskImage = options.mask ? await loadImage(options.mask) : null;
+  await loadCaptionFont(options.caption ?? DEFAULT_CAPTION_LAYOUT, text);
+
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.crossOrigin = 'Anonymous';
     img.src = base64Image;
 
     img.onload = () => {
+      if (options.signal?.aborted) {
+        reject(options.signal.reason);
+        return;
+      }
+
       const canvas = document.createElement('canvas');
       const ctx = canvas.getContext('2d');
       if (!ctx) {
@@ -22,89 +69,40 @@ export const processStickerImage = async (
         return;
       }
 
-      // LINE Sticker Standard Size
-      const SIZE = 320;
-      canvas.width = SIZE;
-      canvas.height = SIZE;
+      // LINE Sticker Standard Size (animated stickers use 320x270)
+      const WIDTH = options.width ?? 320;
+      const HEIGHT = options.height ?? 320;
+      canvas.width = WIDTH;
+      canvas.height = HEIGHT;
 
       // 1. Draw Image (Contain fit)
-      // We want to keep aspect ratio but fit in 320x320.
+      // We want to keep aspect ratio but fit in the canvas.
       // Usually GenAI returns square 1:1, but just in case.
       // We also leave some padding for the text.
-      const padding = 20;
-      const drawWidth = SIZE - (padding * 2);
-      const drawHeight = SIZE - (padding * 2);
-      
-      ctx.drawImage(img, padding, padding, drawWidth, drawHeight);
+      const rect = getStickerDrawRect(img.width, img.height, WIDTH, HEIGHT);
+      ctx.drawImage(img, rect.x, rect.y, rect.width, rect.height);
 
-      // 2. Remove White Background (Simple algorithm)
+      // 2. Remove White Background
       // Get pixel data
-      const imageData = ctx.getImageData(0, 0, SIZE, SIZE);
-      const data = imageData.data;
-      const threshold = 240; // Sensitivity for "white"
-
-      for (let i = 0; i < data.length; i += 4) {
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
-        
-        // If pixel is very light (white/off-white)
-        if (r > threshold && g > threshold && b > threshold) {
-          data[i + 3] = 0; // Set Alpha to 0 (Transparent)
+      const imageData = ctx.getImageData(0, 0, WIDTH, HEIGHT);
+      const original = maskImage ? new Uint8ClampedArray(imageData.data) : null;
+      removeBackground(imageData, options.removal ?? DEFAULT_REMOVAL_SETTINGS);
+
+      // 2b. Manual touch-ups win over the automatic result
+      if (maskImage && original) {
+        const maskCanvas = document.createElement('canvas');
+        maskCanvas.width = WIDTH;
+        maskCanvas.height = HEIGHT;
+        const maskCtx = maskCanvas.getContext('2d');
+        if (maskCtx) {
+          maskCtx.drawImage(maskImage, 0, 0, WIDTH, HEIGHT);
+          applyManualMask(imageData, original, maskCtx.getImageData(0, 0, WIDTH, HEIGHT).data);
         }
       }
       ctx.putImageData(imageData, 0, 0);
 
       // 3. Draw Text
-      if (text) {
-        ctx.save();
-        
-        // Random slight rotation for fun (-5 to 5 degrees)
-        const angle = (Math.random() * 8 - 4) * (Math.PI / 180);
-        
-        const x = SIZE / 2;
-        const y = SIZE - 20;
-
-        // Move context for rotation
-        ctx.translate(x, y);
-        ctx.rotate(angle);
-
-        // Auto-scale font size (Reduced per user request)
-        let fontSize = 34; // Reduced from 40 to 34
-        const minFontSize = 20;
-        const maxTextWidth = SIZE - 20; // Allow 10px padding on sides
-
-        ctx.font = `900 ${fontSize}px "Noto Sans TC", sans-serif`;
-        
-        // Decrease font size until it fits
-        while (ctx.measureText(text).width > maxTextWidth && fontSize > minFontSize) {
-          fontSize -= 2;
-          ctx.font = `900 ${fontSize}px "Noto Sans TC", sans-serif`;
-        }
-
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'bottom';
-        ctx.lineJoin = 'round';
-        ctx.miterLimit = 2;
-
-        // Shadow for depth (softer to avoid double-text look)
-        ctx.shadowColor = "rgba(0, 0, 0, 0.4)";
-        ctx.shadowBlur = 4;
-        ctx.shadowOffsetX = 2;
-        ctx.shadowOffsetY = 2;
-
-        // Thick White Outline (Stroke)
-        ctx.strokeStyle = 'white';
-        ctx.lineWidth = 6; // Reduced from 8 to 6
-        ctx.strokeText(text, 0, 0);
-
-        // Inner Text Fill
-        ctx.fillStyle = '#333333';
-        ctx.shadowColor = "transparent"; // Remove shadow for fill to stay crisp
-        ctx.fillText(text, 0, 0);
-        
-        ctx.restore();
-      }
+      drawCaption(ctx, text, options.caption ?? randomCaptionLayout(), WIDTH, HEIGHT);
 
       resolve(canvas.toDataURL('image/png'));
     };
@@ -114,15 +112,109 @@ export const processStickerImage = async (
 };
 
 /**
- * Slices a 2x2 grid image into 4 separate images
+ * The default caption with a slight random tilt for fun (-4 to 4 degrees).
+ * Callers store the result so re-renders (and every animation frame) keep the same tilt.
  */
-export const sliceImageGrid = async (
-  gridBase64: string, 
-  itemCount: number // How many valid items we expect (1-4)
+export const randomCaptionLayout = (): CaptionLayout => ({
+  ...DEFAULT_CAPTION_LAYOUT,
+  rotation: Math.round((Math.random() * 8 - 4) * 10) / 10
+});
+
+const getCaptionFont = (layout: CaptionLayout) =>
+  CAPTION_FONTS.find(f => f.id === layout.fontId) ?? CAPTION_FONTS[0];
+
+/**
+ * Waits for the web fonts the caption needs. Canvas doesn't trigger font
+ * downloads itself, so without this the first Thai/Japanese caption is drawn
+ * in a system fallback (or as boxes). Offline, it just draws with what's there.
+ */
+export const loadCaptionFont = async (layout: CaptionLayout, text: string) => {
+  if (!text || typeof document === 'undefined' || !document.fonts) return;
+  const font = getCaptionFont(layout);
+  try {
+    await document.fonts.load(`${font.weight} ${layout.fontSize}px ${font.family}`, text);
+  } catch (err) {
+    console.warn("Caption font failed to load", err);
+  }
+};
+
+/**
+ * Draws the caption onto a finished sticker canvas.
+ * Call loadCaptionFont first so every script in the text has its glyphs.
+ * The font shrinks (down to 20px) until the text fits the width.
+ */
+export const drawCaption = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  layout: CaptionLayout,
+  width: number,
+  height: number
+) => {
+  if (!text || !layout.visible) return;
+
+  ctx.save();
+
+  const font = getCaptionFont(layout);
+  const x = layout.x * width;
+  const y = layout.y * height;
+
+  // Move context for rotation
+  ctx.translate(x, y);
+  ctx.rotate(layout.rotation * (Math.PI / 180));
+
+  // Auto-scale font size
+  let fontSize = layout.fontSize;
+  const minFontSize = Math.min(20, layout.fontSize);
+  const maxTextWidth = width - 20; // Allow 10px padding on sides
+
+  ctx.font = `${font.weight} ${fontSize}px ${font.family}`;
+  
+  // Decrease font size until it fits
+  while (ctx.measureText(text).width > maxTextWidth && fontSize > minFontSize) {
+    fontSize -= 2;
+    ctx.font = `${font.weight} ${fontSize}px ${font.family}`;
+  }
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.lineJoin = 'round';
+  ctx.miterLimit = 2;
+
+  // Shadow for depth (softer to avoid double-text look)
+  if (layout.shadow) {
+    ctx.shadowColor = "rgba(0, 0, 0, 0.4)";
+    ctx.shadowBlur = 4;
+    ctx.shadowOffsetX = 2;
+    ctx.shadowOffsetY = 2;
+  }
+
+  // Outline (Stroke)
+  if (layout.strokeWidth > 0) {
+    ctx.strokeStyle = layout.stroke;
+    ctx.lineWidth = layout.strokeWidth;
+    ctx.strokeText(text, 0, 0);
+  }
+
+  // Inner Text Fill
+  ctx.fillStyle = layout.fill;
+  ctx.shadowColor = "transparent"; // Remove shadow for fill to stay crisp
+  ctx.fillText(text, 0, 0);
+  
+  ctx.restore();
+};
+
+/**
+ * Slices a columns x rows sheet into cells, reading left-to-right, top-to-bottom
+ */
+export const sliceImageSheet = async (
+  sheetBase64: string,
+  columns: number,
+  rows: number,
+  itemCount: number // How many valid cells we expect
 ): Promise<string[]> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
-    img.src = gridBase64;
+    img.src = sheetBase64;
     img.onload = () => {
       const canvas = document.createElement('canvas');
       const ctx = canvas.getContext('2d');
@@ -131,24 +223,15 @@ export const sliceImageGrid = async (
         return;
       }
       
-      const width = img.width;
-      const height = img.height;
-      const cellW = width / 2;
-      const cellH = height / 2;
+      const cellW = img.width / columns;
+      const cellH = img.height / rows;
       
       const results: string[] = [];
-      
-      // Coordinates for 2x2 Grid: TL, TR, BL, BR
-      const coords = [
-        { x: 0, y: 0 },
-        { x: cellW, y: 0 },
-        { x: 0, y: cellH },
-        { x: cellW, y: cellH }
-      ];
-
-      // Process only as many as we need (max 4)
-      for (let i = 0; i < Math.min(itemCount, 4); i++) {
-        const { x, y } = coords[i];
+
+      // Process only as many as we need
+      for (let i = 0; i < Math.min(itemCount, columns * rows); i++) {
+        const x = (i % columns) * cellW;
+        const y = Math.floor(i / columns) * cellH;
         
         canvas.width = cellW;
         canvas.height = cellH;
@@ -164,13 +247,107 @@ export const sliceImageGrid = async (
   });
 };
 
+/**
+ * Slices a columns x rows grid image into separate images, in reading order.
+ * Crops follow the drawn figures rather than fixed cells (see sliceGridByContent).
+ * The model always draws a full grid, so any other figure count means the crops
+ * would be broken and the whole batch is rejected.
+ */
+export const sliceImageGrid = async (
+  gridBase64: string, 
+  columns: number,
+  rows: number,
+  itemCount: number, // How many valid items we expect (1 to columns x rows)
+  signal?: AbortSignal
+): Promise<string[]> => {
+  const img = await loadImage(gridBase64);
+  if (signal?.aborted) throw signal.reason;
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("No context");
+  ctx.drawImage(img, 0, 0);
+
+  const { figureCount, crops } = sliceGridByContent(
+    ctx.getImageData(0, 0, img.width, img.height),
+    columns,
+    rows,
+    DEFAULT_REMOVAL_SETTINGS.tolerance
+  );
+  if (crops.length === 0) {
+    throw new GenerationError('slicing', t('processing.sliceFailed', { found: figureCount, expected: columns * rows }));
+  }
+
+  return crops.slice(0, itemCount).map(crop => {
+    canvas.width = crop.width;
+    canvas.height = crop.height;
+    ctx.putImageData(crop, 0, 0);
+    return canvas.toDataURL('image/png');
+  });
+};
+
+/**
+ * Turns raw animation frames into a LINE animated sticker:
+ * every frame goes through the same background removal + caption pipeline,
+ * then the frames are assembled into a looping APNG.
+ */
+export const processAnimatedSticker = async (
+  rawFrames: string[],
+  text: string,
+  spec: { width: number; height: number; delayMs: number; plays: number },
+  options: Pick<ProcessOptions, 'caption' | 'removal' | 'mask' | 'signal'> = {}
+): Promise<{ frames: string[]; apngUrl: string }> => {
+  // Every frame shares one caption layout so the text doesn't jitter
+  const caption = options.caption ?? randomCaptionLayout();
+  const frames = await Promise.all(
+    rawFrames.map(frame =>
+      processStickerImage(frame, text, { ...options, width: spec.width, height: spec.height, caption })
+    )
+  );
+  if (options.signal?.aborted) throw options.signal.reason;
+  const apngUrl = assembleApng(frames, { delayMs: spec.delayMs, plays: spec.plays });
+  return { frames, apngUrl };
+};
+
+/**
+ * Re-renders a sticker from its stored raw image without calling the API.
+ * Uses the sticker's saved settings unless overrides are given.
+ */
+export const reprocessSticker = async (
+  sticker: GeneratedSticker,
+  mode: StickerMode,
+  overrides: Pick<ProcessOptions, 'removal' | 'mask' | 'caption'> = {}
+): Promise<Pick<GeneratedSticker, 'processedUrl' | 'frames' | 'removal' | 'caption' | 'maskUrl'>> => {
+  const removal = overrides.removal ?? sticker.removal ?? DEFAULT_REMOVAL_SETTINGS;
+  const caption = overrides.caption ?? sticker.caption ?? DEFAULT_CAPTION_LAYOUT;
+  // An empty string override clears the mask
+  const mask = overrides.mask !== undefined ? overrides.mask || undefined : sticker.maskUrl;
+
+  if (mode === 'animated') {
+    const rawFrames = await sliceImageSheet(
+      sticker.imageUrl,
+      ANIMATION_SPEC.sheetColumns,
+      ANIMATION_SPEC.sheetRows,
+      ANIMATION_SPEC.frameCount
+    );
+    const { frames, apngUrl } = await processAnimatedSticker(rawFrames, sticker.text, ANIMATION_SPEC, { caption, removal, mask });
+    return { processedUrl: apngUrl, frames, removal, caption, maskUrl: mask };
+  }
+
+  const processedUrl = await processStickerImage(sticker.imageUrl, sticker.text, { caption, removal, mask });
+  return { processedUrl, removal, caption, maskUrl: mask };
+};
+
 /**
  * Creates a resized version of the processed sticker for LINE main.png/tab.png
+ * 'contain' keeps the aspect ratio and pads with transparency.
  */
 export const createResizedVariant = async (
   base64Image: string, 
   targetWidth: number, 
-  targetHeight: number
+  targetHeight: number,
+  fit: 'stretch' | 'contain' = 'stretch'
 ): Promise<string> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
@@ -184,7 +361,14 @@ export const createResizedVariant = async (
         // High quality scaling
         ctx.imageSmoothingEnabled = true;
         ctx.imageSmoothingQuality = 'high';
-        ctx.drawImage(img, 0, 0, targetWidth, targetHeight);
+        if (fit === 'contain') {
+          const scale = Math.min(targetWidth / img.width, targetHeight / img.height);
+          const w = img.width * scale;
+          const h = img.height * scale;
+          ctx.drawImage(img, (targetWidth - w) / 2, (targetHeight - h) / 2, w, h);
+        } else {
+          ctx.drawImage(img, 0, 0, targetWidth, targetHeight);
+        }
         resolve(canvas.toDataURL('image/png'));
       } else {
         reject(new Error("No context"));
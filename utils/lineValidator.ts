@@ -0,0 +1,190 @@
+import { FileValidation, PackValidation, StickerMode, ValidationCheck, ValidationStatus } from '../types';
+import { LINE_RULES } from '../constants';
+import { PackFile } from './packExport';
+import { readApngInfo } from './apng';
+import { t } from '../i18n';
+
+// ==========================================
+// LINE Creators Market submission validator
+// Inspects every file of the pack and reports pass / warn / fail per rule.
+// ==========================================
+
+const STATUS_RANK: Record<ValidationStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+const worstStatus = (statuses: ValidationStatus[]): ValidationStatus =>
+  statuses.reduce<ValidationStatus>(
+    (worst, status) => (STATUS_RANK[status] > STATUS_RANK[worst] ? status : worst),
+    'pass'
+  );
+
+const formatKb = (bytes: number) => `${(bytes / 1024).toFixed(0)}KB`;
+
+// Decoded size of a base64 data URL without decoding it
+const dataUrlByteSize = (dataUrl: string): number => {
+  const base64 = dataUrl.split(',')[1] || '';
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+};
+
+interface ImageInfo {
+  width: number;
+  height: number;
+  opaquePixels: number;
+  marginPixels: number; // Non-transparent pixels inside the outer margin band
+}
+
+const inspectImage = async (dataUrl: string, margin: number): Promise<ImageInfo> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.src = dataUrl;
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("No context"));
+        return;
+      }
+      ctx.drawImage(img, 0, 0);
+      const { data } = ctx.getImageData(0, 0, img.width, img.height);
+
+      let opaquePixels = 0;
+      let marginPixels = 0;
+      for (let y = 0; y < img.height; y++) {
+        for (let x = 0; x < img.width; x++) {
+          if (data[(y * img.width + x) * 4 + 3] === 0) continue;
+          opaquePixels++;
+          if (x < margin || y < margin || x >= img.width - margin || y >= img.height - margin) {
+            marginPixels++;
+          }
+        }
+      }
+
+      resolve({ width: img.width, height: img.height, opaquePixels, marginPixels });
+    };
+    img.onerror = reject;
+  });
+};
+
+const checkDimensions = (file: PackFile, info: ImageInfo, mode: StickerMode): ValidationCheck => {
+  const size = `${info.width}x${info.height}`;
+
+  if (file.role === 'main' || file.role === 'tab') {
+    const expected = LINE_RULES[file.role];
+    return info.width === expected.width && info.height === expected.height
+      ? { rule: t('validation.rule.size'), status: 'pass', message: size }
+      : { rule: t('validation.rule.size'), status: 'fail', message: t('validation.sizeExact', { size, expected: `${expected.width}x${expected.height}` }) };
+  }
+
+  const rules = LINE_RULES[mode];
+  if (info.width > rules.maxWidth || info.height > rules.maxHeight) {
+    return { rule: t('validation.rule.size'), status: 'fail', message: t('validation.sizeTooLarge', { size, max: `${rules.maxWidth}x${rules.maxHeight}` }) };
+  }
+  if (mode === 'animated' && Math.max(info.width, info.height) < LINE_RULES.animated.minSide) {
+    return { rule: t('validation.rule.size'), status: 'fail', message: t('validation.sizeTooSmall', { size, min: LINE_RULES.animated.minSide }) };
+  }
+  if (info.width % 2 !== 0 || info.height % 2 !== 0) {
+    return { rule: t('validation.rule.size'), status: 'fail', message: t('validation.sizeOdd', { size }) };
+  }
+  return { rule: t('validation.rule.size'), status: 'pass', message: size };
+};
+
+const checkFileSize = (file: PackFile, mode: StickerMode): ValidationCheck => {
+  const bytes = dataUrlByteSize(file.dataUrl);
+  const isApng = mode === 'animated' && file.role !== 'tab';
+  const limit = isApng ? LINE_RULES.animated.maxFileBytes : LINE_RULES.maxFileBytes;
+
+  return bytes <= limit
+    ? { rule: t('validation.rule.fileSize'), status: 'pass', message: formatKb(bytes) }
+    : { rule: t('validation.rule.fileSize'), status: 'fail', message: t('validation.fileTooLarge', { size: formatKb(bytes), max: formatKb(limit) }) };
+};
+
+const checkMargin = (info: ImageInfo): ValidationCheck => {
+  if (info.opaquePixels === 0) {
+    return { rule: t('validation.rule.content'), status: 'fail', message: t('validation.empty') };
+  }
+  return info.marginPixels === 0
+    ? { rule: t('validation.rule.margin'), status: 'pass', message: t('validation.marginOk', { margin: LINE_RULES.margin }) }
+    : { rule: t('validation.rule.margin'), status: 'warn', message: t('validation.marginCrossed', { count: info.marginPixels, margin: LINE_RULES.margin }) };
+};
+
+const checkAnimation = (file: PackFile): ValidationCheck[] => {
+  const rules = LINE_RULES.animated;
+  const info = readApngInfo(file.dataUrl);
+  if (!info) {
+    return [{ rule: t('validation.rule.animation'), status: 'fail', message: t('validation.notApng') }];
+  }
+
+  const totalMs = info.durationMs * info.plays;
+  return [
+    info.frameCount >= rules.minFrames && info.frameCount <= rules.maxFrames
+      ? { rule: t('validation.rule.frames'), status: 'pass', message: t('validation.frames', { count: info.frameCount }) }
+      : { rule: t('validation.rule.frames'), status: 'fail', message: t('validation.framesOutOfRange', { count: info.frameCount, min: rules.minFrames, max: rules.maxFrames }) },
+    info.plays >= rules.minPlays && info.plays <= rules.maxPlays
+      ? { rule: t('validation.rule.plays'), status: 'pass', message: t('validation.plays', { count: info.plays }) }
+      : { rule: t('validation.rule.plays'), status: 'fail', message: t('validation.playsOutOfRange', { count: info.plays === 0 ? t('validation.infinite') : info.plays, min: rules.minPlays, max: rules.maxPlays }) },
+    totalMs <= rules.maxDurationMs
+      ? { rule: t('validation.rule.duration'), status: 'pass', message: t('validation.duration', { seconds: (totalMs / 1000).toFixed(1) }) }
+      : { rule: t('validation.rule.duration'), status: 'fail', message: t('validation.durationTooLong', { seconds: (totalMs / 1000).toFixed(1), max: rules.maxDurationMs / 1000 }) },
+  ];
+};
+
+const validateFile = async (file: PackFile, mode: StickerMode): Promise<FileValidation> => {
+  const checks: ValidationCheck[] = [];
+
+  try {
+    const info = await inspectImage(file.dataUrl, LINE_RULES.margin);
+    checks.push(checkDimensions(file, info, mode));
+    checks.push(checkFileSize(file, mode));
+    // main/tab icons are thumbnails; LINE only asks for the margin on the stickers themselves
+    if (file.role === 'sticker') checks.push(checkMargin(info));
+    if (mode === 'animated' && file.role !== 'tab') checks.push(...checkAnimation(file));
+  } catch (e) {
+    console.error(`Failed to inspect ${file.fileName}`, e);
+    checks.push({ rule: t('validation.rule.read'), status: 'fail', message: t('validation.unreadable') });
+  }
+
+  return { fileName: file.fileName, status: worstStatus(checks.map(c => c.status)), checks };
+};
+
+const validatePackLevel = (files: PackFile[], mode: StickerMode): ValidationCheck[] => {
+  const stickerCount = files.filter(f => f.role === 'sticker').length;
+  const allowed = LINE_RULES[mode].setSizes;
+  const mainName = mode === 'animated' ? 'main_animation.png' : 'main.png';
+
+  return [
+    allowed.includes(stickerCount)
+      ? { rule: t('validation.rule.count'), status: 'pass', message: t('validation.count', { count: stickerCount }) }
+      : { rule: t('validation.rule.count'), status: 'fail', message: t('validation.countNotAllowed', { count: stickerCount, allowed: allowed.join(' / ') }) },
+    files.some(f => f.role === 'main')
+      ? { rule: mainName, status: 'pass', message: t('validation.generated') }
+      : { rule: mainName, status: 'fail', message: t('validation.missingMain') },
+    files.some(f => f.role === 'tab')
+      ? { rule: 'tab.png', status: 'pass', message: t('validation.generated') }
+      : { rule: 'tab.png', status: 'fail', message: t('validation.missingTab') },
+  ];
+};
+
+/**
+ * Validates the full export against LINE's rules.
+ * Files are inspected one after another to keep memory use low on big sets.
+ * `listingChecks` are the store listing's rows, when the pack carries one.
+ */
+export const validatePack = async (
+  files: PackFile[],
+  mode: StickerMode,
+  listingChecks: ValidationCheck[] = []
+): Promise<PackValidation> => {
+  const packChecks = [...validatePackLevel(files, mode), ...listingChecks];
+  const fileReports: FileValidation[] = [];
+  for (const file of files) {
+    fileReports.push(await validateFile(file, mode));
+  }
+
+  return {
+    status: worstStatus([...packChecks.map(c => c.status), ...fileReports.map(f => f.status)]),
+    packChecks,
+    files: fileReports
+  };
+};
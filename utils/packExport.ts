@@ -0,0 +1,131 @@
+import JSZip from 'jszip';
+import { CaptionLanguage, GeneratedSticker, StickerMode, StickerPlanItem } from '../types';
+import { createResizedVariant, reprocessSticker } from './imageProcessing';
+import { assembleApng } from './apng';
+import { getFreshCaption } from './captionLanguages';
+import { ANIMATION_SPEC, LINE_RULES } from '../constants';
+
+export interface PackFile {
+  fileName: string;
+  dataUrl: string;
+  role: 'sticker' | 'main' | 'tab';
+  stickerId?: number;
+}
+
+// Text that rides along with the images, e.g. the store listing
+export interface PackTextFile {
+  fileName: string;
+  content: string;
+}
+
+export const PACK_FOLDER: Record<StickerMode, string> = {
+  static: 'line_stickers',
+  animated: 'line_animated_stickers'
+};
+
+export const PACK_ZIP_NAME: Record<StickerMode, string> = {
+  static: 'line_stickers_pack.zip',
+  animated: 'line_animated_stickers_pack.zip'
+};
+
+// Each language is its own pack (LINE sells them as separate sets), e.g. line_stickers_pack_ja.zip
+export const getPackZipName = (mode: StickerMode, lang?: CaptionLanguage | null) =>
+  lang ? PACK_ZIP_NAME[mode].replace('.zip', `_${lang}.zip`) : PACK_ZIP_NAME[mode];
+
+/**
+ * Re-renders the finished stickers with their caption in `lang`, from the
+ * stored art and each sticker's own caption layout, background and mask.
+ * Stickers whose plan line has no caption in that language keep their text.
+ * Runs one sticker at a time to keep memory flat on large animated sets.
+ */
+export const localizeStickers = async (
+  stickers: GeneratedSticker[],
+  plan: StickerPlanItem[],
+  lang: CaptionLanguage,
+  mode: StickerMode
+): Promise<GeneratedSticker[]> => {
+  const localized: GeneratedSticker[] = [];
+  for (const sticker of stickers) {
+    const item = plan.find(p => p.id === sticker.id);
+    const text = item && getFreshCaption(item, lang);
+    if (sticker.status !== 'success' || !text || text === sticker.text) {
+      localized.push(sticker);
+      continue;
+    }
+    localized.push({ ...sticker, text, ...(await reprocessSticker({ ...sticker, text }, mode)) });
+  }
+  return localized;
+};
+
+/**
+ * Builds every file that goes into the LINE pack:
+ * - Static: sticker_N.png (320x320), main.png (240x240), tab.png (96x74)
+ * - Animated: 01.png..NN.png (APNG), main_animation.png (240x240 APNG), tab.png
+ * main/tab are derived from the first successful sticker.
+ */
+export const buildPackFiles = async (
+  stickers: GeneratedSticker[],
+  mode: StickerMode
+): Promise<PackFile[]> => {
+  const successStickers = stickers.filter(s => s.status === 'success' && s.processedUrl);
+  const { main, tab } = LINE_RULES;
+
+  const files: PackFile[] = successStickers.map(sticker => ({
+    fileName: mode === 'animated'
+      ? `${String(sticker.id + 1).padStart(2, '0')}.png`
+      : `sticker_${sticker.id + 1}.png`,
+    dataUrl: sticker.processedUrl,
+    role: 'sticker',
+    stickerId: sticker.id
+  }));
+
+  if (successStickers.length === 0) return files;
+
+  const firstSticker = successStickers[0];
+  try {
+    if (mode === 'animated') {
+      if (firstSticker.frames && firstSticker.frames.length > 0) {
+        const mainFrames = await Promise.all(
+          firstSticker.frames.map(frame => createResizedVariant(frame, main.width, main.height, 'contain'))
+        );
+        const mainUrl = assembleApng(mainFrames, { delayMs: ANIMATION_SPEC.delayMs, plays: ANIMATION_SPEC.plays });
+        files.push({ fileName: 'main_animation.png', dataUrl: mainUrl, role: 'main' });
+      }
+
+      // tab.png stays static, built from the first frame
+      const tabSource = firstSticker.frames?.[0] || firstSticker.processedUrl;
+      const tabUrl = await createResizedVariant(tabSource, tab.width, tab.height, 'contain');
+      files.push({ fileName: 'tab.png', dataUrl: tabUrl, role: 'tab' });
+    } else {
+      const mainUrl = await createResizedVariant(firstSticker.processedUrl, main.width, main.height);
+      files.push({ fileName: 'main.png', dataUrl: mainUrl, role: 'main' });
+
+      const tabUrl = await createResizedVariant(firstSticker.processedUrl, tab.width, tab.height);
+      files.push({ fileName: 'tab.png', dataUrl: tabUrl, role: 'tab' });
+    }
+  } catch (e) {
+    console.error("Failed to create resized assets", e);
+  }
+
+  return files;
+};
+
+// Text files go next to the image folder, so the folder can be uploaded as is
+export const createPackZip = async (
+  files: PackFile[],
+  mode: StickerMode,
+  lang?: CaptionLanguage | null,
+  textFiles: PackTextFile[] = []
+): Promise<Blob> => {
+  const zip = new JSZip();
+  const folder = zip.folder(lang ? `${PACK_FOLDER[mode]}_${lang}` : PACK_FOLDER[mode]);
+
+  files.forEach(file => {
+    folder?.file(file.fileName, file.dataUrl.split(',')[1], { base64: true });
+  });
+  textFiles.forEach(file => {
+    zip.file(file.fileName, file.content);
+  });
+
+  return zip.generateAsync({ type: "blob" });
+};
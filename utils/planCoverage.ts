@@ -0,0 +1,37 @@
+import { StickerEmotion, StickerPlanItem } from '../types';
+import { CORE_EMOTIONS, STICKER_EMOTIONS } from '../constants';
+import { t } from '../i18n';
+
+// ==========================================
+// Plan coverage
+// Counts how the plan spreads over emotion tags and flags the gaps.
+// ==========================================
+
+export interface EmotionCoverage {
+  counts: Partial<Record<StickerEmotion, number>>;
+  missing: StickerEmotion[]; // Core emotions with no sticker
+  dominant: StickerEmotion | null; // One tag taking over the set
+}
+
+// Above this share a single tag makes the set feel repetitive
+const DOMINANT_SHARE = 0.4;
+
+export const summarizeEmotionCoverage = (plan: StickerPlanItem[]): EmotionCoverage => {
+  const counts: Partial<Record<StickerEmotion, number>> = {};
+  plan.forEach(item => {
+    counts[item.emotion] = (counts[item.emotion] ?? 0) + 1;
+  });
+
+  // With fewer stickers than core emotions, only ask for as many as fit
+  const missing = CORE_EMOTIONS.filter(emotion => !counts[emotion]);
+  const required = Math.min(CORE_EMOTIONS.length, plan.length);
+  const covered = CORE_EMOTIONS.length - missing.length;
+
+  const dominant = plan.length >= 8
+    ? STICKER_EMOTIONS.find(({ id }) => id !== 'other' && (counts[id] ?? 0) / plan.length > DOMINANT_SHARE)?.id ?? null
+    : null;
+
+  return { counts, missing: covered >= required ? [] : missing, dominant };
+};
+
+export const getEmotionName = (emotion: StickerEmotion) => t(`emotion.${emotion}`);
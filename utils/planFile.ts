@@ -0,0 +1,207 @@
+import { CaptionLanguage, CaptionMap, StickerEmotion, StickerMode, StickerPlanItem } from '../types';
+import { ANIMATED_STICKER_COUNTS, CAPTION_LANGUAGES, STICKER_COUNTS, STICKER_EMOTIONS } from '../constants';
+import { formatCaption } from './captionLanguages';
+import { findNearDuplicates } from './captionSimilarity';
+import { t } from '../i18n';
+
+// ==========================================
+// Plan Files
+// Captions written in a spreadsheet come in as CSV or JSON and replace the AI plan step.
+// CSV columns: text, one per caption language (tc, en, ja, th, ko, sc, id), direction, emotion.
+// JSON: { version, plan: [{ text, captions: { tc, en, ... }, direction, emotion }] }
+// ==========================================
+
+export type PlanFileFormat = 'csv' | 'json';
+
+const PLAN_FILE_VERSION = 1;
+
+const LANGUAGE_IDS = CAPTION_LANGUAGES.map(l => l.id);
+const EMOTION_IDS = STICKER_EMOTIONS.map(e => e.id);
+
+export interface PlanImport {
+  plan: StickerPlanItem[];
+  languages: CaptionLanguage[]; // Caption languages the file has text for
+  duplicates: number[][]; // Near-duplicate captions, as groups of item ids
+}
+
+// One row before validation, whichever format it came from
+interface PlanRow {
+  text?: unknown;
+  captions: Partial<Record<CaptionLanguage, unknown>>;
+  direction?: unknown;
+  emotion?: unknown;
+}
+
+export const getPlanFileName = (format: PlanFileFormat) => `sticker_plan.${format}`;
+
+export const detectPlanFileFormat = (fileName: string, content: string): PlanFileFormat =>
+  fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(content) ? 'json' : 'csv';
+
+const clean = (value: unknown) => (typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '');
+
+// ==========================================
+// CSV
+// ==========================================
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks
+const parseCsv = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const source = content.replace(/^\uFEFF/, ''); // Excel's UTF-8 marker
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const csvRows = (content: string): PlanRow[] => {
+  const [header, ...body] = parseCsv(content);
+  const columns = (header ?? []).map(name => name.trim().toLowerCase());
+  const knownColumns = ['text', 'direction', 'emotion', ...LANGUAGE_IDS];
+  if (!columns.some(name => knownColumns.includes(name))) {
+    throw new Error(t('planFile.csvNoHeader', { columns: knownColumns.join(', ') }));
+  }
+
+  return body.map(cells => {
+    const cell = (name: string) => {
+      const index = columns.indexOf(name);
+      return index === -1 ? undefined : cells[index];
+    };
+    return {
+      text: cell('text'),
+      captions: Object.fromEntries(LANGUAGE_IDS.map(lang => [lang, cell(lang)])),
+      direction: cell('direction'),
+      emotion: cell('emotion')
+    };
+  });
+};
+
+const toCsvField = (value: string) => (/[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// ==========================================
+// JSON
+// ==========================================
+
+const jsonRows = (content: string): PlanRow[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error(t('planFile.invalidJson'));
+  }
+
+  const list = Array.isArray(data) ? data : (data as { plan?: unknown })?.plan;
+  if (!Array.isArray(list)) {
+    throw new Error(t('planFile.jsonNoPlan'));
+  }
+
+  return list.map(entry => {
+    const item = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    const captions = (item.captions && typeof item.captions === 'object' ? item.captions : {}) as PlanRow['captions'];
+    return { text: item.text, captions, direction: item.direction, emotion: item.emotion };
+  });
+};
+
+// ==========================================
+// Import / export
+// ==========================================
+
+// The caption drawn defaults to the bilingual line the AI plan starts with, else any language given
+const toPlanItem = (row: PlanRow, id: number): StickerPlanItem | null => {
+  const captions: CaptionMap = {};
+  LANGUAGE_IDS.forEach(lang => {
+    const caption = clean(row.captions[lang]);
+    if (caption) captions[lang] = caption;
+  });
+
+  const text = clean(row.text) || formatCaption(captions, 'both') || Object.values(captions)[0] || '';
+  if (!text) return null;
+
+  const emotion = clean(row.emotion).toLowerCase() as StickerEmotion;
+  return {
+    id,
+    text,
+    captions,
+    direction: clean(row.direction),
+    emotion: EMOTION_IDS.includes(emotion) ? emotion : 'other'
+  };
+};
+
+/**
+ * Reads a plan file. Rows become plan lines in file order; the row count
+ * must be a set size LINE accepts for the mode. Near-duplicates are reported,
+ * not rejected, so the caller can ask the user.
+ */
+export const parsePlanFile = (content: string, format: PlanFileFormat, mode: StickerMode): PlanImport => {
+  const rows = format === 'json' ? jsonRows(content) : csvRows(content);
+
+  // Row numbers as the spreadsheet shows them (the CSV header is row 1)
+  const firstRow = format === 'csv' ? 2 : 1;
+  const emptyRows: number[] = [];
+  const plan: StickerPlanItem[] = [];
+  rows.forEach((row, index) => {
+    const item = toPlanItem(row, plan.length);
+    if (item) plan.push(item);
+    else emptyRows.push(index + firstRow);
+  });
+
+  if (emptyRows.length > 0) {
+    throw new Error(t('planFile.emptyRows', { rows: emptyRows.join(', ') }));
+  }
+
+  const allowed = mode === 'animated' ? ANIMATED_STICKER_COUNTS : STICKER_COUNTS;
+  if (!(allowed as number[]).includes(plan.length)) {
+    throw new Error(t('planFile.badCount', { count: plan.length, allowed: allowed.join(' / ') }));
+  }
+
+  return {
+    plan,
+    languages: LANGUAGE_IDS.filter(lang => plan.some(item => item.captions[lang])),
+    duplicates: findNearDuplicates(plan)
+  };
+};
+
+export const exportPlanFile = (plan: StickerPlanItem[], format: PlanFileFormat): Blob => {
+  if (format === 'json') {
+    const items = plan.map(({ text, captions, direction, emotion }) => ({ text, captions, direction, emotion }));
+    return new Blob([JSON.stringify({ version: PLAN_FILE_VERSION, plan: items }, null, 2)], { type: 'application/json' });
+  }
+
+  // Only the languages that have text, so the sheet stays readable
+  const languages = LANGUAGE_IDS.filter(lang => plan.some(item => item.captions[lang]));
+  const header = ['text', ...languages, 'direction', 'emotion'];
+  const lines = plan.map(item =>
+    [item.text, ...languages.map(lang => item.captions[lang] ?? ''), item.direction, item.emotion].map(toCsvField).join(',')
+  );
+  // The BOM makes Excel open the file as UTF-8
+  return new Blob(['\uFEFF' + [header.join(','), ...lines].join('\r\n')], { type: 'text/csv;charset=utf-8' });
+};
@@ -0,0 +1,50 @@
+import { PlanHistory, PlanSnapshot } from '../types';
+import { MAX_PLAN_HISTORY, PLAN_EDIT_MERGE_MS } from '../constants';
+
+// ==========================================
+// Plan History
+// Every change to the plan (or its languages) keeps what it replaced, so it can be undone.
+// ==========================================
+
+export const EMPTY_PLAN_HISTORY: PlanHistory = { past: [], future: [], mergeKey: null, changedAt: 0 };
+
+/**
+ * Records that `previous` was replaced. A new change drops the redo steps.
+ * Keystrokes in the same field within PLAN_EDIT_MERGE_MS extend the last step
+ * instead of adding one per character.
+ */
+export const recordPlanChange = (
+  history: PlanHistory,
+  previous: PlanSnapshot,
+  mergeKey: string | null = null,
+  now: number = Date.now()
+): PlanHistory => {
+  // Nothing to go back to before the first plan
+  if (previous.plan.length === 0) return EMPTY_PLAN_HISTORY;
+
+  const isSameEdit = mergeKey !== null && mergeKey === history.mergeKey && now - history.changedAt < PLAN_EDIT_MERGE_MS;
+  return {
+    past: isSameEdit ? history.past : [...history.past, previous].slice(-MAX_PLAN_HISTORY),
+    future: [],
+    mergeKey,
+    changedAt: now
+  };
+};
+
+export const undoPlan = (history: PlanHistory, current: PlanSnapshot) => {
+  const snapshot = history.past[history.past.length - 1];
+  if (!snapshot) return null;
+  return {
+    snapshot,
+    history: { past: history.past.slice(0, -1), future: [...history.future, current], mergeKey: null, changedAt: 0 }
+  };
+};
+
+export const redoPlan = (history: PlanHistory, current: PlanSnapshot) => {
+  const snapshot = history.future[history.future.length - 1];
+  if (!snapshot) return null;
+  return {
+    snapshot,
+    history: { past: [...history.past, current], future: history.future.slice(0, -1), mergeKey: null, changedAt: 0 }
+  };
+};
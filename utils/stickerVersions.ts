@@ -0,0 +1,93 @@
+import { GeneratedSticker, RenderedSticker, StickerVersion, VersionSource } from '../types';
+import { MAX_STICKER_VERSIONS } from '../constants';
+
+// ==========================================
+// Sticker Versions
+// Every drawing attempt is kept on the sticker. The pinned one is mirrored onto
+// the sticker's own fields, so the editors and the pack export only ever see it.
+// ==========================================
+
+const RENDER_KEYS: (keyof RenderedSticker)[] = ['imageUrl', 'processedUrl', 'frames', 'caption', 'removal', 'maskUrl'];
+
+// The render fields present in a patch (an explicit undefined, e.g. a cleared mask, counts)
+const pickRender = (source: Partial<RenderedSticker>): Partial<RenderedSticker> =>
+  Object.fromEntries(RENDER_KEYS.filter(key => key in source).map(key => [key, source[key]]));
+
+export const createVersion = (
+  rendered: RenderedSticker,
+  text: string,
+  source: VersionSource,
+  createdAt: number = Date.now()
+): StickerVersion => ({
+  ...rendered,
+  id: `v-${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  text,
+  source,
+  createdAt
+});
+
+export const getActiveVersion = (sticker: GeneratedSticker): StickerVersion | undefined =>
+  sticker.versions.find(v => v.id === sticker.activeVersionId);
+
+/**
+ * Shows a version: its render and caption are copied onto the sticker.
+ */
+export const pinVersion = (sticker: GeneratedSticker, versionId: string): GeneratedSticker => {
+  const version = sticker.versions.find(v => v.id === versionId);
+  if (!version) return sticker;
+  const { id, text, source, createdAt, ...rendered } = version;
+  // frames/maskUrl are absent rather than undefined on some versions; don't inherit the old ones
+  return { ...sticker, ...rendered, frames: rendered.frames, maskUrl: rendered.maskUrl, text, activeVersionId: id };
+};
+
+// Past the limit the oldest versions go first, but never the one that was pinned before
+const withNewVersions = (sticker: GeneratedSticker, added: StickerVersion[]): StickerVersion[] => {
+  let versions = [...sticker.versions, ...added];
+  while (versions.length > MAX_STICKER_VERSIONS) {
+    const dropIndex = versions.findIndex(v => v.id !== sticker.activeVersionId);
+    versions = versions.filter((_, i) => i !== dropIndex);
+  }
+  return versions;
+};
+
+/**
+ * Records a new attempt and pins it.
+ * A new attempt settles any candidates still waiting for a pick.
+ */
+export const addVersion = (sticker: GeneratedSticker, version: StickerVersion): GeneratedSticker => {
+  const versions = withNewVersions(sticker, [version]);
+  return { ...pinVersion({ ...sticker, versions }, version.id), candidateIds: undefined };
+};
+
+/**
+ * Records the drafts of a candidate run. The first one is pinned so the
+ * pack is complete even if the user never picks; the version pinned before
+ * the run stays, so it can still be chosen over all of them.
+ */
+export const addCandidates = (sticker: GeneratedSticker, candidates: StickerVersion[]): GeneratedSticker => {
+  const versions = withNewVersions(sticker, candidates);
+  const kept = candidates.filter(c => versions.some(v => v.id === c.id));
+  return {
+    ...pinVersion({ ...sticker, versions }, kept[0]?.id ?? ''),
+    candidateIds: kept.length > 1 ? kept.map(c => c.id) : undefined
+  };
+};
+
+// Candidates still waiting for a pick, in drawing order
+export const getPendingCandidates = (sticker: GeneratedSticker): StickerVersion[] =>
+  (sticker.candidateIds ?? [])
+    .map(id => sticker.versions.find(v => v.id === id))
+    .filter((v): v is StickerVersion => !!v);
+
+/**
+ * Applies a local re-render (background, touch-up, caption layout) to the
+ * sticker and to its pinned version, so switching away and back keeps it.
+ */
+export const applyToActiveVersion = (sticker: GeneratedSticker, patch: Partial<GeneratedSticker>): GeneratedSticker => {
+  const render = pickRender(patch);
+  return {
+    ...sticker,
+    ...patch,
+    versions: sticker.versions.map(v => (v.id === sticker.activeVersionId ? { ...v, ...render } : v))
+  };
+};
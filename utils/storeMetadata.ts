@@ -0,0 +1,145 @@
+import { CaptionLanguage, StickerPlanItem, StoreMetadata, ValidationCheck } from '../types';
+import { CAPTION_LANGUAGES, STORE_LISTING_LIMITS } from '../constants';
+import { getFreshCaption, getLanguageName } from './captionLanguages';
+import { PackTextFile } from './packExport';
+import { formatList, t } from '../i18n';
+
+// ==========================================
+// Store Metadata
+// The listing text Creators Market asks for, kept within its limits and
+// written into the pack ZIP for copying into the submission form.
+// ==========================================
+
+// LINE counts characters, not UTF-16 units
+export const countChars = (value: string) => [...value].length;
+
+const clip = (value: string, limit: number) => [...value.trim()].slice(0, limit).join('').trim();
+
+// The copyright field takes half-width characters only, e.g. "(C) 2026 Studio Mochi"
+export const isHalfWidth = (value: string) => /^[\x20-\x7E]*$/.test(value);
+
+// "happy, 早安、greeting" -> ['happy', '早安', 'greeting']
+export const parseTags = (input: string) =>
+  [...new Set(input.split(/[,，、\n]/).map(tag => tag.trim().replace(/^#/, '')).filter(Boolean))];
+
+/**
+ * Cuts a draft down to LINE's limits: listings for the sales languages only,
+ * a half-width copyright, and a few distinct tags for each sticker in the plan.
+ */
+export const fitStoreLimits = (metadata: StoreMetadata, plan: StickerPlanItem[], languages: CaptionLanguage[]): StoreMetadata => {
+  const listings: StoreMetadata['listings'] = {};
+  languages.forEach(lang => {
+    const listing = metadata.listings[lang];
+    if (!listing) return;
+    listings[lang] = {
+      title: clip(listing.title, STORE_LISTING_LIMITS.title),
+      description: clip(listing.description, STORE_LISTING_LIMITS.description)
+    };
+  });
+
+  return {
+    listings,
+    copyright: clip(metadata.copyright.replace(/©/g, '(C)').replace(/[^\x20-\x7E]/g, '').replace(/ {2,}/g, ' '), STORE_LISTING_LIMITS.copyright),
+    tags: Object.fromEntries(plan.map(item => [
+      item.id,
+      parseTags((metadata.tags[item.id] ?? []).join(',')).slice(0, STORE_LISTING_LIMITS.tagsPerSticker)
+    ]))
+  };
+};
+
+// The listings a pack carries: all of them, or only its own language's
+const getPackedListings = (metadata: StoreMetadata, lang?: CaptionLanguage | null) =>
+  CAPTION_LANGUAGES
+    .map(l => l.id)
+    .filter(id => metadata.listings[id] && (!lang || id === lang));
+
+const checkLength = (field: string, value: string, limit: number): string | null => {
+  if (!value.trim()) return t('validation.missingField', { field });
+  const count = countChars(value);
+  return count > limit ? t('validation.tooLong', { field, count, limit }) : null;
+};
+
+/**
+ * The pre-download report's rows for the listing text. Hand edits can go past
+ * what the submission form takes, and LINE refuses those values outright.
+ */
+export const validateStoreMetadata = (
+  metadata: StoreMetadata,
+  plan: StickerPlanItem[],
+  lang?: CaptionLanguage | null
+): ValidationCheck[] => {
+  const listingChecks = getPackedListings(metadata, lang).map((id): ValidationCheck => {
+    const listing = metadata.listings[id] ?? { title: '', description: '' };
+    const rule = t('validation.rule.listing', { language: getLanguageName(id) });
+    const problems = [
+      checkLength(t('metadata.title'), listing.title, STORE_LISTING_LIMITS.title),
+      checkLength(t('metadata.description'), listing.description, STORE_LISTING_LIMITS.description)
+    ].filter((p): p is string => p !== null);
+    return problems.length > 0
+      ? { rule, status: 'fail', message: formatList(problems) }
+      : { rule, status: 'pass', message: t('validation.withinLimits') };
+  });
+
+  const copyrightRule = t('metadata.copyright');
+  const copyrightProblem = checkLength(copyrightRule, metadata.copyright, STORE_LISTING_LIMITS.copyright);
+  const copyrightCheck: ValidationCheck = copyrightProblem
+    ? { rule: copyrightRule, status: 'fail', message: copyrightProblem }
+    : !isHalfWidth(metadata.copyright)
+      ? { rule: copyrightRule, status: 'fail', message: t('metadata.copyrightHalfWidth') }
+      : { rule: copyrightRule, status: 'pass', message: metadata.copyright };
+
+  const overTagged = plan.filter(item => (metadata.tags[item.id] ?? []).length > STORE_LISTING_LIMITS.tagsPerSticker);
+  const tagsCheck: ValidationCheck = overTagged.length > 0
+    ? {
+      rule: t('metadata.tags'),
+      status: 'fail',
+      message: t('validation.tooManyTags', {
+        stickers: formatList(overTagged.map(item => `#${item.id + 1}`)),
+        limit: STORE_LISTING_LIMITS.tagsPerSticker
+      })
+    }
+    : { rule: t('metadata.tags'), status: 'pass', message: t('validation.withinLimits') };
+
+  return [...listingChecks, copyrightCheck, tagsCheck];
+};
+
+/**
+ * metadata.json for tools, metadata.txt for reading and pasting. A language
+ * pack only carries its own listing; `plan` is the stickers in the pack.
+ */
+export const buildMetadataFiles = (
+  metadata: StoreMetadata,
+  plan: StickerPlanItem[],
+  lang?: CaptionLanguage | null
+): PackTextFile[] => {
+  const languages = getPackedListings(metadata, lang);
+  const stickers = plan.map(item => ({
+    number: item.id + 1,
+    text: (lang && getFreshCaption(item, lang)) || item.text, // The caption the artwork was drawn with (see localizeStickers)
+    tags: metadata.tags[item.id] ?? []
+  }));
+
+  const json = {
+    listings: Object.fromEntries(languages.map(id => [id, metadata.listings[id]])),
+    copyright: metadata.copyright,
+    stickers
+  };
+
+  const text = [
+    ...languages.flatMap(id => [
+      `[${getLanguageName(id)}]`,
+      `${t('metadata.title')}: ${metadata.listings[id]?.title ?? ''}`,
+      `${t('metadata.description')}: ${metadata.listings[id]?.description ?? ''}`,
+      ''
+    ]),
+    `${t('metadata.copyright')}: ${metadata.copyright}`,
+    '',
+    `[${t('metadata.tags')}]`,
+    ...stickers.map(s => `#${s.number} ${s.text}: ${s.tags.join(', ')}`)
+  ];
+
+  return [
+    { fileName: 'metadata.json', content: JSON.stringify(json, null, 2) },
+    { fileName: 'metadata.txt', content: text.join('\n') }
+  ];
+};